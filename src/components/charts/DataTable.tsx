@@ -1,15 +1,21 @@
-import React, { useCallback, memo } from 'react';
-import { StudyData, COLUMN_DESCRIPTIONS } from '../../types/popane';
+import React, { useCallback, useMemo, memo } from 'react';
+import { COLUMN_DESCRIPTIONS } from '../../types/popane';
+import { StudyFrame } from '../../services/studyFrame';
 import { usePagination, useSorting, useSearch } from '../../hooks/useDataFetching';
 import { LoadingSpinner, Button } from '../ui';
 import './DataTable.css';
 
 interface DataTableProps {
-    data: StudyData[];
+    data: StudyFrame;
     columns: string[];
     loading?: boolean;
 }
 
+function formatValue(value: number | null): string {
+    if (value === null) return '-';
+    return Number.isInteger(value) ? value.toString() : value.toFixed(4);
+}
+
 const TableHeader = memo(function TableHeader({
     column,
     sortColumn,
@@ -42,25 +48,19 @@ const TableHeader = memo(function TableHeader({
 });
 
 const TableRow = memo(function TableRow({
+    frame,
     row,
     columns,
 }: {
-    row: StudyData;
+    frame: StudyFrame;
+    row: number;
     columns: string[];
 }) {
-    const formatValue = (value: unknown): string => {
-        if (value === null || value === undefined) return '-';
-        if (typeof value === 'number') {
-            return Number.isInteger(value) ? value.toString() : value.toFixed(4);
-        }
-        return String(value);
-    };
-
     return (
         <tr>
             {columns.map((col) => (
                 <td key={col}>
-                    {formatValue((row as unknown as Record<string, unknown>)[col])}
+                    {formatValue(frame.value(row, col))}
                 </td>
             ))}
         </tr>
@@ -74,10 +74,23 @@ const DataTable = memo(function DataTable({
 }: DataTableProps): React.JSX.Element {
     const ROWS_PER_PAGE = 25;
 
-    const { searchTerm, setSearchTerm, filteredItems: filteredData } = useSearch(data);
+    // The hooks below work on row numbers and read values from the frame
+    const rows = useMemo(() => Array.from({ length: data.length }, (_, i) => i), [data]);
+    const matchRow = useCallback((term: string) => {
+        const searched = data.columnNames.map(name => data.column(name)!);
+        return (row: number) => searched.some(values => (
+            !Number.isNaN(values[row]) && String(values[row]).toLowerCase().includes(term)
+        ));
+    }, [data]);
+    const rowValue = useCallback((column: string) => {
+        return (row: number) => data.value(row, column);
+    }, [data]);
+
+    const { searchTerm, setSearchTerm, filteredItems: filteredData } = useSearch(rows, matchRow);
     const { sortColumn, sortDirection, sortedItems: sortedData, toggleSort } = useSorting(
         filteredData,
-        'timestamp'
+        'timestamp',
+        rowValue
     );
     const {
         currentPage,
@@ -148,6 +161,7 @@ const DataTable = memo(function DataTable({
                         {paginatedData.map((row, idx) => (
                             <TableRow
                                 key={idx}
+                                frame={data}
                                 row={row}
                                 columns={columns}
                             />
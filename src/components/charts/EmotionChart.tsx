@@ -1,12 +1,41 @@
-import React, { useState, useEffect, useMemo, useCallback, memo } from 'react';
+import React, { useState, useMemo, useCallback, memo } from 'react';
 import Plot from 'react-plotly.js';
 import {
-    EmotionColoredSignalsResponse,
     SignalSeries,
-    EmotionColorMap
+    EmotionColorMap,
+    EmotionColoredSignalsResponse
 } from '../../types/popane';
 import { popaneApi } from '../../services/popaneApi';
-import { Button, LoadingSpinner, Card } from '../ui';
+import { usePopaneQuery } from '../../hooks/usePopaneQuery';
+import { usePlotResolution } from '../../hooks/usePlotResolution';
+import { useLinkedAxes, crosshairLayout, LinkedAxes } from '../../hooks/useLinkedAxes';
+import { useCompute } from '../../hooks/useCompute';
+import { GroupSeriesTask, DownsampleTask } from '../../services/computeProtocol';
+import { valueAt } from '../../services/downsample';
+import { StimulusEvent, StimulusOnset, eventsFromOverview, onsetLayout } from '../../services/stimulusEvents';
+import {
+    ReactivityMode,
+    BASELINE_MARKER,
+    DEFAULT_BASELINE_SECONDS,
+    baselineWindow,
+    reactivityOf,
+    reactivityUnit,
+    statsOf,
+} from '../../services/reactivity';
+import {
+    ChannelFilters,
+    FilterSpec,
+    estimateSampleRate,
+    isUnfilteredName,
+    unfilteredName,
+} from '../../services/signalFilters';
+import { MIN_ECG_RATE, beatIntervals, detectRPeaks, hrvMetrics, togglePeak } from '../../services/rPeaks';
+import { RowRange } from '../../services/studyFrame';
+import { Button, LoadingSpinner, Card, ComputeProgress } from '../ui';
+import { ApiErrorNotice, BaselineControls, FilterControls } from '../common';
+import RecordingNavigator, { TimeWindow, useRecordingOverview } from './RecordingNavigator';
+import StimulusTimeline, { TimelineRow } from './StimulusTimeline';
+import HrvTable, { HrvRow } from './HrvTable';
 import { useTheme } from '../../context/ThemeContext';
 import './EmotionChart.css';
 
@@ -14,8 +43,34 @@ interface EmotionChartProps {
     studyNumber: number;
     subjectId: number;
     initialFeatures?: string[];
+    // Controlled settings (e.g. from the URL); the chart keeps its own state when omitted
+    features?: string[];
+    onFeaturesChange?: (features: string[]) => void;
+    secondsPerEmotion?: number;
+    onSecondsPerEmotionChange?: (seconds: number) => void;
+    // Window into the full recording; null shows the first seconds of each emotion instead
+    timeWindow?: TimeWindow | null;
+    onTimeWindowChange?: (window: TimeWindow | null) => void;
+    baselineSeconds?: number;
+    onBaselineSecondsChange?: (seconds: number) => void;
 }
 
+// What the beat detector adds: nothing, R-peak markers on ECG, or markers and a tachogram panel
+type BeatView = 'off' | 'peaks' | 'hr' | 'rr';
+
+const BEAT_VIEW_LABELS: Record<BeatView, string> = {
+    off: 'Off',
+    peaks: 'R peaks',
+    hr: 'R peaks + heart rate',
+    rr: 'R peaks + RR intervals',
+};
+
+const ECG_FEATURE = 'ECG';
+
+const DEFAULT_WINDOW: TimeWindow = [0, 30];
+// Longest window the navigator allows; clicking a longer stimulus shows its start
+const MAX_WINDOW_SECONDS = 120;
+
 const LegendItem = memo(function LegendItem({
     emotion,
     color
@@ -31,43 +86,212 @@ const LegendItem = memo(function LegendItem({
     );
 });
 
+// Signals with each sample expressed against the same feature's baseline samples
+function relativeSignals(
+    signals: SignalSeries[],
+    baseline: EmotionColoredSignalsResponse,
+    mode: ReactivityMode
+): SignalSeries[] {
+    return signals.map(signal => {
+        const reference = baseline.signals.find(s => s.feature === signal.feature);
+        const stats = statsOf(reference ? reference.data_points.map(point => point.value ?? NaN) : []);
+        return {
+            ...signal,
+            unit: reactivityUnit(signal.unit, mode),
+            data_points: signal.data_points.map(point => ({
+                ...point,
+                value: point.value === null ? null : reactivityOf(point.value, stats, mode),
+            })),
+        };
+    });
+}
+
+// Runs of consecutive samples of one emotion; excerpts of different emotions are not contiguous
+function emotionRuns(signal: SignalSeries): RowRange[] {
+    const runs: RowRange[] = [];
+    signal.data_points.forEach((point, i) => {
+        if (i === 0 || point.emotion !== signal.data_points[i - 1].emotion) runs.push({ start: i, end: i + 1 });
+        else runs[runs.length - 1].end = i + 1;
+    });
+    return runs;
+}
+
+/**
+ * excerptSpans - Where each stimulus's excerpt sits on the panels' x-axis
+ * Emotion runs pair with stimuli of that emotion in presentation order; a
+ * span runs from the first to the last returned sample of its run.
+ */
+function excerptSpans(signal: SignalSeries, stimuli: StimulusEvent[]): Map<StimulusEvent, [number, number]> {
+    const spans = new Map<StimulusEvent, [number, number]>();
+    let next = 0;
+    emotionRuns(signal).forEach(({ start, end }) => {
+        const emotion = signal.data_points[start].emotion;
+        const match = stimuli.findIndex((event, i) => i >= next && event.name === emotion);
+        if (match < 0) return;
+        spans.set(stimuli[match], [signal.data_points[start].time_offset, signal.data_points[end - 1].time_offset]);
+        next = match + 1;
+    });
+    return spans;
+}
+
+// The instantaneous heart rate or RR interval at each beat, as a panel of its own
+function tachogram(ecg: SignalSeries, peaks: number[], runs: RowRange[], view: 'hr' | 'rr'): SignalSeries {
+    const time = ecg.data_points.map(point => point.time_offset);
+    return {
+        feature: view === 'hr' ? 'Heart rate' : 'RR interval',
+        unit: view === 'hr' ? 'bpm' : 'ms',
+        title: view === 'hr' ? 'Instantaneous heart rate from R peaks' : 'RR tachogram from R peaks',
+        data_points: beatIntervals(peaks, time, runs).map(({ end, rr }) => ({
+            ...ecg.data_points[end],
+            value: view === 'hr' ? 60000 / rr : rr,
+        })),
+    };
+}
+
+function nearestIndex(signal: SignalSeries, time: number): number {
+    let nearest = 0;
+    signal.data_points.forEach((point, i) => {
+        if (Math.abs(point.time_offset - time) < Math.abs(signal.data_points[nearest].time_offset - time)) nearest = i;
+    });
+    return nearest;
+}
+
 const PANEL_BACKGROUNDS = ['#fafafa', '#f0f4f8'];
+const NO_FILTERS: FilterSpec[] = [];
 
 const SignalPanel = memo(function SignalPanel({
     signal,
     emotionColors,
     showXAxis,
+    onsets,
+    labelOnsets,
+    link,
     isDark,
+    filters,
+    sampleRate,
+    showUnfiltered,
+    peaks,
+    onPeakClick,
 }: {
     signal: SignalSeries;
     emotionColors: Record<string, string>;
     showXAxis: boolean;
+    onsets: StimulusOnset[];
+    labelOnsets: boolean;
+    link: LinkedAxes;
     isDark: boolean;
+    filters: FilterSpec[];
+    sampleRate: number | null;
+    showUnfiltered: boolean;
+    // R peaks as indices into the signal's points; a click handler makes them editable
+    peaks?: number[];
+    onPeakClick?: (time: number) => void;
 }) {
+    const { containerRef, maxPoints, xRange, revision, handleRelayout } = usePlotResolution(signal, link);
+
+    // Samples are grouped by their emotion's index in order of appearance
+    const createGrouping = useCallback((): GroupSeriesTask => {
+        const points = signal.data_points;
+        const emotions = Array.from(new Set(points.map(point => point.emotion)));
+        const emotionIndex = new Map(emotions.map((emotion, i) => [emotion, i] as [string, number]));
+        const values = Float64Array.from(points, point => point.value ?? NaN);
+        const filtered = filters.length > 0 && sampleRate !== null;
+        return {
+            kind: 'groupSeries',
+            groups: Int32Array.from(points, point => emotionIndex.get(point.emotion)!),
+            groupLabels: emotions,
+            members: null,
+            x: Float64Array.from(points, point => point.time_offset),
+            columns: [
+                { name: signal.feature, values, filters },
+                ...(filtered && showUnfiltered ? [{ name: unfilteredName(signal.feature), values: values.slice() }] : []),
+            ],
+            relativeX: false,
+            normalize: 'none',
+            sampleRate,
+        };
+    }, [signal, filters, sampleRate, showUnfiltered]);
+    const grouping = useCompute(createGrouping, { transfer: true });
+
+    // Each emotion segment is downsampled on its own, to the visible range when zoomed
+    const createDownsample = useMemo(() => {
+        const segments = grouping.result?.series;
+        if (!segments) return null;
+        return (): DownsampleTask => ({ kind: 'downsample', series: segments, maxPoints, range: xRange });
+    }, [grouping.result, maxPoints, xRange]);
+    const sampling = useCompute(createDownsample);
+
     const traces = useMemo(() => {
-        const emotionGroups: Record<string, { x: number[]; y: (number | null)[] }> = {};
-
-        signal.data_points.forEach(point => {
-            if (!emotionGroups[point.emotion]) {
-                emotionGroups[point.emotion] = { x: [], y: [] };
-            }
-            emotionGroups[point.emotion].x.push(point.time_offset);
-            emotionGroups[point.emotion].y.push(point.value);
+        // Unfiltered copies go first so the filtered signal is drawn over them
+        const series = sampling.result?.series ?? [];
+        const ordered = [
+            ...series.filter(s => isUnfilteredName(s.column)),
+            ...series.filter(s => !isUnfilteredName(s.column)),
+        ];
+        return ordered.map(({ label: emotion, column, x, y, stats }) => {
+            const unfiltered = isUnfilteredName(column);
+            return {
+                x,
+                y,
+                type: 'scatter' as const,
+                mode: 'lines' as const,
+                name: unfiltered ? `${emotion} (unfiltered)` : emotion,
+                opacity: unfiltered ? 0.35 : 1,
+                line: {
+                    color: emotionColors[emotion] || '#666',
+                    width: unfiltered ? 1 : 1.5,
+                },
+                hovertemplate: `${column}: %{y:.4f}<br>Time: %{x:.3f}s<br>Emotion: ${emotion}`
+                    + `<br>Segment mean: ${stats.mean.toFixed(4)} ± ${stats.std.toFixed(4)}<extra></extra>`,
+            };
         });
+    }, [sampling.result, emotionColors]);
 
-        return Object.entries(emotionGroups).map(([emotion, data]) => ({
-            x: data.x,
-            y: data.y,
+    // Peaks sit on the signal as displayed, which may be filtered
+    const peakTrace = useMemo(() => {
+        if (!peaks) return null;
+        const displayed = (grouping.result?.series ?? []).filter(s => !isUnfilteredName(s.column));
+        const x = peaks.map(i => signal.data_points[i].time_offset);
+        const y = x.map(at => {
+            const segment = displayed.find(s => valueAt(s.x, s.y, at) !== null);
+            return segment ? valueAt(segment.x, segment.y, at) : null;
+        });
+        return {
+            x,
+            y,
             type: 'scatter' as const,
-            mode: 'lines' as const,
-            name: emotion,
-            line: {
-                color: emotionColors[emotion] || '#666',
-                width: 1.5,
-            },
-            hovertemplate: `${signal.feature}: %{y:.4f}<br>Time: %{x:.3f}s<br>Emotion: ${emotion}<extra></extra>`,
-        }));
-    }, [signal, emotionColors]);
+            mode: 'markers' as const,
+            name: 'R peaks',
+            marker: { symbol: 'circle-open', size: 8, color: isDark ? '#f9fafb' : '#111827' },
+            hovertemplate: `R peak<br>Time: %{x:.3f}s${onPeakClick ? '<br>Click to remove' : ''}<extra></extra>`,
+        };
+    }, [peaks, grouping.result, signal.data_points, isDark, onPeakClick]);
+
+    // The segment under the linked crosshair, colored by its emotion
+    const crosshair = useMemo(() => {
+        const { hoverX } = link;
+        if (hoverX === null) return crosshairLayout(null, [], isDark);
+        const segment = (sampling.result?.series ?? [])
+            .find(s => !isUnfilteredName(s.column) && valueAt(s.x, s.y, hoverX) !== null);
+        return crosshairLayout(hoverX, [{
+            label: `${signal.feature} (${signal.unit})`,
+            value: segment ? valueAt(segment.x, segment.y, hoverX) : null,
+            color: segment ? emotionColors[segment.label] : undefined,
+        }], isDark);
+    }, [link, sampling.result, signal.feature, signal.unit, emotionColors, isDark]);
+
+    const markings = useMemo(() => onsetLayout(onsets, labelOnsets, isDark), [onsets, labelOnsets, isDark]);
+
+    const { setHoverX } = link;
+    const handleHover = useCallback((event: Readonly<Plotly.PlotMouseEvent>) => {
+        const x = Number(event.points[0]?.x);
+        setHoverX(Number.isFinite(x) ? x : null);
+    }, [setHoverX]);
+    const handleUnhover = useCallback(() => setHoverX(null), [setHoverX]);
+    const handleClick = useCallback((event: Readonly<Plotly.PlotMouseEvent>) => {
+        const x = Number(event.points[0]?.x);
+        if (Number.isFinite(x)) onPeakClick?.(x);
+    }, [onPeakClick]);
 
     const textColor = isDark ? '#a0aec0' : '#374151';
     const gridColor = isDark ? 'rgba(255,255,255,0.1)' : 'rgba(0,0,0,0.1)';
@@ -76,6 +300,8 @@ const SignalPanel = memo(function SignalPanel({
 
     const layout = useMemo((): Partial<Plotly.Layout> => ({
         height: 120,
+        // Keep the user's zoom while traces are resampled for it
+        uirevision: revision,
         margin: { l: 60, r: 20, t: 30, b: showXAxis ? 40 : 10 },
         showlegend: false,
         title: {
@@ -86,6 +312,8 @@ const SignalPanel = memo(function SignalPanel({
             y: 0.95,
         },
         xaxis: {
+            range: xRange ?? undefined,
+            autorange: xRange === null,
             showticklabels: showXAxis,
             title: showXAxis ? { text: 'Time (seconds)', font: { size: 10, color: textColor } } : undefined,
             gridcolor: gridColor,
@@ -104,13 +332,24 @@ const SignalPanel = memo(function SignalPanel({
         paper_bgcolor: paperBg,
         plot_bgcolor: plotBg,
         font: { color: textColor },
-    }), [signal, showXAxis, textColor, gridColor, paperBg, plotBg]);
+        shapes: [...markings.shapes, ...crosshair.shapes],
+        annotations: [...markings.annotations, ...crosshair.annotations],
+    }), [signal, revision, xRange, markings, crosshair, showXAxis, textColor, gridColor, paperBg, plotBg]);
 
     return (
-        <div className="signal-panel">
+        <div className="signal-panel" ref={containerRef}>
+            <ComputeProgress
+                computing={grouping.computing || sampling.computing}
+                progress={grouping.computing ? grouping.progress : sampling.progress}
+                error={grouping.error ?? sampling.error}
+            />
             <Plot
-                data={traces as Plotly.Data[]}
+                data={(peakTrace ? [...traces, peakTrace] : traces) as Plotly.Data[]}
                 layout={layout}
+                onRelayout={handleRelayout}
+                onHover={handleHover}
+                onUnhover={handleUnhover}
+                onClick={onPeakClick ? handleClick : undefined}
                 config={{
                     responsive: true,
                     displayModeBar: false,
@@ -126,42 +365,53 @@ const EmotionChart = memo(function EmotionChart({
     studyNumber,
     subjectId,
     initialFeatures = ['ECG', 'EDA', 'SBP'],
+    features,
+    onFeaturesChange,
+    secondsPerEmotion: secondsProp,
+    onSecondsPerEmotionChange,
+    timeWindow: timeWindowProp,
+    onTimeWindowChange,
+    baselineSeconds: baselineProp,
+    onBaselineSecondsChange,
 }: EmotionChartProps): React.JSX.Element {
     const { isDark } = useTheme();
-    const [data, setData] = useState<EmotionColoredSignalsResponse | null>(null);
-    const [loading, setLoading] = useState(false);
-    const [error, setError] = useState<string | null>(null);
-
-    const [selectedFeatures, setSelectedFeatures] = useState<string[]>(initialFeatures);
-    const [secondsPerEmotion, setSecondsPerEmotion] = useState(5);
-
-    // Fetch emotion-colored data (first N seconds of each emotion)
-    const fetchData = useCallback(async () => {
-        if (!studyNumber || !subjectId) return;
-
-        setLoading(true);
-        setError(null);
-
-        try {
-            const response = await popaneApi.getEmotionColoredSignals(
-                studyNumber,
-                subjectId,
-                selectedFeatures.length > 0 ? selectedFeatures : undefined,
-                0,
-                0,
-                secondsPerEmotion
-            );
-            setData(response);
-        } catch (err) {
-            setError(err instanceof Error ? err.message : 'Failed to load data');
-        } finally {
-            setLoading(false);
-        }
-    }, [studyNumber, subjectId, selectedFeatures, secondsPerEmotion]);
+    const [localFeatures, setLocalFeatures] = useState<string[]>(initialFeatures);
+    const [localSeconds, setLocalSeconds] = useState(5);
 
-    useEffect(() => {
-        fetchData();
-    }, [fetchData]);
+    const selectedFeatures = features ?? localFeatures;
+    const setSelectedFeatures = onFeaturesChange ?? setLocalFeatures;
+    const secondsPerEmotion = secondsProp ?? localSeconds;
+    const setSecondsPerEmotion = onSecondsPerEmotionChange ?? setLocalSeconds;
+    const [localWindow, setLocalWindow] = useState<TimeWindow | null>(null);
+    // Unlike the settings above, a controlled null is meaningful (per-emotion mode)
+    const timeWindow = onTimeWindowChange ? timeWindowProp ?? null : localWindow;
+    const setTimeWindow = onTimeWindowChange ?? setLocalWindow;
+    const [reactivity, setReactivity] = useState<ReactivityMode | null>(null);
+    const [localBaseline, setLocalBaseline] = useState(DEFAULT_BASELINE_SECONDS);
+    const baselineSeconds = baselineProp ?? localBaseline;
+    const setBaselineSeconds = onBaselineSecondsChange ?? setLocalBaseline;
+    const [filters, setFilters] = useState<ChannelFilters>({});
+    const [showUnfiltered, setShowUnfiltered] = useState(false);
+    const [beatView, setBeatView] = useState<BeatView>('off');
+    const [editingPeaks, setEditingPeaks] = useState(false);
+    // Manual corrections belong to the ECG they were made on and are dropped when it reloads
+    const [correction, setCorrection] = useState<{ source: SignalSeries; peaks: number[] } | null>(null);
+
+    // Emotion-colored data (first N seconds of each emotion)
+    const { data, loading, error, refetch } = usePopaneQuery(
+        studyNumber && subjectId
+            ? ['signals', studyNumber, subjectId, selectedFeatures, timeWindow ?? secondsPerEmotion]
+            : null,
+        signal => popaneApi.getEmotionColoredSignals(
+            studyNumber,
+            subjectId,
+            selectedFeatures.length > 0 ? selectedFeatures : undefined,
+            timeWindow ? timeWindow[0] : 0,
+            timeWindow ? timeWindow[1] : 0,
+            timeWindow ? undefined : secondsPerEmotion,
+            signal
+        )
+    );
 
     const emotionColors = useMemo(() => {
         if (!data) return {};
@@ -171,19 +421,131 @@ const EmotionChart = memo(function EmotionChart({
         }, {} as Record<string, string>);
     }, [data]);
 
+    // Panels zoom, pan and hover together; new signals start unzoomed
+    const link = useLinkedAxes(data);
+
+    // Stimulus times come with the recording overview the navigator also shows
+    const overviewFeature = selectedFeatures[0] ?? data?.available_features[0] ?? 'ECG';
+    const overview = useRecordingOverview(studyNumber, subjectId, overviewFeature);
+    const stimuli = useMemo(() => {
+        return overview.data ? eventsFromOverview(overview.data.segments) : [];
+    }, [overview.data]);
+
+    const timelineRows = useMemo((): TimelineRow[] => {
+        return [{ key: subjectId, label: `Subject ${subjectId}`, events: stimuli }];
+    }, [subjectId, stimuli]);
+
+    // The baseline samples come from the recording itself, whatever part of it is shown
+    const baselineEvent = stimuli.find(event => event.marker === BASELINE_MARKER);
+    const baselineRange = baselineEvent
+        ? baselineWindow(baselineEvent.onset, baselineEvent.offset, baselineSeconds)
+        : null;
+    const baseline = usePopaneQuery(
+        reactivity && baselineRange
+            ? ['signals', studyNumber, subjectId, selectedFeatures, baselineRange]
+            : null,
+        signal => popaneApi.getEmotionColoredSignals(
+            studyNumber,
+            subjectId,
+            selectedFeatures.length > 0 ? selectedFeatures : undefined,
+            baselineRange![0],
+            baselineRange![1],
+            undefined,
+            signal
+        )
+    );
+
+    const signals = useMemo(() => {
+        if (!data) return [];
+        return reactivity && baseline.data ? relativeSignals(data.signals, baseline.data, reactivity) : data.signals;
+    }, [data, reactivity, baseline.data]);
+
+    // Every feature is sampled alike, so the first one tells the rate
+    const sampleRate = useMemo(() => {
+        const points = data?.signals[0]?.data_points;
+        return points ? estimateSampleRate(points.map(point => point.time_offset)) : null;
+    }, [data]);
+
+    // Beats come from the recorded ECG, whatever the panels show it relative to or filtered with
+    const ecg = beatView !== 'off' ? data?.signals.find(signal => signal.feature === ECG_FEATURE) : undefined;
+    const ecgRuns = useMemo(() => {
+        if (!ecg) return [];
+        // The full recording is one contiguous stretch; per-emotion excerpts are not
+        return timeWindow ? [{ start: 0, end: ecg.data_points.length }] : emotionRuns(ecg);
+    }, [ecg, timeWindow]);
+    const detectedPeaks = useMemo(() => {
+        if (!ecg || sampleRate === null) return [];
+        return detectRPeaks(ecg.data_points.map(point => point.value ?? NaN), sampleRate, ecgRuns);
+    }, [ecg, sampleRate, ecgRuns]);
+    const peaks = correction && correction.source === ecg ? correction.peaks : detectedPeaks;
+
+    const handlePeakClick = useCallback((time: number) => {
+        if (!ecg || sampleRate === null) return;
+        const values = ecg.data_points.map(point => point.value ?? NaN);
+        setCorrection({ source: ecg, peaks: togglePeak(peaks, nearestIndex(ecg, time), values, sampleRate) });
+    }, [ecg, sampleRate, peaks]);
+
+    const hrvRows = useMemo((): HrvRow[] => {
+        if (!ecg) return [];
+        const intervals = beatIntervals(peaks, ecg.data_points.map(point => point.time_offset), ecgRuns);
+        const emotions = Array.from(new Set(intervals.map(interval => ecg.data_points[interval.end].emotion)));
+        return [
+            ...emotions.map(emotion => ({
+                key: emotion,
+                label: emotion,
+                color: emotionColors[emotion],
+                metrics: hrvMetrics(intervals.filter(interval => ecg.data_points[interval.end].emotion === emotion)),
+            })),
+            { key: 'all', label: 'All', metrics: hrvMetrics(intervals) },
+        ];
+    }, [ecg, peaks, ecgRuns, emotionColors]);
+
+    // The tachogram goes right under the ECG panel
+    const panels = useMemo(() => {
+        const index = signals.findIndex(signal => signal.feature === ECG_FEATURE);
+        if (!ecg || index < 0 || (beatView !== 'hr' && beatView !== 'rr')) return signals;
+        return [...signals.slice(0, index + 1), tachogram(ecg, peaks, ecgRuns, beatView), ...signals.slice(index + 1)];
+    }, [signals, ecg, peaks, ecgRuns, beatView]);
+
+    // Per-emotion excerpts are placed by the backend, so their times come from the returned samples
+    const excerpts = useMemo(() => {
+        const first = data?.signals[0];
+        return first && !timeWindow ? excerptSpans(first, stimuli) : new Map<StimulusEvent, [number, number]>();
+    }, [data, stimuli, timeWindow]);
+
+    // Where each stimulus starts on the panels' x-axis: recording time, or where its excerpt begins
+    const onsets = useMemo((): StimulusOnset[] => {
+        return stimuli
+            .map(event => ({
+                x: timeWindow ? event.onset : excerpts.get(event)?.[0] ?? NaN,
+                marker: event.marker,
+                color: event.color,
+            }))
+            .filter(onset => timeWindow
+                ? onset.x >= timeWindow[0] && onset.x <= timeWindow[1]
+                : !Number.isNaN(onset.x));
+    }, [stimuli, timeWindow, excerpts]);
+
+    const { setXRange } = link;
+    const handleStimulusSelect = useCallback((event: StimulusEvent) => {
+        if (timeWindow) {
+            setTimeWindow([event.onset, Math.min(event.offset, event.onset + MAX_WINDOW_SECONDS)]);
+        } else {
+            const span = excerpts.get(event);
+            if (span) setXRange(span);
+        }
+    }, [timeWindow, setTimeWindow, excerpts, setXRange]);
+
     const handleFeatureToggle = useCallback((feature: string) => {
-        setSelectedFeatures(prev => {
-            if (prev.includes(feature)) {
-                return prev.filter(f => f !== feature);
-            }
-            return [...prev, feature];
-        });
-    }, []);
+        setSelectedFeatures(selectedFeatures.includes(feature)
+            ? selectedFeatures.filter(f => f !== feature)
+            : [...selectedFeatures, feature]);
+    }, [selectedFeatures, setSelectedFeatures]);
 
     const handleSecondsChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
         const value = parseInt(e.target.value) || 5;
         setSecondsPerEmotion(Math.max(1, Math.min(60, value)));
-    }, []);
+    }, [setSecondsPerEmotion]);
 
     if (loading && !data) {
         return (
@@ -196,10 +558,11 @@ const EmotionChart = memo(function EmotionChart({
     if (error) {
         return (
             <Card className="emotion-chart error">
-                <div className="error-message">
-                    <p>Error: {error}</p>
-                    <Button onClick={fetchData}>Retry</Button>
-                </div>
+                <ApiErrorNotice
+                    error={error}
+                    title="Failed to load signals"
+                    onRetry={refetch}
+                />
             </Card>
         );
     }
@@ -249,56 +612,176 @@ const EmotionChart = memo(function EmotionChart({
                     </div>
                 </div>
 
-                <div className="control-group time-range">
-                    <label>Seconds per emotion:</label>
-                    <input
-                        type="number"
-                        value={secondsPerEmotion}
-                        onChange={handleSecondsChange}
-                        min={1}
-                        max={60}
-                        step={1}
-                    />
+                <div className="control-group range-mode">
+                    <label>Range:</label>
                     <div className="preset-buttons">
                         <button
-                            className={secondsPerEmotion === 5 ? 'active' : ''}
-                            onClick={() => setSecondsPerEmotion(5)}
+                            className={timeWindow ? '' : 'active'}
+                            onClick={() => setTimeWindow(null)}
+                            title="First seconds of each emotion, back to back"
                         >
-                            5s
+                            Per emotion
                         </button>
                         <button
-                            className={secondsPerEmotion === 10 ? 'active' : ''}
-                            onClick={() => setSecondsPerEmotion(10)}
+                            className={timeWindow ? 'active' : ''}
+                            onClick={() => setTimeWindow(timeWindow ?? DEFAULT_WINDOW)}
+                            title="Browse the whole recording with the navigator"
                         >
-                            10s
-                        </button>
-                        <button
-                            className={secondsPerEmotion === 30 ? 'active' : ''}
-                            onClick={() => setSecondsPerEmotion(30)}
-                        >
-                            30s
+                            Full recording
                         </button>
                     </div>
-                    <Button
-                        variant="primary"
-                        size="small"
-                        onClick={fetchData}
-                        disabled={loading}
-                    >
-                        {loading ? 'Loading...' : 'Update'}
-                    </Button>
                 </div>
+
+                {!timeWindow && (
+                    <div className="control-group time-range">
+                        <label>Seconds per emotion:</label>
+                        <input
+                            type="number"
+                            value={secondsPerEmotion}
+                            onChange={handleSecondsChange}
+                            min={1}
+                            max={60}
+                            step={1}
+                        />
+                        <div className="preset-buttons">
+                            <button
+                                className={secondsPerEmotion === 5 ? 'active' : ''}
+                                onClick={() => setSecondsPerEmotion(5)}
+                            >
+                                5s
+                            </button>
+                            <button
+                                className={secondsPerEmotion === 10 ? 'active' : ''}
+                                onClick={() => setSecondsPerEmotion(10)}
+                            >
+                                10s
+                            </button>
+                            <button
+                                className={secondsPerEmotion === 30 ? 'active' : ''}
+                                onClick={() => setSecondsPerEmotion(30)}
+                            >
+                                30s
+                            </button>
+                        </div>
+                    </div>
+                )}
+
+                <div className="control-group">
+                    <BaselineControls
+                        mode={reactivity}
+                        onModeChange={setReactivity}
+                        seconds={baselineSeconds}
+                        onSecondsChange={setBaselineSeconds}
+                    />
+                    {reactivity && !overview.loading && !baselineEvent && (
+                        <span className="baseline-status">No baseline in this recording</span>
+                    )}
+                    {reactivity && baseline.loading && <span className="baseline-status">Loading baseline…</span>}
+                    {reactivity && baseline.error && (
+                        <span className="baseline-status error" title={baseline.error.message}>
+                            Baseline failed to load <button onClick={baseline.refetch}>Retry</button>
+                        </span>
+                    )}
+                </div>
+
+                <div className="control-group">
+                    <FilterControls
+                        channels={signals.map(signal => signal.feature)}
+                        filters={filters}
+                        onFiltersChange={setFilters}
+                        sampleRate={sampleRate}
+                        showUnfiltered={showUnfiltered}
+                        onShowUnfilteredChange={setShowUnfiltered}
+                    />
+                </div>
+
+                {data.available_features.includes(ECG_FEATURE) && (
+                    <div className="control-group beat-controls">
+                        <label>Beats:</label>
+                        <select value={beatView} onChange={e => setBeatView(e.target.value as BeatView)}>
+                            {(Object.keys(BEAT_VIEW_LABELS) as BeatView[]).map(view => (
+                                <option key={view} value={view}>{BEAT_VIEW_LABELS[view]}</option>
+                            ))}
+                        </select>
+                        {beatView !== 'off' && ecg && (
+                            <label title="Click the ECG near a beat to remove its peak, or elsewhere to add one">
+                                <input
+                                    type="checkbox"
+                                    checked={editingPeaks}
+                                    onChange={e => setEditingPeaks(e.target.checked)}
+                                />
+                                Correct peaks
+                            </label>
+                        )}
+                        {beatView !== 'off' && !selectedFeatures.includes(ECG_FEATURE) && (
+                            <span className="baseline-status">Select ECG to detect beats</span>
+                        )}
+                        {ecg && sampleRate !== null && sampleRate < MIN_ECG_RATE && (
+                            <span className="baseline-status">
+                                ECG at {sampleRate.toFixed(0)} Hz is too coarse for beat detection
+                            </span>
+                        )}
+                    </div>
+                )}
+
+                <Button
+                    variant="ghost"
+                    size="small"
+                    onClick={link.resetAll}
+                    title="Reset zoom and pan of every panel"
+                >
+                    Reset zoom
+                </Button>
+
+                <Button
+                    variant="primary"
+                    size="small"
+                    onClick={refetch}
+                    disabled={loading}
+                >
+                    {loading ? 'Loading...' : 'Update'}
+                </Button>
             </div>
 
+            {timeWindow && (
+                <RecordingNavigator
+                    studyNumber={studyNumber}
+                    subjectId={subjectId}
+                    feature={overviewFeature}
+                    window={timeWindow}
+                    onWindowChange={setTimeWindow}
+                    maxWindowSeconds={MAX_WINDOW_SECONDS}
+                />
+            )}
+
+            <StimulusTimeline rows={timelineRows} highlight={timeWindow} onSelect={handleStimulusSelect} />
+
+            {ecg && (
+                <HrvTable
+                    rows={hrvRows}
+                    added={peaks.filter(peak => !detectedPeaks.includes(peak)).length}
+                    removed={detectedPeaks.filter(peak => !peaks.includes(peak)).length}
+                    onReset={() => setCorrection(null)}
+                />
+            )}
+
             {/* Signal Panels - Stacked */}
             <div className="signal-panels">
-                {data.signals.map((signal, idx) => (
+                {panels.map((signal, idx) => (
                     <SignalPanel
                         key={signal.feature}
                         signal={signal}
                         emotionColors={emotionColors}
-                        showXAxis={idx === data.signals.length - 1}
+                        showXAxis={idx === panels.length - 1}
+                        onsets={onsets}
+                        labelOnsets={idx === 0}
+                        link={link}
                         isDark={isDark}
+                        filters={filters[signal.feature] ?? NO_FILTERS}
+                        sampleRate={sampleRate}
+                        showUnfiltered={showUnfiltered}
+                        peaks={ecg && signal.feature === ECG_FEATURE ? peaks : undefined}
+                        onPeakClick={ecg && signal.feature === ECG_FEATURE && editingPeaks ? handlePeakClick : undefined}
                     />
                 ))}
             </div>
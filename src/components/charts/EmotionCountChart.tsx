@@ -1,61 +1,58 @@
-import React, { useState, useEffect, useMemo, useCallback, memo } from 'react';
+import React, { useState, useMemo, memo } from 'react';
 import Plot from 'react-plotly.js';
 import { popaneApi } from '../../services/popaneApi';
-import { EMOTION_COLORS } from '../../types/popane';
+import { usePopaneQuery } from '../../hooks/usePopaneQuery';
+import { EmotionGrouping, DEFAULT_EMOTION_GROUPING, GROUPING_LABELS, GROUPING_NOUNS, groupByEmotion } from '../../services/emotionTaxonomy';
 import { Button, LoadingSpinner, Card } from '../ui';
+import { EmotionGroupingSwitch } from '../common';
 import { useTheme } from '../../context/ThemeContext';
 import './EmotionCountChart.css';
 
 interface EmotionCount {
     emotion: string;
     color: string;
-    count: number;
+    count: number;  // subjects shown a stimulus; summed over the stimuli of a group
     subjects: number[];
 }
 
 interface EmotionCountChartProps {
     studyNumber: number;
     subjectIds: number[];
+    // Controlled grouping (e.g. kept in the URL); falls back to local state
+    grouping?: EmotionGrouping;
+    onGroupingChange?: (grouping: EmotionGrouping) => void;
 }
 
 const EmotionCountChart = memo(function EmotionCountChart({
     studyNumber,
     subjectIds,
+    grouping: groupingProp,
+    onGroupingChange,
 }: EmotionCountChartProps): React.JSX.Element {
     const { isDark } = useTheme();
-    const [emotionCounts, setEmotionCounts] = useState<EmotionCount[]>([]);
-    const [loading, setLoading] = useState(false);
-    const [error, setError] = useState<string | null>(null);
-
-    const fetchEmotionCounts = useCallback(async () => {
-        if (!studyNumber || subjectIds.length === 0) return;
-
-        setLoading(true);
-        setError(null);
-
-        try {
-            // Use the new efficient endpoint that returns aggregated emotion data
-            const response = await popaneApi.getEmotionSummary(studyNumber, subjectIds);
-
-            // Convert response to EmotionCount array
-            const counts: EmotionCount[] = Object.entries(response.emotionCounts).map(([emotion, count]) => ({
-                emotion,
-                count,
-                color: EMOTION_COLORS[emotion] || '#666666',
-                subjects: response.subjectsPerEmotion[emotion] || [],
-            }));
-
-            setEmotionCounts(counts.sort((a, b) => b.count - a.count));
-        } catch (err) {
-            setError(err instanceof Error ? err.message : 'Failed to load emotion data');
-        } finally {
-            setLoading(false);
-        }
-    }, [studyNumber, subjectIds]);
-
-    useEffect(() => {
-        fetchEmotionCounts();
-    }, [fetchEmotionCounts]);
+    const [localGrouping, setLocalGrouping] = useState<EmotionGrouping>(DEFAULT_EMOTION_GROUPING);
+    const grouping = groupingProp ?? localGrouping;
+    const setGrouping = onGroupingChange ?? setLocalGrouping;
+
+    // Use the efficient endpoint that returns aggregated emotion data
+    const { data: summary, loading, error, refetch } = usePopaneQuery(
+        studyNumber && subjectIds.length > 0 ? ['emotions/summary', studyNumber, subjectIds] : null,
+        signal => popaneApi.getEmotionSummary(studyNumber, subjectIds, signal)
+    );
+
+    // Convert response to EmotionCount array, one entry per group of stimuli
+    const emotionCounts = useMemo((): EmotionCount[] => {
+        if (!summary) return [];
+        return groupByEmotion(Object.keys(summary.emotionCounts), stimulus => stimulus, grouping)
+            .map(group => ({
+                emotion: group.label,
+                color: group.color,
+                count: group.items.reduce((sum, stimulus) => sum + summary.emotionCounts[stimulus], 0),
+                subjects: Array.from(new Set(group.items.flatMap(stimulus => summary.subjectsPerEmotion[stimulus] || [])))
+                    .sort((a, b) => a - b),
+            }))
+            .sort((a, b) => b.count - a.count);
+    }, [summary, grouping]);
 
     const textColor = isDark ? '#a0aec0' : '#374151';
     const gridColor = isDark ? 'rgba(255,255,255,0.1)' : 'rgba(0,0,0,0.1)';
@@ -72,7 +69,7 @@ const EmotionCountChart = memo(function EmotionCountChart({
             marker: {
                 color: emotionCounts.map(e => e.color),
             },
-            text: emotionCounts.map(e => `${e.count} subject${e.count > 1 ? 's' : ''}`),
+            text: emotionCounts.map(e => `${e.subjects.length} subject${e.subjects.length !== 1 ? 's' : ''}`),
             textposition: 'auto' as const,
             hovertemplate: '%{x}<br>Count: %{y}<br>Subjects: %{customdata}<extra></extra>',
             customdata: emotionCounts.map(e => e.subjects.join(', ')),
@@ -85,12 +82,13 @@ const EmotionCountChart = memo(function EmotionCountChart({
             font: { size: 16, color: '#60a5fa' },
         },
         xaxis: {
-            title: { text: 'Emotion', font: { color: textColor } },
+            title: { text: GROUPING_LABELS[grouping], font: { color: textColor } },
             tickfont: { color: textColor },
             gridcolor: gridColor,
         },
         yaxis: {
-            title: { text: 'Number of Subjects', font: { color: textColor } },
+            // Grouped bars count each subject once per stimulus of the group
+            title: { text: grouping === 'stimulus' ? 'Number of Subjects' : 'Stimulus Presentations', font: { color: textColor } },
             tickfont: { color: textColor },
             gridcolor: gridColor,
             dtick: 10,
@@ -101,7 +99,7 @@ const EmotionCountChart = memo(function EmotionCountChart({
         plot_bgcolor: plotBg,
         font: { color: textColor },
         showlegend: false,
-    }), [studyNumber, textColor, gridColor, paperBg, plotBg]);
+    }), [studyNumber, grouping, textColor, gridColor, paperBg, plotBg]);
 
     if (loading && emotionCounts.length === 0) {
         return (
@@ -115,8 +113,8 @@ const EmotionCountChart = memo(function EmotionCountChart({
         return (
             <Card className="emotion-count-chart error">
                 <div className="error-message">
-                    <p>Error: {error}</p>
-                    <Button onClick={fetchEmotionCounts}>Retry</Button>
+                    <p>Error: {error.message}</p>
+                    <Button onClick={refetch}>Retry</Button>
                 </div>
             </Card>
         );
@@ -140,8 +138,9 @@ const EmotionCountChart = memo(function EmotionCountChart({
                     </span>
                 </h3>
                 <div className="chart-info">
+                    <EmotionGroupingSwitch value={grouping} onChange={setGrouping} />
                     <span className="total-emotions">
-                        {emotionCounts.length} unique emotion{emotionCounts.length > 1 ? 's' : ''}
+                        {emotionCounts.length} unique {GROUPING_NOUNS[grouping][emotionCounts.length > 1 ? 1 : 0]}
                     </span>
                 </div>
             </div>
@@ -1,96 +1,20 @@
 import React, { useState, useEffect } from 'react';
 import Plot from 'react-plotly.js';
 import { Data, Layout } from 'plotly.js';
+import { FrequencyPCAResponse, EmotionFeatures } from '../../types/popane';
+import { popaneApi, isAbortError } from '../../services/popaneApi';
+import { queryCache, hashQueryKey } from '../../services/queryCache';
+import {
+    EmotionGrouping,
+    DEFAULT_EMOTION_GROUPING,
+    GROUPING_LABELS,
+    GROUPING_NOUNS,
+    groupByEmotion,
+    meanOf,
+} from '../../services/emotionTaxonomy';
+import { usePopaneQuery } from '../../hooks/usePopaneQuery';
 import { useTheme } from '../../context/ThemeContext';
-
-interface TimeDomainMetrics {
-    mean: number;
-    std: number;
-    min_val: number;
-    max_val: number;
-    range_val: number;
-    rmssd: number | null;
-    sdnn: number | null;
-    sdsd: number | null;
-    pnn50: number | null;
-    pnn20: number | null;
-    n_samples: number;
-    duration_sec: number;
-}
-
-interface FrequencyDomainMetrics {
-    vlf_power: number;
-    lf_power: number;
-    hf_power: number;
-    total_power: number;
-    lf_nu: number;
-    hf_nu: number;
-    lf_hf_ratio: number;
-    vlf_peak: number;
-    lf_peak: number;
-    hf_peak: number;
-    n_samples: number;
-    sampling_rate: number;
-}
-
-interface EmotionFeatures {
-    emotion: string;
-    color: string;
-    time_domain: TimeDomainMetrics;
-    frequency_domain: FrequencyDomainMetrics;
-}
-
-interface FeatureAnalysisResponse {
-    study_number: number;
-    subject_id: number;
-    feature: string;
-    feature_title: string;
-    feature_unit: string;
-    emotions: EmotionFeatures[];
-    summary: {
-        n_emotions: number;
-        total_samples: number;
-        sampling_rate: number;
-    };
-}
-
-interface PowerSpectrumData {
-    emotion: string;
-    color: string;
-    data: Array<{ frequency: number; power: number }>;
-}
-
-interface PowerSpectrumResponse {
-    study_number: number;
-    subject_id: number;
-    feature: string;
-    spectra: PowerSpectrumData[];
-    frequency_bands: {
-        vlf: { min: number; max: number; label: string };
-        lf: { min: number; max: number; label: string };
-        hf: { min: number; max: number; label: string };
-    };
-}
-
-// FFT response interface matching the /viz/fft endpoint
-interface FFTEmotionData {
-    emotion: string;
-    color: string;
-    spectrum: Array<{ frequency: number; magnitude: number }>;
-    dominant_frequency: number;
-    signal_energy: number;
-    n_samples: number;
-}
-
-interface FFTResponse {
-    study_number: number;
-    subject_id: number;
-    feature: string;
-    feature_title: string;
-    sampling_interval: number;
-    max_frequency: number;
-    emotions: FFTEmotionData[];
-}
+import { EmotionGroupingSwitch } from '../common';
 
 interface FeatureAnalysisChartProps {
     studyNumber: number;
@@ -98,6 +22,33 @@ interface FeatureAnalysisChartProps {
     feature?: string;
     samplingRate?: number;
     height?: number;
+    grouping?: EmotionGrouping;
+    onGroupingChange?: (grouping: EmotionGrouping) => void;
+}
+
+// Sample-weighted mean of each metric over a group's stimuli; the listed counts are summed
+function mergeMetrics<T extends object>(metrics: T[], weights: number[], summed: Array<keyof T>): T {
+    const merged: Record<string, number | null> = {};
+    (Object.keys(metrics[0]) as Array<keyof T & string>).forEach(key => {
+        const values = metrics.map(m => m[key] as unknown as number | null);
+        merged[key] = summed.includes(key)
+            ? values.reduce<number>((sum, value) => sum + (value ?? 0), 0)
+            : meanOf(values.map(value => value ?? undefined), weights) ?? null;
+    });
+    return merged as unknown as T;
+}
+
+function groupEmotionFeatures(emotions: EmotionFeatures[], grouping: EmotionGrouping): EmotionFeatures[] {
+    if (grouping === 'stimulus') return emotions;
+    return groupByEmotion(emotions, e => e.emotion, grouping).map(group => {
+        const weights = group.items.map(e => e.time_domain.n_samples);
+        return {
+            emotion: group.label,
+            color: group.color,
+            time_domain: mergeMetrics(group.items.map(e => e.time_domain), weights, ['n_samples', 'duration_sec']),
+            frequency_domain: mergeMetrics(group.items.map(e => e.frequency_domain), weights, ['n_samples']),
+        };
+    });
 }
 
 export const FeatureAnalysisChart: React.FC<FeatureAnalysisChartProps> = ({
@@ -106,65 +57,49 @@ export const FeatureAnalysisChart: React.FC<FeatureAnalysisChartProps> = ({
     feature = 'EDA',
     samplingRate = 1000,
     height = 500,
+    grouping: groupingProp,
+    onGroupingChange,
 }) => {
     const { isDark } = useTheme();
-    const [data, setData] = useState<FeatureAnalysisResponse | null>(null);
-    const [loading, setLoading] = useState(true);
-    const [error, setError] = useState<string | null>(null);
     const [viewMode, setViewMode] = useState<'time' | 'frequency' | 'both'>('both');
+    const [localGrouping, setLocalGrouping] = useState<EmotionGrouping>(DEFAULT_EMOTION_GROUPING);
+    const grouping = groupingProp ?? localGrouping;
+    const setGrouping = onGroupingChange ?? setLocalGrouping;
 
-    useEffect(() => {
-        const fetchData = async () => {
-            setLoading(true);
-            setError(null);
-            const vizUrl = process.env.REACT_APP_VIZ_URL || 'http://localhost:8000/viz';
-            try {
-                const response = await fetch(
-                    `${vizUrl}/analysis/${studyNumber}/${subjectId}?feature=${feature}&sampling_rate=${samplingRate}`
-                );
-                if (!response.ok) {
-                    throw new Error(`HTTP error! status: ${response.status}`);
-                }
-                const result = await response.json();
-                setData(result);
-            } catch (err) {
-                setError(err instanceof Error ? err.message : 'Failed to fetch data');
-            } finally {
-                setLoading(false);
-            }
-        };
-
-        fetchData();
-    }, [studyNumber, subjectId, feature, samplingRate]);
+    const { data, loading, error } = usePopaneQuery(
+        ['analysis', studyNumber, subjectId, feature, samplingRate],
+        signal => popaneApi.getFeatureAnalysis(studyNumber, subjectId, feature, samplingRate, signal)
+    );
 
     if (loading) {
         return <div className="loading">Loading feature analysis...</div>;
     }
 
     if (error) {
-        return <div className="error">Error: {error}</div>;
+        return <div className="error">Error: {error.message}</div>;
     }
 
     if (!data || data.emotions.length === 0) {
         return <div className="no-data">No feature data available</div>;
     }
 
-    const emotions = data.emotions.map(e => e.emotion);
-    const colors = data.emotions.map(e => e.color);
+    const groups = groupEmotionFeatures(data.emotions, grouping);
+    const emotions = groups.map(e => e.emotion);
+    const colors = groups.map(e => e.color);
 
     const timeDomainTraces: Data[] = [
         {
             name: 'Mean',
             type: 'bar',
             x: emotions,
-            y: data.emotions.map(e => e.time_domain.mean),
+            y: groups.map(e => e.time_domain.mean),
             marker: { color: colors },
         },
         {
             name: 'Std Dev',
             type: 'bar',
             x: emotions,
-            y: data.emotions.map(e => e.time_domain.std),
+            y: groups.map(e => e.time_domain.std),
             marker: { color: colors.map(c => c + '99') },
         },
     ];
@@ -174,21 +109,21 @@ export const FeatureAnalysisChart: React.FC<FeatureAnalysisChartProps> = ({
             name: 'VLF Power',
             type: 'bar',
             x: emotions,
-            y: data.emotions.map(e => e.frequency_domain.vlf_power),
+            y: groups.map(e => e.frequency_domain.vlf_power),
             marker: { color: '#ff6b6b' },
         },
         {
             name: 'LF Power',
             type: 'bar',
             x: emotions,
-            y: data.emotions.map(e => e.frequency_domain.lf_power),
+            y: groups.map(e => e.frequency_domain.lf_power),
             marker: { color: '#4ecdc4' },
         },
         {
             name: 'HF Power',
             type: 'bar',
             x: emotions,
-            y: data.emotions.map(e => e.frequency_domain.hf_power),
+            y: groups.map(e => e.frequency_domain.hf_power),
             marker: { color: '#45b7d1' },
         },
     ];
@@ -198,7 +133,7 @@ export const FeatureAnalysisChart: React.FC<FeatureAnalysisChartProps> = ({
         type: 'scatter',
         mode: 'lines+markers',
         x: emotions,
-        y: data.emotions.map(e => e.frequency_domain.lf_hf_ratio),
+        y: groups.map(e => e.frequency_domain.lf_hf_ratio),
         marker: { color: '#f39c12', size: 10 },
         line: { color: '#f39c12', width: 2 },
         yaxis: 'y2',
@@ -212,7 +147,7 @@ export const FeatureAnalysisChart: React.FC<FeatureAnalysisChartProps> = ({
     const timeDomainLayout: Partial<Layout> = {
         title: { text: `Time-Domain Features: ${data.feature_title}`, font: { color: '#60a5fa' } },
         barmode: 'group',
-        xaxis: { title: { text: 'Emotion', font: { color: textColor } }, tickfont: { color: textColor }, gridcolor: gridColor },
+        xaxis: { title: { text: GROUPING_LABELS[grouping], font: { color: textColor } }, tickfont: { color: textColor }, gridcolor: gridColor },
         yaxis: { title: { text: `Value (${data.feature_unit})`, font: { color: textColor } }, tickfont: { color: textColor }, gridcolor: gridColor },
         height: height / 2,
         margin: { t: 50, b: 50, l: 60, r: 40 },
@@ -226,7 +161,7 @@ export const FeatureAnalysisChart: React.FC<FeatureAnalysisChartProps> = ({
     const freqDomainLayout: Partial<Layout> = {
         title: { text: 'Frequency-Domain Power by Band', font: { color: '#60a5fa' } },
         barmode: 'stack',
-        xaxis: { title: { text: 'Emotion', font: { color: textColor } }, tickfont: { color: textColor }, gridcolor: gridColor },
+        xaxis: { title: { text: GROUPING_LABELS[grouping], font: { color: textColor } }, tickfont: { color: textColor }, gridcolor: gridColor },
         yaxis: { title: { text: 'Power', font: { color: textColor } }, tickfont: { color: textColor }, gridcolor: gridColor },
         yaxis2: {
             title: { text: 'LF/HF Ratio', font: { color: textColor } },
@@ -268,6 +203,9 @@ export const FeatureAnalysisChart: React.FC<FeatureAnalysisChartProps> = ({
                 >
                     Both
                 </button>
+                <span style={{ marginLeft: '16px' }}>
+                    <EmotionGroupingSwitch value={grouping} onChange={setGrouping} />
+                </span>
             </div>
 
             {(viewMode === 'time' || viewMode === 'both') && (
@@ -293,7 +231,7 @@ export const FeatureAnalysisChart: React.FC<FeatureAnalysisChartProps> = ({
                 <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '12px', color: '#a0aec0' }}>
                     <thead>
                         <tr style={{ borderBottom: '2px solid rgba(255,255,255,0.15)' }}>
-                            <th style={{ textAlign: 'left', padding: '8px', color: '#a0aec0' }}>Emotion</th>
+                            <th style={{ textAlign: 'left', padding: '8px', color: '#a0aec0' }}>{GROUPING_LABELS[grouping]}</th>
                             <th style={{ textAlign: 'right', padding: '8px', color: '#a0aec0' }}>{feature} Mean ({data.feature_unit})</th>
                             <th style={{ textAlign: 'right', padding: '8px', color: '#a0aec0' }}>{feature} Std ({data.feature_unit})</th>
                             <th style={{ textAlign: 'right', padding: '8px', color: '#a0aec0' }}>LF Power</th>
@@ -303,7 +241,7 @@ export const FeatureAnalysisChart: React.FC<FeatureAnalysisChartProps> = ({
                         </tr>
                     </thead>
                     <tbody>
-                        {data.emotions.map((e, i) => (
+                        {groups.map((e, i) => (
                             <tr key={e.emotion} style={{
                                 borderBottom: '1px solid rgba(255,255,255,0.1)',
                                 backgroundColor: i % 2 === 0 ? '#2a2a2a' : '#1e1e1e'
@@ -364,40 +302,17 @@ export const PowerSpectrumChart: React.FC<PowerSpectrumChartProps> = ({
     height = 400,
 }) => {
     const { isDark } = useTheme();
-    const [data, setData] = useState<PowerSpectrumResponse | null>(null);
-    const [loading, setLoading] = useState(true);
-    const [error, setError] = useState<string | null>(null);
-
-    useEffect(() => {
-        const fetchData = async () => {
-            setLoading(true);
-            setError(null);
-            const vizUrl = process.env.REACT_APP_VIZ_URL || 'http://localhost:8000/viz';
-            try {
-                const response = await fetch(
-                    `${vizUrl}/spectrum/${studyNumber}/${subjectId}?feature=${feature}&sampling_rate=${samplingRate}&max_freq=${maxFreq}`
-                );
-                if (!response.ok) {
-                    throw new Error(`HTTP error! status: ${response.status}`);
-                }
-                const result = await response.json();
-                setData(result);
-            } catch (err) {
-                setError(err instanceof Error ? err.message : 'Failed to fetch data');
-            } finally {
-                setLoading(false);
-            }
-        };
-
-        fetchData();
-    }, [studyNumber, subjectId, feature, samplingRate, maxFreq]);
+    const { data, loading, error } = usePopaneQuery(
+        ['spectrum', studyNumber, subjectId, feature, samplingRate, maxFreq],
+        signal => popaneApi.getPowerSpectrum(studyNumber, subjectId, feature, samplingRate, maxFreq, signal)
+    );
 
     if (loading) {
         return <div className="loading">Loading power spectrum...</div>;
     }
 
     if (error) {
-        return <div className="error">Error: {error}</div>;
+        return <div className="error">Error: {error.message}</div>;
     }
 
     if (!data || data.spectra.length === 0) {
@@ -530,6 +445,8 @@ interface FFTChartProps {
     subjectId: number;
     availableColumns?: string[];
     feature?: string;
+    // Makes `feature` controlled (e.g. from the URL); the chart keeps its own selection when omitted
+    onFeatureChange?: (feature: string) => void;
     maxFreq?: number;
     height?: number;
     onGeneratePCA?: (feature: string, studyNumber: number) => void;
@@ -540,15 +457,12 @@ export const FFTChart: React.FC<FFTChartProps> = ({
     subjectId,
     availableColumns = [],
     feature = 'ECG',
+    onFeatureChange,
     maxFreq = 2.0,
     height = 400,
     onGeneratePCA,
 }) => {
     const { isDark } = useTheme();
-    const [data, setData] = useState<FFTResponse | null>(null);
-    const [loading, setLoading] = useState(true);
-    const [error, setError] = useState<string | null>(null);
-
     // Filter to only FFT-supported features that are available in this study
     const availableFFTFeatures = availableColumns.filter(col =>
         FFT_SUPPORTED_FEATURES.includes(col)
@@ -558,38 +472,21 @@ export const FFTChart: React.FC<FFTChartProps> = ({
         ? feature
         : availableFFTFeatures[0] || 'ECG';
 
-    const [selectedFeature, setSelectedFeature] = useState(defaultFeature);
+    const [localFeature, setLocalFeature] = useState(defaultFeature);
+    const selectedFeature = onFeatureChange ? defaultFeature : localFeature;
+    const setSelectedFeature = onFeatureChange ?? setLocalFeature;
 
     // Reset selection when available features change (study switch)
     useEffect(() => {
-        if (availableFFTFeatures.length > 0 && !availableFFTFeatures.includes(selectedFeature)) {
-            setSelectedFeature(availableFFTFeatures[0]);
+        if (availableFFTFeatures.length > 0 && !availableFFTFeatures.includes(localFeature)) {
+            setLocalFeature(availableFFTFeatures[0]);
         }
-    }, [availableColumns, availableFFTFeatures, selectedFeature]);
+    }, [availableColumns, availableFFTFeatures, localFeature]);
 
-    useEffect(() => {
-        const fetchData = async () => {
-            setLoading(true);
-            setError(null);
-            const vizUrl = process.env.REACT_APP_VIZ_URL || 'http://localhost:8000/viz';
-            try {
-                const response = await fetch(
-                    `${vizUrl}/fft/${studyNumber}/${subjectId}?feature=${selectedFeature}&max_freq=${maxFreq}`
-                );
-                if (!response.ok) {
-                    throw new Error(`HTTP error! status: ${response.status}`);
-                }
-                const result = await response.json();
-                setData(result);
-            } catch (err) {
-                setError(err instanceof Error ? err.message : 'Failed to fetch FFT data');
-            } finally {
-                setLoading(false);
-            }
-        };
-
-        fetchData();
-    }, [studyNumber, subjectId, selectedFeature, maxFreq]);
+    const { data, loading, error } = usePopaneQuery(
+        ['fft', studyNumber, subjectId, selectedFeature, maxFreq],
+        signal => popaneApi.getFFT(studyNumber, subjectId, selectedFeature, maxFreq, signal)
+    );
 
     const textColor = isDark ? '#a0aec0' : '#374151';
     const gridColor = isDark ? 'rgba(255,255,255,0.1)' : 'rgba(0,0,0,0.1)';
@@ -601,7 +498,7 @@ export const FFTChart: React.FC<FFTChartProps> = ({
     }
 
     if (error) {
-        return <div className="error">Error: {error}</div>;
+        return <div className="error">Error: {error.message}</div>;
     }
 
     if (!data || !data.emotions || data.emotions.length === 0) {
@@ -755,56 +652,9 @@ export const FFTChart: React.FC<FFTChartProps> = ({
     );
 };
 
-// Response interface for /pca/frequency endpoint
-interface FrequencyPCAResponse {
-    study_number: number;
-    features_used: string[];
-    n_subjects: number;
-    n_emotions: number;
-    n_points: number;
-    variance_explained: [number, number];
-    // Backend returns data_points with PCA coordinates
-    data_points: Array<{
-        subject_id: number;
-        emotion: string;
-        color: string;
-        pc1: number;
-        pc2: number;
-    }>;
-}
-
-// Response from /features/matrix endpoint - raw feature values for table display
-interface FeatureMatrixResponse {
-    study_number: number;
-    columns: string[];  // List of feature column names (includes 'Subject', 'Emotion')
-    signals_used: string[];
-    n_subjects: number;
-    n_emotions: number;
-    n_features: number;
-    rows: Array<{
-        Subject: number;
-        Emotion: string;
-        _color: string;
-        [key: string]: number | string;
-    }>;
-}
-
-const featureMatrixCache = new Map<string, {
-    data: SubjectEmotionFeatureRow[];
-    columns: string[];
-    timestamp: number;
-}>();
-
-const pcaCache = new Map<string, {
-    result: FrequencyPCAResponse;
-    timestamp: number;
-}>();
-
-const CACHE_DURATION_MS = 5 * 60 * 1000;
-
-const getCacheKey = (studyNumber: number, features: string[], subjectIds: number[]) => {
-    return `${studyNumber}:${features.sort().join(',')}:${subjectIds.sort((a, b) => a - b).join(',')}`;
-};
+// Feature matrix is fetched one subject at a time so rows can render progressively
+const featureMatrixKey = (studyNumber: number, features: string[], subjectId: number) =>
+    ['features/matrix', studyNumber, features, [subjectId]];
 
 // Comprehensive Feature Table - shows all signals' frequency features + time-domain features
 // One row per (subject, emotion) combination for PCA analysis
@@ -814,6 +664,8 @@ interface ComprehensiveFeatureTableProps {
     subjectIds: number[];  // All subjects to include
     availableColumns: string[];
     onGeneratePCA?: (features: string[], data: SubjectEmotionFeatureRow[], variance?: [number, number]) => void;
+    grouping?: EmotionGrouping;
+    onGroupingChange?: (grouping: EmotionGrouping) => void;
 }
 
 interface SubjectEmotionFeatureRow {
@@ -830,14 +682,20 @@ export const ComprehensiveFeatureTable: React.FC<ComprehensiveFeatureTableProps>
     subjectIds,
     availableColumns,
     onGeneratePCA,
+    grouping: groupingProp,
+    onGroupingChange,
 }) => {
     const { isDark } = useTheme();
+    const [localGrouping, setLocalGrouping] = useState<EmotionGrouping>(DEFAULT_EMOTION_GROUPING);
+    const grouping = groupingProp ?? localGrouping;
+    const setGrouping = onGroupingChange ?? setLocalGrouping;
     const [data, setData] = useState<SubjectEmotionFeatureRow[]>([]);
     const [loading, setLoading] = useState(true);
     const [loadingPCA, setLoadingPCA] = useState(false);
     const [error, setError] = useState<string | null>(null);
     const [featureColumns, setFeatureColumns] = useState<string[]>([]);
     const [loadingProgress, setLoadingProgress] = useState({ current: 0, total: 0, currentBatch: 0, totalBatches: 0 });
+    const [reloadToken, setReloadToken] = useState(0);
 
     // Filter to only FFT-supported features
     const fftFeatures = availableColumns.filter(col =>
@@ -847,6 +705,7 @@ export const ComprehensiveFeatureTable: React.FC<ComprehensiveFeatureTableProps>
     // Fetch raw feature matrix for table display - parallel with concurrency limit of 5
     useEffect(() => {
         const CONCURRENCY_LIMIT = 5;
+        const controller = new AbortController();
 
         const fetchFeatureMatrix = async () => {
             if (subjectIds.length === 0 || fftFeatures.length === 0) {
@@ -855,23 +714,10 @@ export const ComprehensiveFeatureTable: React.FC<ComprehensiveFeatureTableProps>
                 return;
             }
 
-            // Check client-side cache first
-            const cacheKey = getCacheKey(studyNumber, fftFeatures, subjectIds);
-            const cached = featureMatrixCache.get(cacheKey);
-            if (cached && (Date.now() - cached.timestamp) < CACHE_DURATION_MS) {
-                setData(cached.data);
-                setFeatureColumns(cached.columns);
-                setLoading(false);
-                return;
-            }
-
             setLoading(true);
             setError(null);
             setData([]); // Clear existing data
 
-            const vizUrl = process.env.REACT_APP_VIZ_URL || 'http://localhost:8000/viz';
-            const featuresParam = fftFeatures.join(',');
-
             setLoadingProgress({ current: 0, total: subjectIds.length, currentBatch: 0, totalBatches: subjectIds.length });
 
             const allRows: SubjectEmotionFeatureRow[] = [];
@@ -880,22 +726,14 @@ export const ComprehensiveFeatureTable: React.FC<ComprehensiveFeatureTableProps>
 
             // Fetch single subject data
             const fetchSubject = async (subjectId: number): Promise<SubjectEmotionFeatureRow[]> => {
-                const response = await fetch(
-                    `${vizUrl}/features/matrix/${studyNumber}?features=${featuresParam}&subject_ids=${subjectId}`
+                const result = await queryCache.fetch(
+                    featureMatrixKey(studyNumber, fftFeatures, subjectId),
+                    signal => popaneApi.getFeatureMatrix(studyNumber, fftFeatures, [subjectId], signal),
+                    { signal: controller.signal }
                 );
 
-                if (!response.ok) {
-                    throw new Error(`HTTP error! status: ${response.status}`);
-                }
-
-                const result: FeatureMatrixResponse = await response.json();
-
-                if (!result.rows || !Array.isArray(result.rows)) {
-                    return [];
-                }
-
                 // Get feature columns from first response
-                if (featureCols.length === 0 && result.columns) {
+                if (featureCols.length === 0) {
                     featureCols = result.columns.filter(col =>
                         col !== 'Subject' && col !== 'Emotion' && col !== '_color'
                     );
@@ -925,7 +763,7 @@ export const ComprehensiveFeatureTable: React.FC<ComprehensiveFeatureTableProps>
                 const inFlight: Promise<void>[] = [];
 
                 const processNext = async (): Promise<void> => {
-                    if (queue.length === 0) return;
+                    if (queue.length === 0 || controller.signal.aborted) return;
 
                     const subjectId = queue.shift()!;
                     try {
@@ -941,7 +779,9 @@ export const ComprehensiveFeatureTable: React.FC<ComprehensiveFeatureTableProps>
                         }));
                         setData([...allRows]);
                     } catch (err) {
-                        console.error(`Failed to fetch subject ${subjectId}:`, err);
+                        if (!controller.signal.aborted) {
+                            console.error(`Failed to fetch subject ${subjectId}:`, err);
+                        }
                     }
 
                     // Process next item in queue
@@ -955,22 +795,27 @@ export const ComprehensiveFeatureTable: React.FC<ComprehensiveFeatureTableProps>
 
                 // Wait for all to complete
                 await Promise.all(inFlight);
-
-                // Cache the results
-                featureMatrixCache.set(cacheKey, {
-                    data: allRows,
-                    columns: featureCols,
-                    timestamp: Date.now()
-                });
-
             } catch (err) {
+                if (isAbortError(err)) return;
                 setError(err instanceof Error ? err.message : 'Failed to fetch feature matrix data');
             } finally {
-                setLoading(false);
+                if (!controller.signal.aborted) setLoading(false);
             }
         };
 
         fetchFeatureMatrix();
+        return () => controller.abort();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [studyNumber, subjectIds.join(','), availableColumns.join(','), reloadToken]);
+
+    // Reload when any subject's feature matrix is invalidated (e.g. "Refresh Data")
+    useEffect(() => {
+        return queryCache.subscribe(invalidated => {
+            const affected = subjectIds.some(id =>
+                invalidated.has(hashQueryKey(featureMatrixKey(studyNumber, fftFeatures, id)))
+            );
+            if (affected) setReloadToken(t => t + 1);
+        });
     // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [studyNumber, subjectIds.join(','), availableColumns.join(',')]);
 
@@ -1050,7 +895,19 @@ export const ComprehensiveFeatureTable: React.FC<ComprehensiveFeatureTableProps>
 
     // Get unique subjects and emotions for summary
     const uniqueSubjects = Array.from(new Set(data.map(d => d.subjectId)));
-    const uniqueEmotions = Array.from(new Set(data.map(d => d.emotion)));
+
+    // Grouped rows hold each subject's mean over the stimuli of the group; PCA still uses every stimulus
+    const rows: SubjectEmotionFeatureRow[] = grouping === 'stimulus' ? data : uniqueSubjects.flatMap(subjectId =>
+        groupByEmotion(data.filter(d => d.subjectId === subjectId), d => d.emotion, grouping).map(group => {
+            const features: Record<string, number> = {};
+            featureColumns.forEach(col => {
+                const mean = meanOf(group.items.map(d => d.features[col]));
+                if (mean !== undefined) features[col] = mean;
+            });
+            return { subjectId, emotion: group.label, color: group.color, features };
+        })
+    );
+    const uniqueEmotions = Array.from(new Set(rows.map(d => d.emotion)));
 
     return (
         <div className="comprehensive-feature-table" style={{
@@ -1067,9 +924,12 @@ export const ComprehensiveFeatureTable: React.FC<ComprehensiveFeatureTableProps>
             <h4 style={{ color: textColor, marginBottom: '12px' }}>
                 Comprehensive Feature Summary — Study {studyNumber}
             </h4>
-            <p style={{ color: textColor, opacity: 0.7, fontSize: '12px', marginBottom: '12px' }}>
-                {data.length} rows ({uniqueSubjects.length} subjects × {uniqueEmotions.length} emotions) • {featureColumns.length} features across {fftFeatures.length} signals
-            </p>
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', flexWrap: 'wrap', gap: '10px', marginBottom: '12px' }}>
+                <p style={{ color: textColor, opacity: 0.7, fontSize: '12px', margin: 0 }}>
+                    {rows.length} rows ({uniqueSubjects.length} subjects × {uniqueEmotions.length} {GROUPING_NOUNS[grouping][uniqueEmotions.length === 1 ? 0 : 1]}) • {featureColumns.length} features across {fftFeatures.length} signals
+                </p>
+                <EmotionGroupingSwitch value={grouping} onChange={setGrouping} />
+            </div>
 
             <div style={{ overflowX: 'auto', maxHeight: '500px', overflowY: 'auto' }}>
                 <table style={{
@@ -1099,7 +959,7 @@ export const ComprehensiveFeatureTable: React.FC<ComprehensiveFeatureTableProps>
                                 background: isDark ? '#1e1e1e' : '#ffffff',
                                 zIndex: 3
                             }}>
-                                Emotion
+                                {GROUPING_LABELS[grouping]}
                             </th>
                             {featureColumns.map(col => (
                                 <th key={col} style={{
@@ -1114,7 +974,7 @@ export const ComprehensiveFeatureTable: React.FC<ComprehensiveFeatureTableProps>
                         </tr>
                     </thead>
                     <tbody>
-                        {data.map((row, i) => (
+                        {rows.map((row, i) => (
                             <tr
                                 key={`${row.subjectId}-${row.emotion}`}
                                 style={{
@@ -1176,40 +1036,11 @@ export const ComprehensiveFeatureTable: React.FC<ComprehensiveFeatureTableProps>
                         onClick={async () => {
                             setLoadingPCA(true);
                             setError(null);
-                            const vizUrl = process.env.REACT_APP_VIZ_URL || 'http://localhost:8000/viz';
-
                             try {
-                                // Check PCA cache first
-                                const pcaCacheKey = getCacheKey(studyNumber, fftFeatures, subjectIds);
-                                const cachedPCA = pcaCache.get(pcaCacheKey);
-
-                                let pcaResult: FrequencyPCAResponse;
-
-                                if (cachedPCA && (Date.now() - cachedPCA.timestamp) < CACHE_DURATION_MS) {
-                                    pcaResult = cachedPCA.result;
-                                } else {
-                                    const featuresParam = fftFeatures.join(',');
-                                    const subjectsParam = subjectIds.join(',');
-
-                                    const response = await fetch(
-                                        `${vizUrl}/pca/frequency/${studyNumber}?features=${featuresParam}&subject_ids=${subjectsParam}`
-                                    );
-
-                                    if (!response.ok) {
-                                        throw new Error(`HTTP error! status: ${response.status}`);
-                                    }
-
-                                    pcaResult = await response.json();
-
-                                    pcaCache.set(pcaCacheKey, {
-                                        result: pcaResult,
-                                        timestamp: Date.now()
-                                    });
-                                }
-
-                                if (!pcaResult.data_points || !Array.isArray(pcaResult.data_points)) {
-                                    throw new Error('Invalid PCA response: data_points not found');
-                                }
+                                const pcaResult: FrequencyPCAResponse = await queryCache.fetch(
+                                    ['pca/frequency', studyNumber, fftFeatures, subjectIds],
+                                    signal => popaneApi.getFrequencyPCA(studyNumber, fftFeatures, subjectIds, signal)
+                                );
 
                                 const dataWithPCA: SubjectEmotionFeatureRow[] = pcaResult.data_points.map(item => {
                                     // Find matching row to get feature values
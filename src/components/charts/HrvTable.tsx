@@ -0,0 +1,72 @@
+import React, { memo } from 'react';
+import { HrvMetrics } from '../../services/rPeaks';
+import './HrvTable.css';
+
+export interface HrvRow {
+    key: string;
+    label: string;
+    color?: string;
+    metrics: HrvMetrics;
+}
+
+interface HrvTableProps {
+    rows: HrvRow[];
+    // Peaks the user added and removed since detection
+    added: number;
+    removed: number;
+    onReset: () => void;
+}
+
+function format(value: number | null, digits: number): string {
+    return value === null ? '–' : value.toFixed(digits);
+}
+
+/**
+ * HrvTable - Time-domain HRV recomputed from the detected (and corrected) R peaks
+ */
+const HrvTable = memo(function HrvTable({ rows, added, removed, onReset }: HrvTableProps): React.JSX.Element {
+    const edited = added > 0 || removed > 0;
+
+    return (
+        <div className="hrv-table-container">
+            <div className="hrv-header">
+                <span>
+                    HRV from detected beats
+                    {edited && <span className="hrv-edits"> — corrected: {added} added, {removed} removed</span>}
+                </span>
+                {edited && <button onClick={onReset}>Reset to detection</button>}
+            </div>
+            <table className="hrv-table">
+                <thead>
+                    <tr>
+                        <th></th>
+                        <th>Beats</th>
+                        <th>Mean HR (bpm)</th>
+                        <th>Mean RR (ms)</th>
+                        <th>SDNN (ms)</th>
+                        <th>RMSSD (ms)</th>
+                        <th>pNN50 (%)</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {rows.map(({ key, label, color, metrics }) => (
+                        <tr key={key}>
+                            <td>
+                                {color && <span className="hrv-swatch" style={{ backgroundColor: color }} />}
+                                {label}
+                            </td>
+                            <td>{metrics.beats}</td>
+                            <td>{format(metrics.meanHr, 1)}</td>
+                            <td>{format(metrics.meanRr, 0)}</td>
+                            <td>{format(metrics.sdnn, 1)}</td>
+                            <td>{format(metrics.rmssd, 1)}</td>
+                            <td>{format(metrics.pnn50, 1)}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    );
+});
+
+export default HrvTable;
@@ -1,8 +1,11 @@
-import React, { useState, useEffect, useMemo, useCallback, memo } from 'react';
+import React, { useState, useMemo, useCallback, memo } from 'react';
 import Plot from 'react-plotly.js';
-import { PCAResponse, EmotionColorMap, STUDY_COLUMNS } from '../../types/popane';
+import { EmotionColorMap, STUDY_COLUMNS } from '../../types/popane';
 import { popaneApi } from '../../services/popaneApi';
+import { usePopaneQuery } from '../../hooks/usePopaneQuery';
+import { EmotionGrouping, DEFAULT_EMOTION_GROUPING, GROUPING_LABELS, groupByEmotion } from '../../services/emotionTaxonomy';
 import { Button, LoadingSpinner, Card } from '../ui';
+import { ApiErrorNotice, EmotionGroupingSwitch } from '../common';
 import { useTheme } from '../../context/ThemeContext';
 import './PCAChart.css';
 
@@ -10,6 +13,12 @@ interface PCAChartProps {
     studyNumber: number;
     subjectIds?: number[];
     initialFeatures?: string[];
+    availableColumns?: string[];
+    // Controlled sample size (e.g. from the URL); the chart keeps its own state when omitted
+    sampleSize?: number;
+    onSampleSizeChange?: (sampleSize: number) => void;
+    grouping?: EmotionGrouping;
+    onGroupingChange?: (grouping: EmotionGrouping) => void;
 }
 
 const PCALegend = memo(function PCALegend({
@@ -36,16 +45,23 @@ const PCAChart = memo(function PCAChart({
     studyNumber,
     subjectIds,
     initialFeatures = ['ECG', 'EDA', 'SBP', 'DBP'],
+    availableColumns,
+    sampleSize: sampleSizeProp,
+    onSampleSizeChange,
+    grouping: groupingProp,
+    onGroupingChange,
 }: PCAChartProps): React.JSX.Element {
     const { isDark } = useTheme();
-    const [data, setData] = useState<PCAResponse | null>(null);
-    const [loading, setLoading] = useState(false);
-    const [error, setError] = useState<string | null>(null);
-    const [sampleSize, setSampleSize] = useState(1000);
+    const [localSampleSize, setLocalSampleSize] = useState(1000);
+    const sampleSize = sampleSizeProp ?? localSampleSize;
+    const setSampleSize = onSampleSizeChange ?? setLocalSampleSize;
+    const [localGrouping, setLocalGrouping] = useState<EmotionGrouping>(DEFAULT_EMOTION_GROUPING);
+    const grouping = groupingProp ?? localGrouping;
+    const setGrouping = onGroupingChange ?? setLocalGrouping;
 
     // Filter features to only include those available in the current study
     const validFeatures = useMemo(() => {
-        const studyColumns = STUDY_COLUMNS[studyNumber] || [];
+        const studyColumns = availableColumns ?? STUDY_COLUMNS[studyNumber] ?? [];
         const filtered = initialFeatures.filter(f => studyColumns.includes(f));
 
         // PCA requires at least 2 features - add more available features if needed
@@ -56,63 +72,43 @@ const PCAChart = memo(function PCAChart({
         }
 
         return filtered;
-    }, [studyNumber, initialFeatures]);
+    }, [studyNumber, initialFeatures, availableColumns]);
 
-    const fetchData = useCallback(async () => {
-        if (!studyNumber || validFeatures.length < 2) {
-            setError(validFeatures.length < 2 ? 'PCA requires at least 2 physiological features' : null);
-            return;
-        }
-
-        setLoading(true);
-        setError(null);
-
-        try {
-            const response = await popaneApi.getPCAAnalysis(
-                studyNumber,
-                subjectIds,
-                validFeatures,
-                sampleSize
-            );
-            setData(response);
-        } catch (err) {
-            setError(err instanceof Error ? err.message : 'Failed to load PCA data');
-        } finally {
-            setLoading(false);
-        }
-    }, [studyNumber, subjectIds, validFeatures, sampleSize]);
+    const featureError = useMemo(() => (
+        validFeatures.length < 2 ? new Error('PCA requires at least 2 physiological features') : null
+    ), [validFeatures]);
 
-    useEffect(() => {
-        fetchData();
-    }, [fetchData]);
+    const { data, loading, error: queryError, refetch } = usePopaneQuery(
+        studyNumber && !featureError
+            ? ['pca', studyNumber, subjectIds ?? [], validFeatures, sampleSize]
+            : null,
+        signal => popaneApi.getPCAAnalysis(studyNumber, subjectIds, validFeatures, sampleSize, signal)
+    );
+    const error = featureError || queryError;
 
     const traces = useMemo(() => {
         if (!data) return [];
 
-        const emotionGroups: Record<string, { pc1: number[]; pc2: number[]; color: string }> = {};
-
-        data.data_points.forEach(point => {
-            if (!emotionGroups[point.emotion]) {
-                emotionGroups[point.emotion] = { pc1: [], pc2: [], color: point.color };
-            }
-            emotionGroups[point.emotion].pc1.push(point.pc1);
-            emotionGroups[point.emotion].pc2.push(point.pc2);
-        });
-
-        return Object.entries(emotionGroups).map(([emotion, group]) => ({
-            x: group.pc1,
-            y: group.pc2,
+        return groupByEmotion(data.data_points, point => point.emotion, grouping).map(group => ({
+            x: group.items.map(point => point.pc1),
+            y: group.items.map(point => point.pc2),
             type: 'scatter' as const,
             mode: 'markers' as const,
-            name: emotion,
+            name: group.label,
             marker: {
                 color: group.color,
                 size: 4,
                 opacity: 0.7,
             },
-            hovertemplate: `Emotion: ${emotion}<br>PC1: %{x:.3f}<br>PC2: %{y:.3f}<extra></extra>`,
+            hovertemplate: `${GROUPING_LABELS[grouping]}: ${group.label}<br>PC1: %{x:.3f}<br>PC2: %{y:.3f}<extra></extra>`,
         }));
-    }, [data]);
+    }, [data, grouping]);
+
+    const legend = useMemo((): EmotionColorMap[] => (
+        data
+            ? groupByEmotion(data.emotions, em => em.emotion, grouping).map(group => ({ emotion: group.label, color: group.color }))
+            : []
+    ), [data, grouping]);
 
     const layout = useMemo((): Partial<Plotly.Layout> => {
         const variance = data?.explained_variance || [0, 0];
@@ -155,7 +151,7 @@ const PCAChart = memo(function PCAChart({
 
     const handleSampleSizeChange = useCallback((e: React.ChangeEvent<HTMLSelectElement>) => {
         setSampleSize(parseInt(e.target.value));
-    }, []);
+    }, [setSampleSize]);
 
     if (loading && !data) {
         return (
@@ -168,10 +164,11 @@ const PCAChart = memo(function PCAChart({
     if (error) {
         return (
             <Card className="pca-chart error">
-                <div className="error-message">
-                    <p>Error: {error}</p>
-                    <Button onClick={fetchData}>Retry</Button>
-                </div>
+                <ApiErrorNotice
+                    error={error}
+                    title="Failed to compute PCA"
+                    onRetry={refetch}
+                />
             </Card>
         );
     }
@@ -197,7 +194,7 @@ const PCAChart = memo(function PCAChart({
                         Features: {data.features_used.join(', ')}
                     </span>
                 </div>
-                <PCALegend emotions={data.emotions} />
+                <PCALegend emotions={legend} />
             </div>
 
             <div className="chart-controls">
@@ -214,12 +211,13 @@ const PCAChart = memo(function PCAChart({
                     <Button
                         variant="primary"
                         size="small"
-                        onClick={fetchData}
+                        onClick={refetch}
                         disabled={loading}
                     >
                         {loading ? 'Computing...' : 'Refresh'}
                     </Button>
                 </div>
+                <EmotionGroupingSwitch value={grouping} onChange={setGrouping} />
             </div>
 
             <div className="pca-plot">
@@ -1,15 +1,35 @@
 import React, { useState, useMemo, useCallback, memo, useEffect } from 'react';
 import Plot from 'react-plotly.js';
-import { StudyData, COLUMN_DESCRIPTIONS, MARKER_TO_EMOTION } from '../../types/popane';
-import { Button, LoadingSpinner } from '../ui';
+import { COLUMN_DESCRIPTIONS, MARKER_TO_EMOTION } from '../../types/popane';
+import { StudyFrame } from '../../services/studyFrame';
+import { Button, LoadingSpinner, ComputeProgress } from '../ui';
 import { useTheme } from '../../context/ThemeContext';
+import { usePlotResolution } from '../../hooks/usePlotResolution';
+import { useLinkedAxes, crosshairLayout, LinkedAxes } from '../../hooks/useLinkedAxes';
+import { useCompute } from '../../hooks/useCompute';
+import { DownsampleTask, GroupedSeries, GroupSeriesTask, Normalization } from '../../services/computeProtocol';
+import { isAscending, valueAt } from '../../services/downsample';
+import { StimulusEvent, StimulusOnset, eventsFromFrame, onsetLayout } from '../../services/stimulusEvents';
+import { ReactivityMode, DEFAULT_BASELINE_SECONDS, relativeToBaseline } from '../../services/reactivity';
+import {
+    ChannelFilters,
+    estimateSampleRate,
+    isUnfilteredName,
+    unfilteredName,
+} from '../../services/signalFilters';
+import { BaselineControls, FilterControls } from '../common';
+import StimulusTimeline, { TimelineRow } from './StimulusTimeline';
 import './PhysiologyChart.css';
 
 interface PhysiologyChartProps {
-    data: StudyData[];
+    data: StudyFrame;
     columns: string[];
     title?: string;
     loading?: boolean;
+    selectedColumns?: string[];
+    onSelectedColumnsChange?: (columns: string[]) => void;
+    baselineSeconds?: number;
+    onBaselineSecondsChange?: (seconds: number) => void;
 }
 
 type ChartType = 'line' | 'scatter' | 'bar';
@@ -19,6 +39,26 @@ const SUBJECT_COLORS = [
     '#ec4899', '#06b6d4', '#84cc16', '#f97316', '#6366f1'
 ];
 
+const NO_ONSETS: StimulusOnset[] = [];
+
+const NORMALIZATION_LABELS: Record<Normalization, string> = {
+    offset: 'Offset from first sample',
+    zscore: 'Z-score',
+    none: 'None',
+};
+
+const NORMALIZATION_SUFFIX: Record<Normalization, string> = {
+    offset: ' (offset)',
+    zscore: ' (z)',
+    none: '',
+};
+
+const REACTIVITY_SUFFIX: Record<ReactivityMode, string> = {
+    difference: ' (Δ baseline)',
+    percent: ' (% baseline)',
+    zscore: ' (z baseline)',
+};
+
 const ChartTypeButton = memo(function ChartTypeButton({
     type,
     isActive,
@@ -73,67 +113,93 @@ const ColumnCheckbox = memo(function ColumnCheckbox({
 
 const EmotionPanel = memo(function EmotionPanel({
     emotion,
-    emotionData,
-    selectedColumns,
+    series,
+    columns,
+    valueSuffix,
     chartType,
     xAxis,
     subjects,
     showXAxis,
     panelIndex,
+    onsets,
+    link,
     isDark,
 }: {
     emotion: string;
-    emotionData: StudyData[];
-    selectedColumns: string[];
+    series: GroupedSeries[];
+    columns: string[];
+    valueSuffix: string;
     chartType: ChartType;
     xAxis: string;
     subjects: number[];
     showXAxis: boolean;
     panelIndex: number;
+    onsets: StimulusOnset[];
+    link: LinkedAxes;
     isDark: boolean;
 }) {
+    const { containerRef, maxPoints, xRange, revision, handleRelayout } = usePlotResolution(series, link);
+
+    // Traces overlay each other here, so each gets the full budget for the visible range
+    const createDownsample = useCallback((): DownsampleTask => ({
+        kind: 'downsample',
+        series,
+        maxPoints,
+        range: xRange,
+    }), [series, maxPoints, xRange]);
+    const sampling = useCompute(createDownsample);
+
     const traces = useMemo(() => {
-        const result: Partial<Plotly.PlotData>[] = [];
-
-        subjects.forEach((subjectId, subjectIdx) => {
-            const subjectData = emotionData.filter(row => row.Subject_ID === subjectId);
-            if (subjectData.length === 0) return;
-
-            const subjectColor = SUBJECT_COLORS[subjectIdx % SUBJECT_COLORS.length];
-
-            const subjectXValues = subjectData.map(row => (row as unknown as Record<string, unknown>)[xAxis] as number).filter(v => v != null);
-            const minX = subjectXValues.length > 0 ? Math.min(...subjectXValues) : 0;
-
-            selectedColumns.forEach((col, colIdx) => {
-                const xData = subjectData.map(row => {
-                    const rawX = (row as unknown as Record<string, unknown>)[xAxis] as number;
-                    return rawX - minX;
-                });
-
-                const rawYData = subjectData.map(row => (row as unknown as Record<string, unknown>)[col] as number);
-                const firstY = rawYData.length > 0 ? rawYData[0] : 0;
-                const yData = rawYData.map(y => y - firstY);
-
-                result.push({
-                    x: xData,
-                    y: yData,
-                    name: subjects.length > 1 ? `Subject ${subjectId} - ${col}` : col,
-                    legendgroup: `subject-${subjectId}`,
-                    showlegend: panelIndex === 0,
-                    type: chartType === 'bar' ? 'bar' : 'scatter',
-                    mode: chartType === 'line' ? 'lines' : chartType === 'scatter' ? 'markers' : undefined,
-                    marker: { color: subjectColor },
-                    line: {
-                        width: 1.5,
-                        dash: colIdx === 0 ? 'solid' : colIdx === 1 ? 'dash' : 'dot'
-                    },
-                    hovertemplate: `Subject ${subjectId}<br>${col} (offset): %{y:.4f}<br>Time: %{x:.4f}s<extra></extra>`
-                });
-            });
+        // Unfiltered copies share their channel's style, faint and beneath the filtered traces
+        const series = sampling.result?.series ?? [];
+        const ordered = [
+            ...series.filter(s => isUnfilteredName(s.column)),
+            ...series.filter(s => !isUnfilteredName(s.column)),
+        ];
+        return ordered.map(({ member: subjectId, column: col, x, y, stats }): Partial<Plotly.PlotData> => {
+            const subjectColor = SUBJECT_COLORS[Math.max(subjects.indexOf(subjectId), 0) % SUBJECT_COLORS.length];
+            const unfiltered = isUnfilteredName(col);
+            const colIdx = columns.findIndex(column => column === col || unfilteredName(column) === col);
+            return {
+                x,
+                y,
+                name: subjects.length > 1 ? `Subject ${subjectId} - ${col}` : col,
+                legendgroup: `subject-${subjectId}`,
+                showlegend: panelIndex === 0,
+                type: chartType === 'bar' ? 'bar' : 'scatter',
+                mode: chartType === 'line' ? 'lines' : chartType === 'scatter' ? 'markers' : undefined,
+                opacity: unfiltered ? 0.35 : 1,
+                marker: { color: subjectColor },
+                line: {
+                    width: unfiltered ? 1 : 1.5,
+                    dash: colIdx === 0 ? 'solid' : colIdx === 1 ? 'dash' : 'dot'
+                },
+                hovertemplate: `Subject ${subjectId}<br>${col}${valueSuffix}: %{y:.4f}<br>Time: %{x:.4f}s`
+                    + `<br>Mean: ${stats.mean.toFixed(4)} ± ${stats.std.toFixed(4)}<extra></extra>`
+            };
         });
-
-        return result;
-    }, [emotionData, selectedColumns, chartType, xAxis, subjects, panelIndex]);
+    }, [sampling.result, columns, valueSuffix, chartType, subjects, panelIndex]);
+
+    // Every trace's value under the linked crosshair; x-y scatters have no single value at an x
+    const crosshair = useMemo(() => {
+        const { hoverX } = link;
+        if (hoverX === null) return crosshairLayout(null, [], isDark);
+        const plotted = (sampling.result?.series ?? []).filter(s => !isUnfilteredName(s.column) && isAscending(s.x));
+        return crosshairLayout(hoverX, plotted.map(({ member: subjectId, column: col, x, y }) => ({
+            label: subjects.length > 1 ? `S${subjectId} ${col}` : col,
+            value: valueAt(x, y, hoverX),
+            color: SUBJECT_COLORS[Math.max(subjects.indexOf(subjectId), 0) % SUBJECT_COLORS.length],
+        })), isDark);
+    }, [link, sampling.result, subjects, isDark]);
+
+    const markings = useMemo(() => onsetLayout(onsets, true, isDark), [onsets, isDark]);
+
+    const { setHoverX } = link;
+    const handleHover = useCallback((event: Readonly<Plotly.PlotMouseEvent>) => {
+        const x = Number(event.points[0]?.x);
+        setHoverX(Number.isFinite(x) ? x : null);
+    }, [setHoverX]);
+    const handleUnhover = useCallback(() => setHoverX(null), [setHoverX]);
 
     const textColor = isDark ? '#a0aec0' : '#374151';
     const gridColor = isDark ? 'rgba(255,255,255,0.1)' : 'rgba(0,0,0,0.1)';
@@ -142,6 +208,8 @@ const EmotionPanel = memo(function EmotionPanel({
 
     const layout = useMemo((): Partial<Plotly.Layout> => ({
         height: 400,
+        // Keep the user's zoom while traces are resampled for it
+        uirevision: revision,
         margin: { l: 70, r: 30, t: 45, b: showXAxis ? 55 : 25 },
         showlegend: panelIndex === 0,
         legend: panelIndex === 0 ? {
@@ -160,6 +228,8 @@ const EmotionPanel = memo(function EmotionPanel({
             y: 0.97,
         },
         xaxis: {
+            range: xRange ?? undefined,
+            autorange: xRange === null,
             showticklabels: showXAxis,
             title: showXAxis ? { text: xAxis, font: { size: 10, color: textColor } } : undefined,
             gridcolor: gridColor,
@@ -168,7 +238,7 @@ const EmotionPanel = memo(function EmotionPanel({
         },
         yaxis: {
             title: {
-                text: selectedColumns.length === 1 ? selectedColumns[0] : 'Value',
+                text: (columns.length === 1 ? columns[0] : 'Value') + valueSuffix,
                 font: { size: 9, color: textColor },
             },
             gridcolor: gridColor,
@@ -179,7 +249,9 @@ const EmotionPanel = memo(function EmotionPanel({
         plot_bgcolor: plotBg,
         hovermode: 'closest',
         font: { color: textColor },
-    }), [emotion, showXAxis, xAxis, selectedColumns, panelIndex, textColor, gridColor, paperBg, plotBg]);
+        shapes: [...markings.shapes, ...crosshair.shapes],
+        annotations: [...markings.annotations, ...crosshair.annotations],
+    }), [emotion, revision, xRange, markings, crosshair, showXAxis, xAxis, columns, valueSuffix, panelIndex, textColor, gridColor, paperBg, plotBg]);
 
     const config = useMemo(() => ({
         responsive: true,
@@ -188,10 +260,14 @@ const EmotionPanel = memo(function EmotionPanel({
     }), []);
 
     return (
-        <div className="emotion-panel">
+        <div className="emotion-panel" ref={containerRef}>
+            <ComputeProgress computing={sampling.computing} progress={sampling.progress} error={sampling.error} />
             <Plot
                 data={traces as Plotly.Data[]}
                 layout={layout}
+                onRelayout={handleRelayout}
+                onHover={handleHover}
+                onUnhover={handleUnhover}
                 config={config}
                 style={{ width: '100%' }}
             />
@@ -203,66 +279,99 @@ const PhysiologyChart = memo(function PhysiologyChart({
     data,
     columns,
     title,
-    loading = false
+    loading = false,
+    selectedColumns: selectedColumnsProp,
+    onSelectedColumnsChange,
+    baselineSeconds: baselineProp,
+    onBaselineSecondsChange,
 }: PhysiologyChartProps): React.JSX.Element {
     const { isDark } = useTheme();
-    const [selectedColumns, setSelectedColumns] = useState<string[]>(['ECG']);
+    const [localColumns, setLocalColumns] = useState<string[]>(['ECG']);
+    const selectedColumns = selectedColumnsProp ?? localColumns;
+    const setSelectedColumns = onSelectedColumnsChange ?? setLocalColumns;
     const [chartType, setChartType] = useState<ChartType>('line');
     const [xAxis, setXAxis] = useState<string>('time_offset');
+    const [normalize, setNormalize] = useState<Normalization>('offset');
+    // Relative to each subject's baseline instead of normalized; null plots the recorded values
+    const [reactivity, setReactivity] = useState<ReactivityMode | null>(null);
+    const [localBaseline, setLocalBaseline] = useState(DEFAULT_BASELINE_SECONDS);
+    const baselineSeconds = baselineProp ?? localBaseline;
+    const setBaselineSeconds = onBaselineSecondsChange ?? setLocalBaseline;
+    const [filters, setFilters] = useState<ChannelFilters>({});
+    const [showUnfiltered, setShowUnfiltered] = useState(false);
     const [selectedEmotions, setSelectedEmotions] = useState<Set<number>>(new Set());
+    // Emotion panels zoom, pan and hover together; another x column starts unzoomed
+    const link = useLinkedAxes(xAxis);
 
     const numericColumns = useMemo(() => {
-        return columns.filter(col =>
-            col !== 'Subject_ID' &&
-            col !== 'marker' &&
-            data.length > 0 &&
-            typeof (data[0] as unknown as Record<string, unknown>)[col] === 'number'
-        );
+        return columns.filter(col => data.channel(col) !== undefined);
     }, [columns, data]);
 
     const xAxisColumns = useMemo(() => {
         const baseCols = [...columns];
-        if (data.length > 0 && 'time_offset' in data[0] && !baseCols.includes('time_offset')) {
+        if (data.has('time_offset') && !baseCols.includes('time_offset')) {
             baseCols.unshift('time_offset');
         }
         return baseCols;
     }, [columns, data]);
 
     useEffect(() => {
-        if (data.length > 0 && 'time_offset' in data[0]) {
+        if (data.has('time_offset')) {
             setXAxis('time_offset');
         }
     }, [data]);
 
-    const subjects = useMemo(() => {
-        return Array.from(new Set(data.map(row => row.Subject_ID))).sort((a, b) => a - b);
-    }, [data]);
+    // Stimulus and baseline times come from the recording clock
+    const timeColumn = data.has('time_offset') ? 'time_offset' : 'timestamp';
+    const sampleRate = useMemo(() => {
+        const time = data.column(timeColumn);
+        return time ? estimateSampleRate(time) : null;
+    }, [data, timeColumn]);
+
+    // Filters run on each subject's run of a stimulus; only signal channels take them
+    const filteredColumns = useMemo(() => {
+        return sampleRate === null ? [] : selectedColumns.filter(name => data.channel(name) && filters[name]?.length);
+    }, [data, selectedColumns, filters, sampleRate]);
+
+    // The worker takes ownership of what it is sent, so it gets copies of the frame's columns
+    const createGrouping = useCallback((): GroupSeriesTask => {
+        const copy = (name: string) => {
+            const values = data.column(name);
+            return values ? Float64Array.from(values) : new Float64Array(data.length).fill(NaN);
+        };
+        const measure = (name: string) => reactivity && data.channel(name)
+            ? relativeToBaseline(data, name, timeColumn, baselineSeconds, reactivity)
+            : copy(name);
+        return {
+            kind: 'groupSeries',
+            groups: data.markers.slice(),
+            groupLabels: null,
+            members: data.subjectIds.slice(),
+            x: copy(xAxis),
+            columns: [
+                ...selectedColumns.map(name => ({ name, values: measure(name), filters: filters[name] })),
+                ...(showUnfiltered ? filteredColumns.map(name => ({ name: unfilteredName(name), values: measure(name) })) : []),
+            ],
+            relativeX: true,
+            normalize: reactivity ? 'none' : normalize,
+            sampleRate,
+        };
+    }, [data, xAxis, selectedColumns, normalize, reactivity, timeColumn, baselineSeconds, filters, filteredColumns, showUnfiltered, sampleRate]);
+    const grouping = useCompute(createGrouping, { transfer: true });
+    const grouped = grouping.result;
+
+    // Columns of the current result, which may trail the selection while it is recomputed
+    const plottedColumns = useMemo(() => {
+        return grouped ? Array.from(new Set(grouped.series.map(s => s.column).filter(col => !isUnfilteredName(col)))) : [];
+    }, [grouped]);
 
     const emotionGroups = useMemo(() => {
-        const groups: { emotion: string; marker: number; data: StudyData[] }[] = [];
-        const markerMap = new Map<number, StudyData[]>();
-
-        data.forEach(row => {
-            const marker = row.marker;
-            if (!markerMap.has(marker)) {
-                markerMap.set(marker, []);
-            }
-            markerMap.get(marker)!.push(row);
-        });
-
-        // Sort by marker and create groups with emotion names
-        const sortedMarkers = Array.from(markerMap.keys()).sort((a, b) => a - b);
-        sortedMarkers.forEach(marker => {
-            const emotionName = MARKER_TO_EMOTION[marker] || `Marker ${marker}`;
-            groups.push({
-                emotion: emotionName,
-                marker,
-                data: markerMap.get(marker)!
-            });
-        });
-
-        return groups;
-    }, [data]);
+        return data.markerKeys.map(marker => ({
+            emotion: MARKER_TO_EMOTION[marker] || `Marker ${marker}`,
+            marker,
+            series: grouped ? grouped.series.filter(s => s.group === marker) : [],
+        }));
+    }, [data, grouped]);
 
     const availableEmotions = useMemo(() => {
         return emotionGroups.map(g => ({ marker: g.marker, emotion: g.emotion }));
@@ -280,14 +389,43 @@ const PhysiologyChart = memo(function PhysiologyChart({
         return emotionGroups.filter(g => selectedEmotions.has(g.marker));
     }, [emotionGroups, selectedEmotions]);
 
+    // Stimuli of each subject's loaded rows
+    const timelineRows = useMemo((): TimelineRow[] => {
+        return data.subjects.map(subjectId => ({
+            key: subjectId,
+            label: `Subject ${subjectId}`,
+            events: eventsFromFrame(data, subjectId, timeColumn),
+        }));
+    }, [data, timeColumn]);
+
+    // Panels measure time from each subject's first onset of the stimulus, so a stimulus
+    // presented once starts at 0 and repeats show up as further onset lines
+    const panelOnsets = useMemo(() => {
+        const byMarker = new Map<number, StimulusOnset[]>();
+        if (xAxis !== timeColumn) return byMarker;
+        timelineRows.forEach(({ events }) => events.forEach(event => {
+            const first = events.find(e => e.marker === event.marker)!;
+            const x = event.onset - first.onset;
+            const onsets = byMarker.get(event.marker) ?? [];
+            if (!onsets.some(onset => onset.x === x)) onsets.push({ x, marker: event.marker, color: event.color });
+            byMarker.set(event.marker, onsets);
+        }));
+        return byMarker;
+    }, [timelineRows, xAxis, timeColumn]);
+
+    const { setXRange } = link;
+    const handleStimulusSelect = useCallback((event: StimulusEvent, row: TimelineRow) => {
+        setSelectedEmotions(prev => prev.has(event.marker) ? prev : new Set(prev).add(event.marker));
+        if (xAxis !== timeColumn) return;
+        const first = row.events.find(e => e.marker === event.marker)!;
+        setXRange([event.onset - first.onset, event.offset - first.onset]);
+    }, [xAxis, timeColumn, setXRange]);
+
     const handleColumnToggle = useCallback((column: string) => {
-        setSelectedColumns(prev => {
-            if (prev.includes(column)) {
-                return prev.filter(c => c !== column);
-            }
-            return [...prev, column];
-        });
-    }, []);
+        setSelectedColumns(selectedColumns.includes(column)
+            ? selectedColumns.filter(c => c !== column)
+            : [...selectedColumns, column]);
+    }, [selectedColumns, setSelectedColumns]);
 
     const handleChartTypeChange = useCallback((type: ChartType) => {
         setChartType(type);
@@ -297,6 +435,10 @@ const PhysiologyChart = memo(function PhysiologyChart({
         setXAxis(e.target.value);
     }, []);
 
+    const handleNormalizeChange = useCallback((e: React.ChangeEvent<HTMLSelectElement>) => {
+        setNormalize(e.target.value as Normalization);
+    }, []);
+
     const handleEmotionToggle = useCallback((marker: number) => {
         setSelectedEmotions(prev => {
             const next = new Set(prev);
@@ -359,6 +501,46 @@ const PhysiologyChart = memo(function PhysiologyChart({
                     </select>
                 </div>
 
+                <div className="control-group">
+                    <label>Normalize:</label>
+                    <select
+                        value={normalize}
+                        onChange={handleNormalizeChange}
+                        disabled={reactivity !== null}
+                        title={reactivity ? 'Values are relative to baseline' : undefined}
+                    >
+                        {(Object.keys(NORMALIZATION_LABELS) as Normalization[]).map(mode => (
+                            <option key={mode} value={mode}>{NORMALIZATION_LABELS[mode]}</option>
+                        ))}
+                    </select>
+                </div>
+
+                <div className="control-group">
+                    <BaselineControls
+                        mode={reactivity}
+                        onModeChange={setReactivity}
+                        seconds={baselineSeconds}
+                        onSecondsChange={setBaselineSeconds}
+                    />
+                </div>
+
+                <div className="control-group">
+                    <FilterControls
+                        channels={selectedColumns.filter(col => data.channel(col) !== undefined)}
+                        filters={filters}
+                        onFiltersChange={setFilters}
+                        sampleRate={sampleRate}
+                        showUnfiltered={showUnfiltered}
+                        onShowUnfilteredChange={setShowUnfiltered}
+                    />
+                </div>
+
+                <div className="control-group">
+                    <Button variant="ghost" size="small" onClick={link.resetAll} title="Reset zoom and pan of every panel">
+                        Reset zoom
+                    </Button>
+                </div>
+
                 <div className="control-group column-selector">
                     <label>Y-Axis Variables:</label>
                     <div className="column-checkboxes">
@@ -404,7 +586,7 @@ const PhysiologyChart = memo(function PhysiologyChart({
             <div className="chart-header">
                 <h3>{title || 'Physiological Data by Emotion'}</h3>
                 <div className="subject-legend">
-                    {subjects.map((subjectId, idx) => (
+                    {data.subjects.map((subjectId, idx) => (
                         <span key={subjectId} className="subject-legend-item">
                             <span
                                 className="subject-color"
@@ -416,19 +598,30 @@ const PhysiologyChart = memo(function PhysiologyChart({
                 </div>
             </div>
 
+            <StimulusTimeline rows={timelineRows} onSelect={handleStimulusSelect} />
+
             {/* Multi-panel emotion charts */}
             <div className="emotion-panels">
+                <ComputeProgress
+                    computing={grouping.computing}
+                    progress={grouping.progress}
+                    error={grouping.error}
+                    label="Grouping"
+                />
                 {filteredEmotionGroups.map((group, idx) => (
                     <EmotionPanel
                         key={group.marker}
                         emotion={group.emotion}
-                        emotionData={group.data}
-                        selectedColumns={selectedColumns}
+                        series={group.series}
+                        columns={plottedColumns}
+                        valueSuffix={reactivity ? REACTIVITY_SUFFIX[reactivity] : NORMALIZATION_SUFFIX[normalize]}
                         chartType={chartType}
                         xAxis={xAxis}
-                        subjects={subjects}
+                        subjects={data.subjects}
                         showXAxis={idx === filteredEmotionGroups.length - 1}
                         panelIndex={idx}
+                        onsets={panelOnsets.get(group.marker) ?? NO_ONSETS}
+                        link={link}
                         isDark={isDark}
                     />
                 ))}
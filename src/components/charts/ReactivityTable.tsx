@@ -0,0 +1,193 @@
+import React, { useState, useMemo, useCallback, memo } from 'react';
+import { StudyFrame } from '../../services/studyFrame';
+import { StudyDataProgress } from '../../hooks/useStudyDataStream';
+import {
+    ReactivityMode,
+    ReactivityRow,
+    REACTIVITY_LABELS,
+    DEFAULT_BASELINE_SECONDS,
+    computeReactivity,
+    reactivityCsv,
+} from '../../services/reactivity';
+import { downloadFile } from '../../services/download';
+import { Button } from '../ui';
+import { BaselineControls } from '../common';
+import './ReactivityTable.css';
+
+interface ReactivityTableProps {
+    studyNumber: number;
+    data: StudyFrame;
+    columns: string[];
+    // Loading state of the recordings in `data`; rows cut off where loading stopped are marked
+    progress?: StudyDataProgress;
+    // Controlled baseline window (e.g. from the URL); falls back to local state
+    baselineSeconds?: number;
+    onBaselineSecondsChange?: (seconds: number) => void;
+}
+
+// Clocks rather than measurements
+const TIME_COLUMNS = ['timestamp', 'time_offset'];
+
+interface TableLine {
+    subjectId: number;
+    marker: number;
+    stimulus: string;
+    cells: Map<string, ReactivityRow>;
+}
+
+function formatReactivity(value: number, mode: ReactivityMode): string {
+    if (Number.isNaN(value)) return '–';
+    const text = value.toFixed(mode === 'difference' ? 3 : 2);
+    return `${value > 0 ? '+' : ''}${text}${mode === 'percent' ? '%' : ''}`;
+}
+
+function describeCell(row: ReactivityRow): string {
+    const { baseline } = row;
+    return `Baseline ${baseline.mean.toFixed(4)} ± ${baseline.std.toFixed(4)} (${baseline.count} samples`
+        + `${row.baselineTruncated ? ', cut off' : ''})\n`
+        + `${row.stimulus} ${row.stimulusMean.toFixed(4)} (${row.samples} samples${row.stimulusTruncated ? ', cut off' : ''})`;
+}
+
+/**
+ * ReactivityTable - Each subject's mean response to each stimulus, per channel, against the baseline
+ * Computed from the rows loaded so far, marking values whose baseline or stimulus is cut off where
+ * loading stopped; the export has one line per subject, stimulus and channel.
+ */
+const ReactivityTable = memo(function ReactivityTable({
+    studyNumber,
+    data,
+    columns,
+    progress,
+    baselineSeconds: secondsProp,
+    onBaselineSecondsChange,
+}: ReactivityTableProps): React.JSX.Element {
+    const [mode, setMode] = useState<ReactivityMode>('difference');
+    const [localSeconds, setLocalSeconds] = useState(DEFAULT_BASELINE_SECONDS);
+    const seconds = secondsProp ?? localSeconds;
+    const setSeconds = onBaselineSecondsChange ?? setLocalSeconds;
+
+    const channels = useMemo(() => {
+        return columns.filter(col => !TIME_COLUMNS.includes(col) && data.channel(col) !== undefined);
+    }, [columns, data]);
+    const timeColumn = data.has('time_offset') ? 'time_offset' : 'timestamp';
+
+    // Progress is a new object on every render; the key only changes with the partly loaded subjects
+    const partialKey = progress
+        ? progress.subjects.filter(s => s.state !== 'complete').map(s => s.subjectId).join(',')
+        : '';
+    const partialSubjects = useMemo(() => partialKey ? partialKey.split(',').map(Number) : [], [partialKey]);
+
+    const rows = useMemo(
+        () => computeReactivity(data, channels, timeColumn, seconds, mode, partialSubjects),
+        [data, channels, timeColumn, seconds, mode, partialSubjects]
+    );
+
+    const lines = useMemo((): TableLine[] => {
+        const byKey = new Map<string, TableLine>();
+        rows.forEach(row => {
+            const key = `${row.subjectId}:${row.marker}`;
+            let line = byKey.get(key);
+            if (!line) {
+                line = { subjectId: row.subjectId, marker: row.marker, stimulus: row.stimulus, cells: new Map() };
+                byKey.set(key, line);
+            }
+            line.cells.set(row.channel, row);
+        });
+        return Array.from(byKey.values());
+    }, [rows]);
+
+    const missingBaseline = useMemo(() => {
+        return Array.from(new Set(rows.filter(row => row.baseline.count === 0).map(row => row.subjectId)));
+    }, [rows]);
+
+    const truncatedSubjects = useMemo(() => {
+        const truncated = rows.filter(row => row.baselineTruncated || row.stimulusTruncated);
+        return Array.from(new Set(truncated.map(row => row.subjectId)));
+    }, [rows]);
+
+    const handleModeChange = useCallback((next: ReactivityMode | null) => {
+        if (next) setMode(next);
+    }, []);
+
+    const handleExport = useCallback(() => {
+        downloadFile(
+            `popane-reactivity-study${studyNumber}-${mode}.csv`,
+            reactivityCsv(rows, mode, seconds),
+            'text/csv'
+        );
+    }, [studyNumber, rows, mode, seconds]);
+
+    return (
+        <div className="reactivity-table-container">
+            <div className="reactivity-controls">
+                <h3>Reactivity to Stimuli</h3>
+                <BaselineControls
+                    mode={mode}
+                    onModeChange={handleModeChange}
+                    seconds={seconds}
+                    onSecondsChange={setSeconds}
+                    required
+                />
+                <Button variant="ghost" size="small" onClick={handleExport} disabled={rows.length === 0}>
+                    Export CSV
+                </Button>
+            </div>
+
+            {missingBaseline.length > 0 && (
+                <p className="reactivity-note">
+                    No baseline (marker -1) loaded for subject{missingBaseline.length > 1 ? 's' : ''} {missingBaseline.join(', ')}
+                </p>
+            )}
+
+            {truncatedSubjects.length > 0 && (
+                <p className="reactivity-note">
+                    * Baseline or stimulus cut off where loading stopped for subject{truncatedSubjects.length > 1 ? 's' : ''} {truncatedSubjects.join(', ')};
+                    load the full recordings for final values
+                </p>
+            )}
+
+            {lines.length === 0 ? (
+                <p className="reactivity-empty">No stimulus samples loaded</p>
+            ) : (
+                <div className="table-wrapper">
+                    <table className="reactivity-table">
+                        <thead>
+                            <tr>
+                                <th>Subject</th>
+                                <th>Stimulus</th>
+                                {channels.map(channel => (
+                                    <th key={channel}>{channel} ({REACTIVITY_LABELS[mode]})</th>
+                                ))}
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {lines.map(line => (
+                                <tr key={`${line.subjectId}:${line.marker}`}>
+                                    <td>{line.subjectId}</td>
+                                    <td>{line.stimulus}</td>
+                                    {channels.map(channel => {
+                                        const cell = line.cells.get(channel);
+                                        const sign = !cell || Number.isNaN(cell.value) ? '' : cell.value > 0 ? 'up' : 'down';
+                                        const truncated = cell && (cell.baselineTruncated || cell.stimulusTruncated);
+                                        return (
+                                            <td
+                                                key={channel}
+                                                className={truncated ? `${sign} truncated` : sign}
+                                                title={cell ? describeCell(cell) : undefined}
+                                            >
+                                                {cell ? formatReactivity(cell.value, mode) : '–'}
+                                                {truncated && '*'}
+                                            </td>
+                                        );
+                                    })}
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+});
+
+export default ReactivityTable;
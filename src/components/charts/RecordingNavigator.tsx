@@ -0,0 +1,238 @@
+import React, { memo, useState, useRef, useMemo, useCallback } from 'react';
+import { popaneApi } from '../../services/popaneApi';
+import { usePopaneQuery } from '../../hooks/usePopaneQuery';
+import { ApiErrorNotice } from '../common';
+import './RecordingNavigator.css';
+
+export type TimeWindow = [number, number];
+
+interface RecordingNavigatorProps {
+    studyNumber: number;
+    subjectId: number;
+    feature: string;
+    window: TimeWindow;
+    onWindowChange: (window: TimeWindow) => void;
+    minWindowSeconds?: number;
+    maxWindowSeconds?: number;
+}
+
+type DragMode = 'move' | 'start' | 'end';
+
+interface DragState {
+    mode: DragMode;
+    originX: number;
+    origin: TimeWindow;
+}
+
+const OVERVIEW_POINTS = 600;
+const STRIP_HEIGHT = 100;  // SVG user units; the strip stretches to the container
+
+function round(seconds: number): number {
+    return Math.round(seconds * 10) / 10;
+}
+
+// Keep the window inside the recording and within the allowed lengths
+function clampWindow([start, end]: TimeWindow, duration: number, mode: DragMode, minLength: number, maxLength: number): TimeWindow {
+    if (mode === 'move') {
+        const length = Math.min(end - start, duration);
+        const clampedStart = Math.max(0, Math.min(start, duration - length));
+        return [round(clampedStart), round(clampedStart + length)];
+    }
+    if (mode === 'start') {
+        const clampedStart = Math.max(0, end - maxLength, Math.min(start, end - minLength));
+        return [round(clampedStart), end];
+    }
+    const clampedEnd = Math.min(duration, start + maxLength, Math.max(end, start + minLength));
+    return [start, round(clampedEnd)];
+}
+
+// The recording overview the navigator draws; shared through the query cache with other views
+export function useRecordingOverview(studyNumber: number, subjectId: number, feature: string) {
+    return usePopaneQuery(
+        ['signals/overview', studyNumber, subjectId, feature],
+        signal => popaneApi.getSignalOverview(studyNumber, subjectId, feature, OVERVIEW_POINTS, signal)
+    );
+}
+
+/**
+ * RecordingNavigator - Overview strip of a whole recording with a draggable time window
+ * Drag the window to pan, its edges to resize, or click the strip to jump.
+ * Arrow keys step by a quarter window, Page Up/Down by a full window, Home/End jump to the ends.
+ */
+const RecordingNavigator = memo(function RecordingNavigator({
+    studyNumber,
+    subjectId,
+    feature,
+    window: committedWindow,
+    onWindowChange,
+    minWindowSeconds = 2,
+    maxWindowSeconds = 120,
+}: RecordingNavigatorProps): React.JSX.Element {
+    const stripRef = useRef<HTMLDivElement>(null);
+    const dragRef = useRef<DragState | null>(null);
+    // Window shown while dragging; committed (and fetched) on release
+    const [draft, setDraft] = useState<TimeWindow | null>(null);
+
+    const { data, loading, error, refetch } = useRecordingOverview(studyNumber, subjectId, feature);
+
+    const duration = data?.duration ?? 0;
+    const [start, end] = draft ?? committedWindow;
+
+    const envelope = useMemo(() => {
+        if (!data) return '';
+        const values = data.points.flatMap(p => [p.min, p.max]).filter((v): v is number => v !== null);
+        if (values.length === 0) return '';
+
+        const lo = Math.min(...values);
+        const span = Math.max(...values) - lo || 1;
+        const y = (v: number) => STRIP_HEIGHT - 8 - ((v - lo) / span) * (STRIP_HEIGHT - 16);
+        const bucket = data.duration / data.points.length;
+
+        const present = data.points.filter(p => p.min !== null && p.max !== null);
+        const upper = present.map(p => `${p.time + bucket / 2},${y(p.max!)}`);
+        const lower = present.map(p => `${p.time + bucket / 2},${y(p.min!)}`).reverse();
+        return [...upper, ...lower].join(' ');
+    }, [data]);
+
+    const secondsPerPixel = useCallback(() => {
+        const width = stripRef.current?.getBoundingClientRect().width ?? 0;
+        return width > 0 ? duration / width : 0;
+    }, [duration]);
+
+    const commit = useCallback((next: TimeWindow) => {
+        if (next[0] !== committedWindow[0] || next[1] !== committedWindow[1]) {
+            onWindowChange(next);
+        }
+    }, [committedWindow, onWindowChange]);
+
+    const handlePointerDown = useCallback((e: React.PointerEvent<HTMLDivElement>) => {
+        if (!duration || e.button !== 0) return;
+        const target = e.target as HTMLElement;
+        const mode = (target.dataset.drag as DragMode | undefined) ?? 'move';
+        let origin: TimeWindow = committedWindow;
+
+        // A click outside the window centers it there and keeps dragging from there
+        if (!target.dataset.drag) {
+            const rect = e.currentTarget.getBoundingClientRect();
+            const at = ((e.clientX - rect.left) / rect.width) * duration;
+            const length = committedWindow[1] - committedWindow[0];
+            origin = clampWindow([at - length / 2, at + length / 2], duration, 'move', minWindowSeconds, maxWindowSeconds);
+            setDraft(origin);
+        }
+
+        e.currentTarget.setPointerCapture(e.pointerId);
+        dragRef.current = { mode, originX: e.clientX, origin };
+        e.preventDefault();
+    }, [duration, committedWindow, minWindowSeconds, maxWindowSeconds]);
+
+    const handlePointerMove = useCallback((e: React.PointerEvent<HTMLDivElement>) => {
+        const drag = dragRef.current;
+        if (!drag) return;
+        const delta = (e.clientX - drag.originX) * secondsPerPixel();
+        const [originStart, originEnd] = drag.origin;
+        const moved: TimeWindow = drag.mode === 'move'
+            ? [originStart + delta, originEnd + delta]
+            : drag.mode === 'start'
+                ? [originStart + delta, originEnd]
+                : [originStart, originEnd + delta];
+        setDraft(clampWindow(moved, duration, drag.mode, minWindowSeconds, maxWindowSeconds));
+    }, [duration, secondsPerPixel, minWindowSeconds, maxWindowSeconds]);
+
+    const handlePointerUp = useCallback(() => {
+        if (!dragRef.current) return;
+        dragRef.current = null;
+        if (draft) commit(draft);
+        setDraft(null);
+    }, [draft, commit]);
+
+    const handleKeyDown = useCallback((e: React.KeyboardEvent<HTMLDivElement>) => {
+        if (!duration) return;
+        const length = committedWindow[1] - committedWindow[0];
+        const steps: Record<string, number> = {
+            ArrowLeft: -length / 4,
+            ArrowRight: length / 4,
+            PageUp: -length,
+            PageDown: length,
+            Home: -duration,
+            End: duration,
+        };
+        const step = steps[e.key];
+        if (step === undefined) return;
+
+        e.preventDefault();
+        commit(clampWindow(
+            [committedWindow[0] + step, committedWindow[1] + step],
+            duration, 'move', minWindowSeconds, maxWindowSeconds
+        ));
+    }, [duration, committedWindow, commit, minWindowSeconds, maxWindowSeconds]);
+
+    if (error) {
+        return <ApiErrorNotice error={error} title="Failed to load recording overview" onRetry={refetch} />;
+    }
+
+    const percent = (seconds: number) => (duration ? (seconds / duration) * 100 : 0);
+
+    return (
+        <div className="recording-navigator">
+            <div
+                ref={stripRef}
+                className={`navigator-strip ${loading && !data ? 'loading' : ''}`}
+                tabIndex={0}
+                role="slider"
+                aria-label={`Time window over the ${feature} recording`}
+                aria-valuemin={0}
+                aria-valuemax={duration}
+                aria-valuenow={start}
+                aria-valuetext={`${start.toFixed(1)} to ${end.toFixed(1)} seconds`}
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={handlePointerUp}
+                onKeyDown={handleKeyDown}
+            >
+                {data && (
+                    <svg viewBox={`0 0 ${data.duration} ${STRIP_HEIGHT}`} preserveAspectRatio="none" aria-hidden="true">
+                        {data.segments.map(segment => (
+                            <rect
+                                key={`${segment.marker}-${segment.start}`}
+                                x={segment.start}
+                                y={0}
+                                width={segment.end - segment.start}
+                                height={STRIP_HEIGHT}
+                                fill={segment.color}
+                                opacity={0.22}
+                            >
+                                <title>{segment.emotion}</title>
+                            </rect>
+                        ))}
+                        {envelope && (
+                            <polygon points={envelope} className="navigator-envelope" vectorEffect="non-scaling-stroke" />
+                        )}
+                    </svg>
+                )}
+
+                {duration > 0 && (
+                    <div
+                        className={`navigator-window ${draft ? 'dragging' : ''}`}
+                        data-drag="move"
+                        style={{ left: `${percent(start)}%`, width: `${percent(end - start)}%` }}
+                    >
+                        <span className="navigator-handle start" data-drag="start" />
+                        <span className="navigator-handle end" data-drag="end" />
+                    </div>
+                )}
+            </div>
+
+            <div className="navigator-labels">
+                <span>0 s</span>
+                <span className="navigator-range">
+                    {start.toFixed(1)}–{end.toFixed(1)} s
+                    {data && ` · ${data.feature} overview`}
+                </span>
+                <span>{duration ? `${Math.round(duration)} s` : ''}</span>
+            </div>
+        </div>
+    );
+});
+
+export default RecordingNavigator;
@@ -0,0 +1,99 @@
+import React, { memo, useState, useMemo } from 'react';
+import { StimulusEvent, formatSeconds } from '../../services/stimulusEvents';
+import './StimulusTimeline.css';
+
+export interface TimelineRow {
+    key: string | number;
+    label: string;
+    events: StimulusEvent[];
+}
+
+interface StimulusTimelineProps {
+    rows: TimelineRow[];
+    // Part of the recording on screen, shaded on the track
+    highlight?: [number, number] | null;
+    onSelect: (event: StimulusEvent, row: TimelineRow) => void;
+}
+
+// Bars narrower than this (percent of the track) only show the marker ID
+const LABEL_MIN_WIDTH = 8;
+
+function describe(event: StimulusEvent): string {
+    return `${event.marker} · ${event.name} — onset ${formatSeconds(event.onset)}, `
+        + `offset ${formatSeconds(event.offset)}, duration ${formatSeconds(event.offset - event.onset)}`;
+}
+
+/**
+ * StimulusTimeline - Gantt track of the stimuli presented in each recording
+ * One row per recording with a bar per stimulus from onset to offset, labelled with
+ * its marker ID. Hover or focus a bar for its times; click it to zoom to the stimulus.
+ */
+const StimulusTimeline = memo(function StimulusTimeline({
+    rows,
+    highlight = null,
+    onSelect,
+}: StimulusTimelineProps): React.JSX.Element | null {
+    const [active, setActive] = useState<StimulusEvent | null>(null);
+
+    const [start, end] = useMemo((): [number, number] => {
+        const events = rows.flatMap(row => row.events);
+        if (events.length === 0) return [0, 0];
+        return [
+            Math.min(0, ...events.map(e => e.onset)),
+            Math.max(...events.map(e => e.offset)),
+        ];
+    }, [rows]);
+
+    if (end <= start) return null;
+
+    const percent = (seconds: number) => ((seconds - start) / (end - start)) * 100;
+
+    return (
+        <div className="stimulus-timeline">
+            {rows.map(row => (
+                <div key={row.key} className="timeline-row">
+                    <span className="timeline-label">{row.label}</span>
+                    <div className="timeline-track">
+                        {highlight && (
+                            <span
+                                className="timeline-highlight"
+                                style={{
+                                    left: `${percent(Math.max(highlight[0], start))}%`,
+                                    width: `${percent(Math.min(highlight[1], end)) - percent(Math.max(highlight[0], start))}%`,
+                                }}
+                            />
+                        )}
+                        {row.events.map(event => {
+                            const width = percent(event.offset) - percent(event.onset);
+                            return (
+                                <button
+                                    key={`${event.marker}-${event.onset}`}
+                                    className={`timeline-bar ${active === event ? 'active' : ''}`}
+                                    style={{ left: `${percent(event.onset)}%`, width: `${width}%`, backgroundColor: event.color }}
+                                    title={describe(event)}
+                                    aria-label={`Zoom to stimulus ${describe(event)}`}
+                                    onClick={() => onSelect(event, row)}
+                                    onMouseEnter={() => setActive(event)}
+                                    onMouseLeave={() => setActive(null)}
+                                    onFocus={() => setActive(event)}
+                                    onBlur={() => setActive(null)}
+                                >
+                                    {width >= LABEL_MIN_WIDTH ? `${event.marker} ${event.name}` : event.marker}
+                                </button>
+                            );
+                        })}
+                    </div>
+                </div>
+            ))}
+            <div className="timeline-footer">
+                <span>{formatSeconds(start)}</span>
+                <span className="timeline-details">
+                    {active ? describe(active) : 'Click a stimulus to zoom to it'}
+                </span>
+                <span>{formatSeconds(end)}</span>
+            </div>
+        </div>
+    );
+});
+
+export default StimulusTimeline;
@@ -1,8 +1,12 @@
 export { default as DataTable } from './DataTable';
 export { default as EmotionChart } from './EmotionChart';
 export { default as EmotionCountChart } from './EmotionCountChart';
+export { default as HrvTable } from './HrvTable';
 export { default as PhysiologyChart } from './PhysiologyChart';
 export { default as PCAChart } from './PCAChart';
+export { default as ReactivityTable } from './ReactivityTable';
+export { default as RecordingNavigator } from './RecordingNavigator';
+export { default as StimulusTimeline } from './StimulusTimeline';
 export {
     FeatureAnalysisChart,
     PowerSpectrumChart,
@@ -0,0 +1,71 @@
+import React, { memo } from 'react';
+import { isPopaneApiError, isContractMismatchError } from '../../services/apiError';
+import { Button } from '../ui';
+import './ApiErrorNotice.css';
+
+interface ApiErrorNoticeProps {
+    error: Error;
+    title?: string;
+    onRetry?: () => void;
+    onDismiss?: () => void;
+    variant?: 'banner' | 'inline';
+}
+
+/**
+ * ApiErrorNotice - Explains a failed backend request
+ * Shows the endpoint, HTTP status and backend detail for PopaneApiError,
+ * and a retry button bound to the request that failed
+ */
+const ApiErrorNotice = memo(function ApiErrorNotice({
+    error,
+    title,
+    onRetry,
+    onDismiss,
+    variant = 'inline',
+}: ApiErrorNoticeProps): React.JSX.Element {
+    const apiError = isPopaneApiError(error) ? error : null;
+    const reason = apiError
+        ? apiError.detail || apiError.statusText || 'Network error'
+        : error.message;
+
+    return (
+        <div className={`api-error-notice api-error-${variant}`} role="alert">
+            <div className="api-error-body">
+                <p className="api-error-title">{title ? `${title}: ${reason}` : `Error: ${reason}`}</p>
+                {apiError && (
+                    <p className="api-error-request">
+                        <code>GET {apiError.endpoint}</code>
+                        <span className="api-error-status">
+                            {isContractMismatchError(apiError)
+                                ? 'Unexpected response shape'
+                                : apiError.status > 0
+                                    ? `${apiError.status} ${apiError.statusText}`
+                                    : 'No response from server'}
+                        </span>
+                    </p>
+                )}
+                {apiError && apiError.retryable && (
+                    <p className="api-error-hint">This looks temporary — retrying may succeed.</p>
+                )}
+            </div>
+            <div className="api-error-actions">
+                {onRetry && (
+                    <Button
+                        size="small"
+                        variant={!apiError || apiError.retryable ? 'primary' : 'secondary'}
+                        onClick={onRetry}
+                    >
+                        Retry
+                    </Button>
+                )}
+                {onDismiss && (
+                    <button className="api-error-dismiss" onClick={onDismiss} aria-label="Dismiss error">
+                        ×
+                    </button>
+                )}
+            </div>
+        </div>
+    );
+});
+
+export default ApiErrorNotice;
@@ -0,0 +1,65 @@
+import React, { memo, useCallback } from 'react';
+import { ReactivityMode, REACTIVITY_MODES, REACTIVITY_LABELS } from '../../services/reactivity';
+import './BaselineControls.css';
+
+interface BaselineControlsProps {
+    // null shows absolute values
+    mode: ReactivityMode | null;
+    onModeChange: (mode: ReactivityMode | null) => void;
+    seconds: number;
+    onSecondsChange: (seconds: number) => void;
+    // Offer only the modes, e.g. for a table that is always relative to baseline
+    required?: boolean;
+}
+
+const MAX_BASELINE_SECONDS = 600;
+
+/**
+ * BaselineControls - Chooses how values relate to the pre-stimulus baseline and which part of it counts
+ */
+const BaselineControls = memo(function BaselineControls({
+    mode,
+    onModeChange,
+    seconds,
+    onSecondsChange,
+    required = false,
+}: BaselineControlsProps): React.JSX.Element {
+    const handleModeChange = useCallback((e: React.ChangeEvent<HTMLSelectElement>) => {
+        onModeChange(e.target.value ? e.target.value as ReactivityMode : null);
+    }, [onModeChange]);
+
+    const handleSecondsChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+        const value = parseInt(e.target.value) || 0;
+        onSecondsChange(Math.max(0, Math.min(MAX_BASELINE_SECONDS, value)));
+    }, [onSecondsChange]);
+
+    return (
+        <div className="baseline-controls">
+            <label>
+                {required ? 'Reactivity:' : 'Relative to baseline:'}
+                <select value={mode ?? ''} onChange={handleModeChange}>
+                    {!required && <option value="">Off (absolute)</option>}
+                    {REACTIVITY_MODES.map(m => (
+                        <option key={m} value={m}>{REACTIVITY_LABELS[m]}</option>
+                    ))}
+                </select>
+            </label>
+            {(mode !== null || required) && (
+                <label title="Baseline samples used: the last seconds before the first stimulus; 0 uses the whole baseline">
+                    last
+                    <input
+                        type="number"
+                        value={seconds}
+                        onChange={handleSecondsChange}
+                        min={0}
+                        max={MAX_BASELINE_SECONDS}
+                        step={10}
+                    />
+                    s of baseline
+                </label>
+            )}
+        </div>
+    );
+});
+
+export default BaselineControls;
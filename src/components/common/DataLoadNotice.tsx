@@ -0,0 +1,84 @@
+import React, { memo } from 'react';
+import { StudyDataProgress, SubjectLoadState } from '../../hooks/useStudyDataStream';
+import { Button } from '../ui';
+import './DataLoadNotice.css';
+
+interface DataLoadNoticeProps {
+    progress: StudyDataProgress;
+    loading: boolean;
+    onLoadMore: () => void;
+    onLoadAll: () => void;
+}
+
+const STATE_LABELS: Record<SubjectLoadState, string> = {
+    queued: 'Waiting',
+    loading: 'Loading',
+    paused: 'Partial',
+    complete: 'Complete',
+    error: 'Failed',
+};
+
+function formatCount(value: number): string {
+    return value.toLocaleString();
+}
+
+function fraction(loaded: number, total: number | null): number {
+    return total ? Math.min(loaded / total, 1) : 0;
+}
+
+/**
+ * DataLoadNotice - How much of the selected recordings has been downloaded
+ * One progress bar per subject while pages stream in, and the loaded/total sample
+ * count with controls to fetch more whenever the recordings are not loaded in full
+ */
+const DataLoadNotice = memo(function DataLoadNotice({
+    progress,
+    loading,
+    onLoadMore,
+    onLoadAll,
+}: DataLoadNoticeProps): React.JSX.Element | null {
+    if (progress.complete && !loading) return null;
+
+    const summary = progress.total !== null
+        ? `Loaded ${formatCount(progress.loaded)} of ${formatCount(progress.total)} samples (${Math.round(fraction(progress.loaded, progress.total) * 100)}%)`
+        : `Loaded ${formatCount(progress.loaded)} samples`;
+
+    return (
+        <div className="data-load-notice" role="status">
+            <div className="data-load-header">
+                <p className="data-load-summary">
+                    {summary}
+                    {!loading && ' — charts and tables show the loaded part of each recording'}
+                </p>
+                {!loading && (
+                    <div className="data-load-actions">
+                        <Button size="small" variant="secondary" onClick={onLoadMore}>Load more</Button>
+                        <Button size="small" variant="ghost" onClick={onLoadAll}>Load all</Button>
+                    </div>
+                )}
+            </div>
+            <ul className="data-load-subjects">
+                {progress.subjects.map(subject => (
+                    <li key={subject.subjectId} className={`data-load-subject ${subject.state}`}>
+                        <span className="data-load-label">Subject {subject.subjectId}</span>
+                        <span className="data-load-bar">
+                            <span
+                                className="data-load-fill"
+                                style={{ width: `${fraction(subject.loaded, subject.total) * 100}%` }}
+                            />
+                        </span>
+                        <span className="data-load-count">
+                            {subject.total !== null
+                                ? `${formatCount(subject.loaded)} / ${formatCount(subject.total)}`
+                                : formatCount(subject.loaded)}
+                            {' · '}
+                            {STATE_LABELS[subject.state]}
+                        </span>
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+});
+
+export default DataLoadNotice;
@@ -0,0 +1,41 @@
+import React, { memo } from 'react';
+import { EmotionGrouping, EMOTION_GROUPINGS, GROUPING_LABELS } from '../../services/emotionTaxonomy';
+import './EmotionGroupingSwitch.css';
+
+interface EmotionGroupingSwitchProps {
+    value: EmotionGrouping;
+    onChange: (grouping: EmotionGrouping) => void;
+}
+
+const GROUPING_HINTS: Record<EmotionGrouping, string> = {
+    stimulus: 'Each stimulus on its own, e.g. Anger3',
+    emotion: 'Stimuli of the same discrete emotion together, e.g. Anger',
+    valence: 'Emotions by valence and arousal quadrant',
+};
+
+/**
+ * EmotionGroupingSwitch - Chooses whether emotion charts show stimuli, emotions or valence classes
+ */
+const EmotionGroupingSwitch = memo(function EmotionGroupingSwitch({
+    value,
+    onChange,
+}: EmotionGroupingSwitchProps): React.JSX.Element {
+    return (
+        <div className="emotion-grouping-switch" role="group" aria-label="Group emotions by">
+            <span className="emotion-grouping-label">Group by:</span>
+            {EMOTION_GROUPINGS.map(grouping => (
+                <button
+                    key={grouping}
+                    className={grouping === value ? 'active' : ''}
+                    aria-pressed={grouping === value}
+                    title={GROUPING_HINTS[grouping]}
+                    onClick={() => onChange(grouping)}
+                >
+                    {GROUPING_LABELS[grouping]}
+                </button>
+            ))}
+        </div>
+    );
+});
+
+export default EmotionGroupingSwitch;
@@ -0,0 +1,196 @@
+import React, { memo, useCallback } from 'react';
+import {
+    ChannelFilters,
+    FilterDesign,
+    FilterKind,
+    FilterSpec,
+    FILTER_KINDS,
+    FILTER_LABELS,
+    DEFAULT_FILTERS,
+    filterProblem,
+} from '../../services/signalFilters';
+import './FilterControls.css';
+
+interface FilterControlsProps {
+    channels: string[];
+    filters: ChannelFilters;
+    onFiltersChange: (filters: ChannelFilters) => void;
+    // Hz; null when the channels' sampling cannot be told and filters cannot run
+    sampleRate: number | null;
+    showUnfiltered: boolean;
+    onShowUnfilteredChange: (show: boolean) => void;
+}
+
+function numberFrom(e: React.ChangeEvent<HTMLInputElement>): number {
+    const value = parseFloat(e.target.value);
+    return Number.isFinite(value) ? value : 0;
+}
+
+// The inputs of one filter's parameters
+const FilterParams = memo(function FilterParams({
+    spec,
+    onChange,
+}: {
+    spec: FilterSpec;
+    onChange: (spec: FilterSpec) => void;
+}): React.JSX.Element {
+    const design = 'design' in spec && (
+        <select
+            value={spec.design}
+            onChange={e => onChange({ ...spec, design: e.target.value as FilterDesign })}
+            title="IIR: Butterworth run forward and backward; FIR: windowed sinc"
+        >
+            <option value="iir">IIR</option>
+            <option value="fir">FIR</option>
+        </select>
+    );
+
+    switch (spec.kind) {
+        case 'highpass':
+        case 'lowpass':
+            return (
+                <>
+                    <input
+                        type="number"
+                        value={spec.cutoff}
+                        onChange={e => onChange({ ...spec, cutoff: numberFrom(e) })}
+                        min={0}
+                        step={0.1}
+                    />
+                    Hz
+                    {design}
+                </>
+            );
+        case 'bandpass':
+            return (
+                <>
+                    <input
+                        type="number"
+                        value={spec.low}
+                        onChange={e => onChange({ ...spec, low: numberFrom(e) })}
+                        min={0}
+                        step={0.1}
+                    />
+                    –
+                    <input
+                        type="number"
+                        value={spec.high}
+                        onChange={e => onChange({ ...spec, high: numberFrom(e) })}
+                        min={0}
+                        step={1}
+                    />
+                    Hz
+                    {design}
+                </>
+            );
+        case 'notch':
+            return (
+                <select
+                    value={spec.frequency}
+                    onChange={e => onChange({ ...spec, frequency: Number(e.target.value) === 60 ? 60 : 50 })}
+                    title="Mains frequency"
+                >
+                    <option value={50}>50 Hz</option>
+                    <option value={60}>60 Hz</option>
+                </select>
+            );
+        default:
+            return (
+                <>
+                    <input
+                        type="number"
+                        value={spec.seconds}
+                        onChange={e => onChange({ ...spec, seconds: numberFrom(e) })}
+                        min={0}
+                        step={0.1}
+                    />
+                    s window
+                </>
+            );
+    }
+});
+
+/**
+ * FilterControls - Per-channel chains of display filters, with an unfiltered overlay toggle
+ */
+const FilterControls = memo(function FilterControls({
+    channels,
+    filters,
+    onFiltersChange,
+    sampleRate,
+    showUnfiltered,
+    onShowUnfilteredChange,
+}: FilterControlsProps): React.JSX.Element {
+    const active = channels.reduce((sum, channel) => sum + (filters[channel]?.length ?? 0), 0);
+
+    const setChain = useCallback((channel: string, chain: FilterSpec[]) => {
+        const next = { ...filters };
+        if (chain.length > 0) next[channel] = chain;
+        else delete next[channel];
+        onFiltersChange(next);
+    }, [filters, onFiltersChange]);
+
+    return (
+        <details className="filter-controls">
+            <summary>
+                Filters{active > 0 ? ` (${active} active)` : ''}
+                {sampleRate !== null && <span className="sample-rate">{sampleRate.toFixed(0)} Hz sampling</span>}
+            </summary>
+
+            {sampleRate === null && (
+                <p className="filter-problem">The sample rate cannot be told from these signals, so filters are off.</p>
+            )}
+
+            <label className="filter-overlay">
+                <input
+                    type="checkbox"
+                    checked={showUnfiltered}
+                    onChange={e => onShowUnfilteredChange(e.target.checked)}
+                />
+                Overlay unfiltered signal
+            </label>
+
+            {channels.map(channel => {
+                const chain = filters[channel] ?? [];
+                return (
+                    <div key={channel} className="filter-channel">
+                        <span className="filter-channel-name">{channel}</span>
+                        {chain.map((spec, i) => {
+                            const problem = sampleRate !== null ? filterProblem(spec, sampleRate) : null;
+                            return (
+                                <span key={i} className={`filter-chip ${problem ? 'invalid' : ''}`} title={problem ?? undefined}>
+                                    {FILTER_LABELS[spec.kind]}
+                                    <FilterParams
+                                        spec={spec}
+                                        onChange={updated => setChain(channel, chain.map((s, j) => j === i ? updated : s))}
+                                    />
+                                    <button
+                                        className="filter-remove"
+                                        onClick={() => setChain(channel, chain.filter((_, j) => j !== i))}
+                                        title="Remove filter"
+                                    >
+                                        ×
+                                    </button>
+                                    {problem && <span className="filter-problem">Skipped: {problem}</span>}
+                                </span>
+                            );
+                        })}
+                        <select
+                            value=""
+                            onChange={e => {
+                                if (e.target.value) setChain(channel, [...chain, DEFAULT_FILTERS[e.target.value as FilterKind]]);
+                            }}
+                        >
+                            <option value="">+ Add filter</option>
+                            {FILTER_KINDS.map(kind => (
+                                <option key={kind} value={kind}>{FILTER_LABELS[kind]}</option>
+                            ))}
+                        </select>
+                    </div>
+                );
+            })}
+        </details>
+    );
+});
+
+export default FilterControls;
@@ -1 +1,6 @@
 export { default as ErrorBoundary } from './ErrorBoundary';
+export { default as ApiErrorNotice } from './ApiErrorNotice';
+export { default as DataLoadNotice } from './DataLoadNotice';
+export { default as EmotionGroupingSwitch } from './EmotionGroupingSwitch';
+export { default as BaselineControls } from './BaselineControls';
+export { default as FilterControls } from './FilterControls';
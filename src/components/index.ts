@@ -1,4 +1,11 @@
-export { ErrorBoundary } from './common';
+export {
+    ErrorBoundary,
+    ApiErrorNotice,
+    DataLoadNotice,
+    EmotionGroupingSwitch,
+    BaselineControls,
+    FilterControls
+} from './common';
 export { Button, LoadingSpinner, Card, CardHeader, CardBody, CardFooter } from './ui';
 export { Header, InputBar } from './layout';
 export { StudySelector, SubjectSelector } from './selectors';
@@ -6,8 +13,10 @@ export {
     DataTable,
     EmotionChart,
     EmotionCountChart,
+    HrvTable,
     PhysiologyChart,
     PCAChart,
+    ReactivityTable,
     FeatureAnalysisChart,
     PowerSpectrumChart,
     FFTChart,
@@ -1,5 +1,11 @@
 import React from 'react';
 import { useTheme } from '../../context/ThemeContext';
+import { usePopane } from '../../context/PopaneContext';
+import { useConnectionStatus } from '../../hooks/useConnectionStatus';
+import { useMockMode } from '../../hooks/useMockMode';
+import { useUrlState } from '../../hooks/useUrlState';
+import { buildUrl, UrlState, ViewMode } from '../../services/urlState';
+import WorkspaceMenu from './WorkspaceMenu';
 import './Header.css';
 
 // Sun and Moon icons as inline SVGs
@@ -16,12 +22,34 @@ const MoonIcon = () => (
     </svg>
 );
 
+interface NavRoute {
+    label: string;
+    view: ViewMode | null;  // null = study list
+}
+
+const NAV_ROUTES: NavRoute[] = [
+    { label: 'Studies', view: null },
+    { label: 'Data', view: 'table' },
+    { label: 'Visualization', view: 'chart' },
+];
+
+function routeState(route: NavRoute, current: UrlState): UrlState {
+    if (route.view === null) {
+        return { study: null, subjects: [], view: current.view };
+    }
+    return { ...current, view: route.view };
+}
+
 interface HeaderProps {
     subtitle?: string;
 }
 
 export default function Header({ subtitle }: HeaderProps) {
     const { toggleTheme, isDark } = useTheme();
+    const { online, cachedResponses } = useConnectionStatus();
+    const [mockMode, setMockMode] = useMockMode();
+    const [urlState] = useUrlState();
+    const { dispatch } = usePopane();
 
     return (
         <header className={`header ${isDark ? 'dark' : 'light'}`}>
@@ -36,26 +64,78 @@ export default function Header({ subtitle }: HeaderProps) {
                 </div>
 
                 <nav className="header-nav">
-                    {['Studies', 'Data', 'Visualization'].map((item) => (
-                        <a
-                            key={item}
-                            href={`#${item.toLowerCase()}`}
-                            className="header-nav-link"
-                        >
-                            {item}
-                        </a>
-                    ))}
+                    {NAV_ROUTES.map((route) => {
+                        // Data and Visualization need a study to show
+                        const disabled = route.view !== null && urlState.study === null;
+                        const active = route.view === null
+                            ? urlState.study === null
+                            : urlState.study !== null && urlState.view === route.view;
+                        const target = routeState(route, urlState);
+
+                        return (
+                            <a
+                                key={route.label}
+                                href={buildUrl(target)}
+                                className={`header-nav-link ${active ? 'active' : ''} ${disabled ? 'disabled' : ''}`}
+                                aria-current={active ? 'page' : undefined}
+                                aria-disabled={disabled || undefined}
+                                title={disabled ? 'Select a study first' : undefined}
+                                onClick={(e) => {
+                                    // Modified clicks open the route in a new tab as usual
+                                    if (e.metaKey || e.ctrlKey || e.shiftKey || e.button !== 0) return;
+                                    e.preventDefault();
+                                    if (disabled) return;
+                                    // Through the store, so undo/redo and the session reset see it
+                                    if (route.view === null) dispatch({ type: 'selectStudy', study: null });
+                                    else dispatch({ type: 'setViewMode', view: route.view });
+                                }}
+                            >
+                                {route.label}
+                            </a>
+                        );
+                    })}
                 </nav>
 
-                <button
-                    className="theme-toggle"
-                    onClick={toggleTheme}
-                    aria-label={`Switch to ${isDark ? 'light' : 'dark'} mode`}
-                >
-                    <div className="theme-icon">
-                        {isDark ? <SunIcon /> : <MoonIcon />}
-                    </div>
-                </button>
+                <div className="header-actions">
+                    <WorkspaceMenu />
+
+                    <button
+                        className={`mock-toggle ${mockMode ? 'active' : ''}`}
+                        onClick={() => setMockMode(!mockMode)}
+                        aria-pressed={mockMode}
+                        title={mockMode
+                            ? 'Showing synthetic demo data. Click to use the backend.'
+                            : 'Using the backend. Click to show synthetic demo data.'}
+                    >
+                        Demo data
+                    </button>
+
+                    {!online && !mockMode && (
+                        <span
+                            className="offline-indicator"
+                            role="status"
+                            title="The backend is unreachable. Signals, study data and feature matrices are served from this browser's offline cache."
+                        >
+                            <span className="offline-dot" />
+                            Offline
+                            {cachedResponses > 0 && (
+                                <span className="offline-detail">
+                                    · {cachedResponses} cached {cachedResponses === 1 ? 'response' : 'responses'}
+                                </span>
+                            )}
+                        </span>
+                    )}
+
+                    <button
+                        className="theme-toggle"
+                        onClick={toggleTheme}
+                        aria-label={`Switch to ${isDark ? 'light' : 'dark'} mode`}
+                    >
+                        <div className="theme-icon">
+                            {isDark ? <SunIcon /> : <MoonIcon />}
+                        </div>
+                    </button>
+                </div>
             </div>
         </header>
     );
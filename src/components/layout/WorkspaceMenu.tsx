@@ -0,0 +1,194 @@
+import React, { memo, useState, useEffect, useRef, useCallback } from 'react';
+import { usePopane } from '../../context/PopaneContext';
+import { useWorkspaces } from '../../hooks/useWorkspaces';
+import { workspaceStore, Workspace, WorkspaceState } from '../../services/workspaces';
+import { downloadFile } from '../../services/download';
+import './WorkspaceMenu.css';
+
+interface MenuMessage {
+    kind: 'info' | 'error';
+    text: string;
+}
+
+function fileSlug(name: string): string {
+    return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'workspace';
+}
+
+function describe(state: WorkspaceState): string {
+    if (state.study === null) return 'Study list';
+    const subjects = state.subjects.length === 1 ? '1 subject' : `${state.subjects.length} subjects`;
+    return `Study ${state.study} · ${subjects} · ${state.view}`;
+}
+
+/**
+ * WorkspaceMenu - Save, restore and share named dashboard setups
+ * A workspace captures the selection, view, chart settings and feature-PCA result.
+ */
+const WorkspaceMenu = memo(function WorkspaceMenu(): React.JSX.Element {
+    const {
+        selectedStudy,
+        selectedSubjects,
+        viewMode,
+        settings,
+        showFeatureTable,
+        featurePCA,
+        dispatch,
+    } = usePopane();
+    const workspaces = useWorkspaces();
+    const [open, setOpen] = useState(false);
+    const [name, setName] = useState('');
+    const [message, setMessage] = useState<MenuMessage | null>(null);
+    const menuRef = useRef<HTMLDivElement>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    // Close on outside click or Escape
+    useEffect(() => {
+        if (!open) return;
+        const handlePointerDown = (e: MouseEvent) => {
+            if (menuRef.current && !menuRef.current.contains(e.target as Node)) setOpen(false);
+        };
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') setOpen(false);
+        };
+        document.addEventListener('mousedown', handlePointerDown);
+        document.addEventListener('keydown', handleKeyDown);
+        return () => {
+            document.removeEventListener('mousedown', handlePointerDown);
+            document.removeEventListener('keydown', handleKeyDown);
+        };
+    }, [open]);
+
+    const handleToggle = useCallback(() => {
+        setOpen(prev => !prev);
+        setMessage(null);
+    }, []);
+
+    const handleSave = useCallback((e: React.FormEvent) => {
+        e.preventDefault();
+        const trimmed = name.trim();
+        if (!trimmed) return;
+
+        workspaceStore.save(trimmed, {
+            study: selectedStudy,
+            subjects: selectedSubjects,
+            view: viewMode,
+            ...settings,
+            showFeatureTable,
+            featurePCA,
+        });
+        setName('');
+        setMessage({ kind: 'info', text: `Saved "${trimmed}".` });
+    }, [name, selectedStudy, selectedSubjects, viewMode, settings, showFeatureTable, featurePCA]);
+
+    const handleRestore = useCallback((workspace: Workspace) => {
+        dispatch({ type: 'restoreWorkspace', workspace: workspace.state });
+        setOpen(false);
+    }, [dispatch]);
+
+    const handleExport = useCallback((workspace: Workspace) => {
+        downloadFile(`popane-workspace-${fileSlug(workspace.name)}.json`, workspaceStore.toFile([workspace]), 'application/json');
+    }, []);
+
+    const handleExportAll = useCallback(() => {
+        downloadFile('popane-workspaces.json', workspaceStore.toFile(workspaces), 'application/json');
+    }, [workspaces]);
+
+    const handleImport = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        // Allow importing the same file again after fixing it
+        e.target.value = '';
+        if (!file) return;
+
+        file.text()
+            .then(text => {
+                const count = workspaceStore.importFile(text);
+                setMessage({ kind: 'info', text: `Imported ${count} workspace${count === 1 ? '' : 's'} from ${file.name}.` });
+            })
+            .catch((err: Error) => {
+                setMessage({ kind: 'error', text: err.message });
+            });
+    }, []);
+
+    return (
+        <div className="workspace-menu" ref={menuRef}>
+            <button
+                className={`workspace-toggle ${open ? 'active' : ''}`}
+                onClick={handleToggle}
+                aria-haspopup="true"
+                aria-expanded={open}
+            >
+                Workspaces{workspaces.length > 0 ? ` (${workspaces.length})` : ''}
+            </button>
+
+            {open && (
+                <div className="workspace-panel" role="dialog" aria-label="Workspaces">
+                    <form className="workspace-save" onSubmit={handleSave}>
+                        <input
+                            type="text"
+                            value={name}
+                            onChange={e => setName(e.target.value)}
+                            placeholder="Name this workspace"
+                            aria-label="Workspace name"
+                        />
+                        <button type="submit" disabled={!name.trim()}>Save</button>
+                    </form>
+
+                    {workspaces.length === 0 ? (
+                        <p className="workspace-empty">No saved workspaces yet.</p>
+                    ) : (
+                        <ul className="workspace-list">
+                            {workspaces.map(workspace => (
+                                <li key={workspace.name} className="workspace-item">
+                                    <button
+                                        className="workspace-restore"
+                                        onClick={() => handleRestore(workspace)}
+                                        title={`Saved ${new Date(workspace.savedAt).toLocaleString()}`}
+                                    >
+                                        <span className="workspace-name">{workspace.name}</span>
+                                        <span className="workspace-summary">{describe(workspace.state)}</span>
+                                    </button>
+                                    <button
+                                        className="workspace-action"
+                                        onClick={() => handleExport(workspace)}
+                                        aria-label={`Export ${workspace.name}`}
+                                        title="Export as JSON"
+                                    >
+                                        ⤓
+                                    </button>
+                                    <button
+                                        className="workspace-action"
+                                        onClick={() => workspaceStore.remove(workspace.name)}
+                                        aria-label={`Delete ${workspace.name}`}
+                                        title="Delete"
+                                    >
+                                        ×
+                                    </button>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+
+                    <div className="workspace-footer">
+                        <button onClick={() => fileInputRef.current?.click()}>Import…</button>
+                        <button onClick={handleExportAll} disabled={workspaces.length === 0}>Export all</button>
+                        <input
+                            ref={fileInputRef}
+                            type="file"
+                            accept="application/json,.json"
+                            onChange={handleImport}
+                            hidden
+                        />
+                    </div>
+
+                    {message && (
+                        <p className={`workspace-message ${message.kind}`} role={message.kind === 'error' ? 'alert' : 'status'}>
+                            {message.text}
+                        </p>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+});
+
+export default WorkspaceMenu;
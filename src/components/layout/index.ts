@@ -1,2 +1,3 @@
 export { default as Header } from './Header';
 export { default as InputBar } from './InputBar';
+export { default as WorkspaceMenu } from './WorkspaceMenu';
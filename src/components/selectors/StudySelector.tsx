@@ -1,5 +1,6 @@
 import React, { memo, useCallback } from 'react';
-import { STUDY_INFO, StudyMetadata } from '../../types/popane';
+import { StudyMetadata } from '../../types/popane';
+import { useStudies, useStudyStats } from '../../hooks/useDataFetching';
 import { Card } from '../ui';
 import './StudySelector.css';
 
@@ -17,10 +18,14 @@ const StudyCard = memo(function StudyCard({
     isSelected: boolean;
     onSelect: (studyNumber: number) => void;
 }): React.JSX.Element {
+    const { stats, loading: statsLoading } = useStudyStats(study.studyNumber);
+
     const handleClick = useCallback(() => {
         onSelect(study.studyNumber);
     }, [study.studyNumber, onSelect]);
 
+    const subjectCount = stats?.subjects ?? study.subjectCount;
+
     return (
         <Card
             selected={isSelected}
@@ -29,6 +34,28 @@ const StudyCard = memo(function StudyCard({
         >
             <h3>{study.name}</h3>
             <p className="study-description">{study.description}</p>
+            <dl className="study-stats">
+                <div>
+                    <dt>Subjects</dt>
+                    <dd>{subjectCount > 0 ? subjectCount : '—'}</dd>
+                </div>
+                <div>
+                    <dt>Samples</dt>
+                    <dd>{stats ? stats.totalRecords.toLocaleString() : statsLoading ? '…' : '—'}</dd>
+                </div>
+                {study.samplingRate !== undefined && (
+                    <div>
+                        <dt>Rate</dt>
+                        <dd>{study.samplingRate} Hz</dd>
+                    </div>
+                )}
+                {study.stimuli !== undefined && (
+                    <div>
+                        <dt>Stimuli</dt>
+                        <dd>{study.stimuli.filter(marker => marker > 0).length}</dd>
+                    </div>
+                )}
+            </dl>
             <div className="study-columns">
                 <span className="column-count">
                     {study.columns.length} measurements
@@ -50,11 +77,18 @@ const StudySelector = memo(function StudySelector({
     selectedStudy,
     onStudySelect,
 }: StudySelectorProps): React.JSX.Element {
+    const { studies, error } = useStudies();
+
     return (
         <div className="study-selector">
             <h2>Select a Study</h2>
+            {error && (
+                <p className="study-catalog-fallback">
+                    Study catalog unavailable, showing the built-in study list. ({error})
+                </p>
+            )}
             <div className="study-grid">
-                {STUDY_INFO.map((study: StudyMetadata) => (
+                {studies.map((study: StudyMetadata) => (
                     <StudyCard
                         key={study.studyNumber}
                         study={study}
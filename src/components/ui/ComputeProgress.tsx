@@ -0,0 +1,38 @@
+import React, { memo } from 'react';
+import './ComputeProgress.css';
+
+interface ComputeProgressProps {
+    computing: boolean;
+    progress: number | null;
+    error?: Error | null;
+    label?: string;
+}
+
+/**
+ * ComputeProgress - Small badge over a chart while the compute worker prepares its data
+ * The chart keeps showing its previous traces underneath; a failed computation stays visible.
+ */
+const ComputeProgress = memo(function ComputeProgress({
+    computing,
+    progress,
+    error = null,
+    label = 'Processing',
+}: ComputeProgressProps): React.JSX.Element | null {
+    if (error) {
+        return (
+            <div className="compute-progress failed" role="alert">
+                {label} failed: {error.message}
+            </div>
+        );
+    }
+    if (!computing) return null;
+
+    return (
+        <div className="compute-progress" role="status">
+            <span className="compute-progress-dot" />
+            {label}{progress !== null ? ` ${Math.round(progress * 100)}%` : '…'}
+        </div>
+    );
+});
+
+export default ComputeProgress;
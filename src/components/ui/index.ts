@@ -1,3 +1,4 @@
 export { default as Button } from './Button';
 export { default as LoadingSpinner } from './LoadingSpinner';
 export { Card, CardHeader, CardBody, CardFooter } from './Card';
+export { default as ComputeProgress } from './ComputeProgress';
@@ -1,26 +1,166 @@
-import React, { createContext, useContext, useState, useCallback, ReactNode } from 'react';
-import { StudyData, SubjectInfo, STUDY_COLUMNS } from '../types/popane';
+import React, { createContext, useContext, useReducer, useCallback, useEffect, useSyncExternalStore, ReactNode } from 'react';
+import { SubjectInfo, FeaturePCAResult } from '../types/popane';
 import { popaneApi } from '../services/popaneApi';
+import { queryCache } from '../services/queryCache';
+import { selectionHistory } from '../services/selectionHistory';
+import { StudyFrame } from '../services/studyFrame';
+import { urlStore, UrlState, ViewMode } from '../services/urlState';
+import { WorkspaceState } from '../services/workspaces';
+import { usePopaneQuery } from '../hooks/usePopaneQuery';
+import { useStudyDataStream, StudyDataProgress } from '../hooks/useStudyDataStream';
+import { useStudies, studyColumns } from '../hooks/useDataFetching';
+import { useUrlState } from '../hooks/useUrlState';
 
-interface PopaneState {
+// Per-chart settings; undefined means the chart's own default
+export type ViewSettings = Pick<UrlState, 'secondsPerEmotion' | 'signalFeatures' | 'pcaSampleSize' | 'fftFeature' | 'chartColumns' | 'timeWindow' | 'emotionGrouping' | 'baselineSeconds'>;
+
+// A failed page-level request and how to re-issue it
+export interface PageError {
+    title: string;
+    error: Error;
+    retry: () => void;
+}
+
+export interface PopaneState {
+    // Selection (kept in the URL so links and back/forward work)
     selectedStudy: number | null;
     selectedSubjects: number[];
+    viewMode: ViewMode;
+    settings: ViewSettings;
+    // Loaded data for the selection
+    columns: string[];
     subjects: SubjectInfo[];
-    data: StudyData[];
-    loading: boolean;
     subjectsLoading: boolean;
-    error: string | null;
+    data: StudyFrame;  // grows as pages arrive
+    loading: boolean;
+    dataProgress: StudyDataProgress;
+    error: PageError | null;
+    // Undo/redo over selection and settings changes
+    canUndo: boolean;
+    canRedo: boolean;
+    // Results computed in this session
+    showFeatureTable: boolean;
+    featurePCA: FeaturePCAResult | null;
+}
+
+export type PopaneAction =
+    | { type: 'selectStudy'; study: number | null }
+    | { type: 'selectSubjects'; subjects: number[] }
+    | { type: 'setViewMode'; view: ViewMode }
+    | { type: 'updateSettings'; settings: ViewSettings }
+    | { type: 'undo' }
+    | { type: 'redo' }
+    | { type: 'refresh' }
+    | { type: 'loadMoreData' }
+    | { type: 'loadAllData' }
+    | { type: 'dismissError'; error: Error }
+    | { type: 'showFeatureTable' }
+    | { type: 'setFeaturePCA'; result: FeaturePCAResult | null }
+    | { type: 'restoreWorkspace'; workspace: WorkspaceState }
+    | { type: 'selectionChanged'; selectionKey: string };
+
+interface SessionState {
+    dismissedError: Error | null;
+    // Study and subjects the results below were computed for
+    selectionKey: string;
+    showFeatureTable: boolean;
+    featurePCA: FeaturePCAResult | null;
+}
+
+interface PopaneContextType extends PopaneState {
+    dispatch: (action: PopaneAction) => void;
+}
+
+const NO_SUBJECTS: SubjectInfo[] = [];
+
+function selectionKey({ study, subjects }: Pick<UrlState, 'study' | 'subjects'>): string {
+    return `${study}:${subjects.join(',')}`;
+}
+
+function initialSession(url: UrlState): SessionState {
+    return {
+        dismissedError: null,
+        selectionKey: selectionKey(url),
+        showFeatureTable: false,
+        featurePCA: null,
+    };
 }
 
-interface PopaneActions {
-    setSelectedStudy: (study: number | null) => void;
-    setSelectedSubjects: (subjects: number[]) => void;
-    loadData: () => Promise<void>;
-    clearError: () => void;
-    getCurrentColumns: () => string[];
+export function isSingleSubjectView(view: ViewMode): boolean {
+    return view === 'signals' || view === 'features';
 }
 
-interface PopaneContextType extends PopaneState, PopaneActions {}
+// Selection actions become URL updates; null for actions that leave the URL alone
+function urlPatch(action: PopaneAction, current: UrlState): Partial<UrlState> | null {
+    switch (action.type) {
+        case 'selectStudy':
+            // A new study starts from a clean selection and chart defaults
+            return {
+                study: action.study,
+                subjects: [],
+                secondsPerEmotion: undefined,
+                signalFeatures: undefined,
+                pcaSampleSize: undefined,
+                fftFeature: undefined,
+                chartColumns: undefined,
+                timeWindow: undefined,
+                emotionGrouping: undefined,
+                baselineSeconds: undefined,
+            };
+        case 'selectSubjects':
+            return { subjects: action.subjects };
+        case 'setViewMode':
+            // Single-subject views keep only the first selected subject
+            return isSingleSubjectView(action.view) && current.subjects.length > 1
+                ? { view: action.view, subjects: [current.subjects[0]] }
+                : { view: action.view };
+        case 'updateSettings':
+            return action.settings;
+        case 'restoreWorkspace': {
+            // Every field is listed so settings missing from the workspace reset to defaults
+            const {
+                study, subjects, view, secondsPerEmotion, signalFeatures, pcaSampleSize, fftFeature, chartColumns, timeWindow,
+                emotionGrouping, baselineSeconds,
+            } = action.workspace;
+            return {
+                study, subjects, view, secondsPerEmotion, signalFeatures, pcaSampleSize, fftFeature, chartColumns, timeWindow,
+                emotionGrouping, baselineSeconds,
+            };
+        }
+        default:
+            return null;
+    }
+}
+
+function sessionReducer(state: SessionState, action: PopaneAction): SessionState {
+    switch (action.type) {
+        case 'dismissError':
+            return { ...state, dismissedError: action.error };
+        case 'showFeatureTable':
+            return { ...state, showFeatureTable: true };
+        case 'setFeaturePCA':
+            return { ...state, featurePCA: action.result };
+        case 'restoreWorkspace':
+            return {
+                ...state,
+                selectionKey: selectionKey(action.workspace),
+                showFeatureTable: action.workspace.showFeatureTable,
+                featurePCA: action.workspace.featurePCA,
+            };
+        case 'selectionChanged':
+            if (action.selectionKey === state.selectionKey) return state;
+            return { ...state, selectionKey: action.selectionKey, showFeatureTable: false, featurePCA: null };
+        default:
+            return state;
+    }
+}
+
+// Consecutive edits of the same settings may merge into one undo step
+function historyMergeKey(action: PopaneAction): string | undefined {
+    return action.type === 'updateSettings'
+        ? Object.keys(action.settings).sort().join(',')
+        : undefined;
+}
 
 const PopaneContext = createContext<PopaneContextType | undefined>(undefined);
 
@@ -28,80 +168,103 @@ interface PopaneProviderProps {
     children: ReactNode;
 }
 
+/**
+ * PopaneProvider - Application store for the current selection, its data and session results
+ * Read it with usePopane() and change it with dispatch({ type, ... }).
+ */
 export function PopaneProvider({ children }: PopaneProviderProps): React.JSX.Element {
-    const [selectedStudy, setSelectedStudyState] = useState<number | null>(null);
-    const [selectedSubjects, setSelectedSubjects] = useState<number[]>([]);
-    const [subjects, setSubjects] = useState<SubjectInfo[]>([]);
-    const [data, setData] = useState<StudyData[]>([]);
-    const [loading, setLoading] = useState(false);
-    const [subjectsLoading, setSubjectsLoading] = useState(false);
-    const [error, setError] = useState<string | null>(null);
-
-    const setSelectedStudy = useCallback(async (study: number | null) => {
-        setSelectedStudyState(study);
-        setSelectedSubjects([]);
-        setData([]);
-        setError(null);
-
-        if (study) {
-            setSubjectsLoading(true);
-            try {
-                const loadedSubjects = await popaneApi.getSubjects(study);
-                setSubjects(loadedSubjects);
-            } catch (err) {
-                setError(`Failed to load subjects: ${(err as Error).message}`);
-                setSubjects([]);
-            } finally {
-                setSubjectsLoading(false);
+    const [urlState, updateUrl] = useUrlState();
+    const [session, dispatchSession] = useReducer(sessionReducer, urlState, initialSession);
+    const { study: selectedStudy, subjects: selectedSubjects, view: viewMode } = urlState;
+
+    const history = useSyncExternalStore(selectionHistory.subscribe, selectionHistory.getSnapshot);
+
+    const { studies } = useStudies();
+    const columns = studyColumns(studies, selectedStudy);
+
+    const subjectsQuery = usePopaneQuery(
+        selectedStudy ? ['study/subjects', selectedStudy] : null,
+        signal => popaneApi.getSubjects(selectedStudy!, signal)
+    );
+    const subjects = subjectsQuery.data ?? NO_SUBJECTS;
+
+    const dataStream = useStudyDataStream(selectedStudy, selectedSubjects, subjects);
+    const { loadMore, loadAll } = dataStream;
+
+    const dispatch = useCallback((action: PopaneAction) => {
+        const current = urlStore.getSnapshot();
+        switch (action.type) {
+            case 'refresh':
+                queryCache.invalidate();
+                return;
+            case 'loadMoreData':
+                loadMore();
+                return;
+            case 'loadAllData':
+                loadAll();
+                return;
+            case 'undo':
+            case 'redo': {
+                const target = action.type === 'undo'
+                    ? selectionHistory.undo(current)
+                    : selectionHistory.redo(current);
+                // Stepping through undo history should not grow the browser's back stack
+                if (target) urlStore.navigate(target, { replace: true });
+                return;
             }
-        } else {
-            setSubjects([]);
         }
-    }, []);
-
-    const loadData = useCallback(async () => {
-        if (!selectedStudy || selectedSubjects.length === 0) return;
-
-        setLoading(true);
-        setError(null);
-
-        try {
-            const limitPerSubject = Math.floor(5000 / selectedSubjects.length);
-            const result = await popaneApi.getStudyData({
-                studyNumber: selectedStudy,
-                subjectIds: selectedSubjects,
-                limit: Math.max(limitPerSubject, 500) * selectedSubjects.length
-            });
-            setData(result);
-        } catch (err) {
-            setError(`Failed to load data: ${(err as Error).message}`);
-            setData([]);
-        } finally {
-            setLoading(false);
+
+        const patch = urlPatch(action, current);
+        if (patch) {
+            updateUrl(patch);
+            // navigate() skips no-op updates, so an unchanged snapshot means nothing to undo
+            if (urlStore.getSnapshot() !== current) {
+                selectionHistory.record(current, historyMergeKey(action));
+            }
         }
-    }, [selectedStudy, selectedSubjects]);
+        dispatchSession(action);
+    }, [updateUrl, loadMore, loadAll]);
 
-    const clearError = useCallback(() => {
-        setError(null);
-    }, []);
+    // Results computed for one selection are stale for the next, including after back/forward
+    const currentSelection = selectionKey(urlState);
+    useEffect(() => {
+        dispatchSession({ type: 'selectionChanged', selectionKey: currentSelection });
+    }, [currentSelection]);
+    const resultsCurrent = session.selectionKey === currentSelection;
 
-    const getCurrentColumns = useCallback(() => {
-        return selectedStudy ? STUDY_COLUMNS[selectedStudy] : [];
-    }, [selectedStudy]);
+    const pageError: PageError | null = subjectsQuery.error
+        ? { title: 'Failed to load subjects', error: subjectsQuery.error, retry: subjectsQuery.refetch }
+        : dataStream.error
+            ? { title: 'Failed to load data', error: dataStream.error, retry: dataStream.retry }
+            : null;
+    const error = pageError && pageError.error !== session.dismissedError ? pageError : null;
 
     const value: PopaneContextType = {
         selectedStudy,
         selectedSubjects,
+        viewMode,
+        settings: {
+            secondsPerEmotion: urlState.secondsPerEmotion,
+            signalFeatures: urlState.signalFeatures,
+            pcaSampleSize: urlState.pcaSampleSize,
+            fftFeature: urlState.fftFeature,
+            chartColumns: urlState.chartColumns,
+            timeWindow: urlState.timeWindow,
+            emotionGrouping: urlState.emotionGrouping,
+            baselineSeconds: urlState.baselineSeconds,
+        },
+        columns,
         subjects,
-        data,
-        loading,
-        subjectsLoading,
+        subjectsLoading: subjectsQuery.loading,
+        data: dataStream.data,
+        loading: dataStream.loading,
+        dataProgress: dataStream.progress,
         error,
-        setSelectedStudy,
-        setSelectedSubjects,
-        loadData,
-        clearError,
-        getCurrentColumns,
+        canUndo: history.canUndo,
+        canRedo: history.canRedo,
+        showFeatureTable: resultsCurrent && session.showFeatureTable,
+        featurePCA: resultsCurrent ? session.featurePCA : null,
+        dispatch,
     };
 
     return (
@@ -1,107 +1,110 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useCallback, useMemo } from 'react';
 import Plot from 'react-plotly.js';
 import {
     Header,
+    ApiErrorNotice,
+    DataLoadNotice,
     StudySelector,
     SubjectSelector,
     DataTable,
     PhysiologyChart,
     EmotionChart,
     PCAChart,
+    ReactivityTable,
     FeatureAnalysisChart,
     EmotionCountChart,
     FFTChart,
     ComprehensiveFeatureTable
 } from '../components';
-import { popaneApi } from '../services/popaneApi';
-import { StudyData, SubjectInfo, STUDY_COLUMNS } from '../types/popane';
 import { useTheme } from '../context/ThemeContext';
+import { usePopane, isSingleSubjectView } from '../context/PopaneContext';
+import { useUndoShortcuts } from '../hooks/useUndoShortcuts';
+import { useCompute } from '../hooks/useCompute';
+import { GroupIndicesTask } from '../services/computeProtocol';
+import { ViewMode } from '../services/urlState';
+import { EmotionGrouping, DEFAULT_EMOTION_GROUPING, emotionGroupOf } from '../services/emotionTaxonomy';
 import './HomePage.css';
 
-type ViewMode = 'table' | 'chart' | 'emotion' | 'pca' | 'signals' | 'features' | 'all';
-
-interface FeaturePCAData {
-    features: string[];
-    points: Array<{
-        subjectId: number;
-        emotion: string;
-        color: string;
-        pc1: number;
-        pc2: number;
-    }>;
-    variance: [number, number];
-}
-
 export default function HomePage() {
     const { isDark } = useTheme();
-    const [selectedStudy, setSelectedStudy] = useState<number | null>(null);
-    const [selectedSubjects, setSelectedSubjects] = useState<number[]>([]);
-    const [subjects, setSubjects] = useState<SubjectInfo[]>([]);
-    const [data, setData] = useState<StudyData[]>([]);
-    const [loading, setLoading] = useState(false);
-    const [subjectsLoading, setSubjectsLoading] = useState(false);
-    const [viewMode, setViewMode] = useState<ViewMode>('emotion');
-    const [error, setError] = useState<string | null>(null);
-    const [featurePCAData, setFeaturePCAData] = useState<FeaturePCAData | null>(null);
-    const [showComprehensiveTable, setShowComprehensiveTable] = useState(false);
+    const {
+        selectedStudy,
+        selectedSubjects,
+        viewMode,
+        settings,
+        columns: currentColumns,
+        subjects,
+        subjectsLoading,
+        data,
+        loading,
+        dataProgress,
+        error,
+        canUndo,
+        canRedo,
+        showFeatureTable,
+        featurePCA: featurePCAData,
+        dispatch,
+    } = usePopane();
 
-    // Load subjects when study changes
-    useEffect(() => {
-        if (selectedStudy) {
-            setSubjectsLoading(true);
-            setSelectedSubjects([]);
-            setData([]);
-            setError(null);
-            setShowComprehensiveTable(false);
-            setFeaturePCAData(null);
+    const handleStudySelect = useCallback((study: number) => {
+        dispatch({ type: 'selectStudy', study });
+    }, [dispatch]);
 
-            popaneApi.getSubjects(selectedStudy)
-                .then(setSubjects)
-                .catch(err => setError(`Failed to load subjects: ${err.message}`))
-                .finally(() => setSubjectsLoading(false));
-        } else {
-            setSubjects([]);
-            setSelectedSubjects([]);
-            setData([]);
-            setShowComprehensiveTable(false);
-            setFeaturePCAData(null);
-        }
-    }, [selectedStudy]);
+    const setSelectedSubjects = useCallback((subjects: number[]) => {
+        dispatch({ type: 'selectSubjects', subjects });
+    }, [dispatch]);
 
-    const loadData = useCallback(async () => {
-        if (!selectedStudy || selectedSubjects.length === 0) return;
+    const setViewMode = useCallback((view: ViewMode) => {
+        dispatch({ type: 'setViewMode', view });
+    }, [dispatch]);
 
-        setLoading(true);
-        setError(null);
+    // Points are grouped by emotion in the compute worker, one legend entry per emotion
+    const emotionGrouping = settings.emotionGrouping ?? DEFAULT_EMOTION_GROUPING;
+    const setEmotionGrouping = useCallback((grouping: EmotionGrouping) => {
+        dispatch({ type: 'updateSettings', settings: { emotionGrouping: grouping } });
+    }, [dispatch]);
 
-        try {
-            // Calculate limit per subject to balance data load
-            const limitPerSubject = Math.floor(5000 / selectedSubjects.length);
-            const result = await popaneApi.getStudyData({
-                studyNumber: selectedStudy,
-                subjectIds: selectedSubjects,
-                limit: Math.max(limitPerSubject, 500) * selectedSubjects.length
-            });
-            setData(result);
-        } catch (err) {
-            setError(`Failed to load data: ${(err as Error).message}`);
-            setData([]);
-        } finally {
-            setLoading(false);
-        }
-    }, [selectedStudy, selectedSubjects]);
+    const setBaselineSeconds = useCallback((baselineSeconds: number) => {
+        dispatch({ type: 'updateSettings', settings: { baselineSeconds } });
+    }, [dispatch]);
 
-    useEffect(() => {
-        loadData();
-    }, [loadData]);
+    const createPCAGrouping = useMemo(() => {
+        if (!featurePCAData) return null;
+        return (): GroupIndicesTask => ({
+            kind: 'groupIndices',
+            labels: featurePCAData.points.map(p => emotionGroupOf(p.emotion, emotionGrouping).label),
+        });
+    }, [featurePCAData, emotionGrouping]);
+    const pcaGrouping = useCompute(createPCAGrouping);
 
-    // Reset feature table when subjects change
-    useEffect(() => {
-        setShowComprehensiveTable(false);
-        setFeaturePCAData(null);
-    }, [selectedSubjects]);
+    const featurePCATraces = useMemo((): Plotly.Data[] => {
+        if (!featurePCAData || !pcaGrouping.result) return [];
+        return pcaGrouping.result.groups.map(({ label: emotion, indices }) => {
+            const points = Array.from(indices, i => featurePCAData.points[i]).filter(p => p !== undefined);
+            return {
+                type: 'scatter' as const,
+                mode: 'markers' as const,
+                name: emotion,
+                x: points.map(p => p.pc1),
+                y: points.map(p => p.pc2),
+                text: points.map(p => `Subject ${p.subjectId}<br>${p.emotion}`),
+                hovertemplate: '%{text}<br>PC1: %{x:.3f}<br>PC2: %{y:.3f}<extra></extra>',
+                marker: {
+                    color: points[0] && emotionGroupOf(points[0].emotion, emotionGrouping).color,
+                    size: 12,
+                    opacity: 0.8,
+                    line: {
+                        color: isDark ? '#1e293b' : '#fff',
+                        width: 1
+                    }
+                }
+            };
+        });
+    }, [featurePCAData, pcaGrouping.result, emotionGrouping, isDark]);
 
-    const currentColumns = selectedStudy ? STUDY_COLUMNS[selectedStudy] : [];
+    const undo = useCallback(() => dispatch({ type: 'undo' }), [dispatch]);
+    const redo = useCallback(() => dispatch({ type: 'redo' }), [dispatch]);
+    useUndoShortcuts(undo, redo);
 
     return (
         <div className="home-page">
@@ -109,16 +112,19 @@ export default function HomePage() {
 
             <main className="main-content">
                 {error && (
-                    <div className="error-banner">
-                        <span>{error}</span>
-                        <button onClick={() => setError(null)}>×</button>
-                    </div>
+                    <ApiErrorNotice
+                        variant="banner"
+                        title={error.title}
+                        error={error.error}
+                        onRetry={error.retry}
+                        onDismiss={() => dispatch({ type: 'dismissError', error: error.error })}
+                    />
                 )}
 
                 <section id="studies" className="section">
                     <StudySelector
                         selectedStudy={selectedStudy}
-                        onStudySelect={setSelectedStudy}
+                        onStudySelect={handleStudySelect}
                     />
                 </section>
 
@@ -130,7 +136,7 @@ export default function HomePage() {
                                 selectedSubjects={selectedSubjects}
                                 onSubjectSelect={setSelectedSubjects}
                                 loading={subjectsLoading}
-                                singleSelect={viewMode === 'signals' || viewMode === 'features'}
+                                singleSelect={isSingleSubjectView(viewMode)}
                             />
 
                             <div className="view-controls">
@@ -145,13 +151,7 @@ export default function HomePage() {
                                     </button>
                                     <button
                                         className={viewMode === 'signals' ? 'active' : ''}
-                                        onClick={() => {
-                                            setViewMode('signals');
-                                            // Keep only first subject when switching to signals mode
-                                            if (selectedSubjects.length > 1) {
-                                                setSelectedSubjects([selectedSubjects[0]]);
-                                            }
-                                        }}
+                                        onClick={() => setViewMode('signals')}
                                         title="Emotion-colored signals (POPANEpy style)"
                                     >
                                         Signals
@@ -165,13 +165,7 @@ export default function HomePage() {
                                     </button>
                                     <button
                                         className={viewMode === 'features' ? 'active' : ''}
-                                        onClick={() => {
-                                            setViewMode('features');
-                                            // Keep only first subject when switching to features mode
-                                            if (selectedSubjects.length > 1) {
-                                                setSelectedSubjects([selectedSubjects[0]]);
-                                            }
-                                        }}
+                                        onClick={() => setViewMode('features')}
                                         title="Time and frequency domain feature analysis"
                                     >
                                         Features
@@ -200,8 +194,17 @@ export default function HomePage() {
                                 </div>
                             </div>
 
+                            <div className="history-buttons">
+                                <button onClick={undo} disabled={!canUndo} title="Undo (Ctrl+Z)" aria-label="Undo">
+                                    ↶
+                                </button>
+                                <button onClick={redo} disabled={!canRedo} title="Redo (Ctrl+Shift+Z)" aria-label="Redo">
+                                    ↷
+                                </button>
+                            </div>
+
                             {selectedSubjects.length > 0 && (
-                                <button className="refresh-btn" onClick={loadData} disabled={loading}>
+                                <button className="refresh-btn" onClick={() => dispatch({ type: 'refresh' })} disabled={loading}>
                                     {loading ? 'Loading...' : 'Refresh Data'}
                                 </button>
                             )}
@@ -211,12 +214,21 @@ export default function HomePage() {
 
                 {selectedStudy && selectedSubjects.length > 0 && (
                     <div key={`viz-${selectedStudy}`}>
+                        <DataLoadNotice
+                            progress={dataProgress}
+                            loading={loading}
+                            onLoadMore={() => dispatch({ type: 'loadMoreData' })}
+                            onLoadAll={() => dispatch({ type: 'loadAllData' })}
+                        />
+
                         {/* Emotion Distribution Chart */}
                         {(viewMode === 'emotion' || viewMode === 'all') && (
                             <section id="emotion-viz" className="section">
                                 <EmotionCountChart
                                     studyNumber={selectedStudy}
                                     subjectIds={selectedSubjects}
+                                    grouping={emotionGrouping}
+                                    onGroupingChange={setEmotionGrouping}
                                 />
                             </section>
                         )}
@@ -228,6 +240,14 @@ export default function HomePage() {
                                     studyNumber={selectedStudy}
                                     subjectId={selectedSubjects[0]}
                                     initialFeatures={['ECG', 'EDA', 'SBP']}
+                                    features={settings.signalFeatures}
+                                    onFeaturesChange={signalFeatures => dispatch({ type: 'updateSettings', settings: { signalFeatures } })}
+                                    secondsPerEmotion={settings.secondsPerEmotion}
+                                    onSecondsPerEmotionChange={secondsPerEmotion => dispatch({ type: 'updateSettings', settings: { secondsPerEmotion } })}
+                                    timeWindow={settings.timeWindow ?? null}
+                                    onTimeWindowChange={timeWindow => dispatch({ type: 'updateSettings', settings: { timeWindow: timeWindow ?? undefined } })}
+                                    baselineSeconds={settings.baselineSeconds}
+                                    onBaselineSecondsChange={setBaselineSeconds}
                                 />
                             </section>
                         )}
@@ -239,7 +259,12 @@ export default function HomePage() {
                                     key={`pca-${selectedStudy}`}
                                     studyNumber={selectedStudy}
                                     subjectIds={selectedSubjects}
+                                    availableColumns={currentColumns}
                                     initialFeatures={['ECG', 'EDA', 'SBP', 'DBP']}
+                                    sampleSize={settings.pcaSampleSize}
+                                    onSampleSizeChange={pcaSampleSize => dispatch({ type: 'updateSettings', settings: { pcaSampleSize } })}
+                                    grouping={emotionGrouping}
+                                    onGroupingChange={setEmotionGrouping}
                                 />
                             </section>
                         )}
@@ -259,6 +284,8 @@ export default function HomePage() {
                                             feature="ECG"
                                             samplingRate={1000}
                                             height={500}
+                                            grouping={emotionGrouping}
+                                            onGroupingChange={setEmotionGrouping}
                                         />
                                     </div>
                                     <div className="feature-chart-card">
@@ -267,7 +294,8 @@ export default function HomePage() {
                                             studyNumber={selectedStudy}
                                             subjectId={selectedSubjects[0]}
                                             availableColumns={currentColumns}
-                                            feature="ECG"
+                                            feature={settings.fftFeature ?? 'ECG'}
+                                            onFeatureChange={fftFeature => dispatch({ type: 'updateSettings', settings: { fftFeature } })}
                                             maxFreq={2.0}
                                             height={400}
                                         />
@@ -275,7 +303,7 @@ export default function HomePage() {
 
                                     <div className="feature-chart-card" style={{ gridColumn: '1 / -1', textAlign: 'center', padding: '24px' }}>
                                         <button
-                                            onClick={() => setShowComprehensiveTable(true)}
+                                            onClick={() => dispatch({ type: 'showFeatureTable' })}
                                             style={{
                                                 padding: '12px 24px',
                                                 backgroundColor: isDark ? '#3b82f6' : '#2563eb',
@@ -301,13 +329,15 @@ export default function HomePage() {
                                         </p>
                                     </div>
 
-                                    {showComprehensiveTable && (
+                                    {showFeatureTable && (
                                         <div className="feature-chart-card" style={{ gridColumn: '1 / -1' }}>
                                             <h3>Comprehensive Feature Summary</h3>
                                             <ComprehensiveFeatureTable
                                                 studyNumber={selectedStudy}
                                                 subjectIds={subjects.map(s => s.id)}
                                                 availableColumns={currentColumns}
+                                                grouping={emotionGrouping}
+                                                onGroupingChange={setEmotionGrouping}
                                                 onGeneratePCA={(features, tableData, variance) => {
                                                     if (tableData.length > 0) {
                                                         const pcaPoints = tableData.map(d => ({
@@ -317,10 +347,13 @@ export default function HomePage() {
                                                             pc1: d.pc1 ?? 0,
                                                             pc2: d.pc2 ?? 0
                                                         }));
-                                                        setFeaturePCAData({
-                                                            features,
-                                                            points: pcaPoints,
-                                                            variance: variance ?? [50, 50]
+                                                        dispatch({
+                                                            type: 'setFeaturePCA',
+                                                            result: {
+                                                                features,
+                                                                points: pcaPoints,
+                                                                variance: variance ?? [50, 50]
+                                                            }
                                                         });
                                                     }
                                                 }}
@@ -334,35 +367,7 @@ export default function HomePage() {
                                                         PCA from Engineered Features
                                                     </h4>
                                                     <Plot
-                                                        data={(() => {
-                                                            // Group points by emotion for legend
-                                                            const emotionGroups = new Map<string, typeof featurePCAData.points>();
-                                                            featurePCAData.points.forEach(p => {
-                                                                if (!emotionGroups.has(p.emotion)) {
-                                                                    emotionGroups.set(p.emotion, []);
-                                                                }
-                                                                emotionGroups.get(p.emotion)!.push(p);
-                                                            });
-
-                                                            return Array.from(emotionGroups.entries()).map(([emotion, points]) => ({
-                                                                type: 'scatter' as const,
-                                                                mode: 'markers' as const,
-                                                                name: emotion,
-                                                                x: points.map(p => p.pc1),
-                                                                y: points.map(p => p.pc2),
-                                                                text: points.map(p => `Subject ${p.subjectId}<br>${p.emotion}`),
-                                                                hovertemplate: '%{text}<br>PC1: %{x:.3f}<br>PC2: %{y:.3f}<extra></extra>',
-                                                                marker: {
-                                                                    color: points[0].color,
-                                                                    size: 12,
-                                                                    opacity: 0.8,
-                                                                    line: {
-                                                                        color: isDark ? '#1e293b' : '#fff',
-                                                                        width: 1
-                                                                    }
-                                                                }
-                                                            }));
-                                                        })()}
+                                                        data={featurePCATraces}
                                                         layout={{
                                                             title: { text: `PCA from ${featurePCAData.features.length} Features` },
                                                             xaxis: {
@@ -421,6 +426,18 @@ export default function HomePage() {
                                     data={data}
                                     columns={currentColumns}
                                     title={`Study ${selectedStudy} - ${selectedSubjects.length} Subject${selectedSubjects.length > 1 ? 's' : ''}`}
+                                    selectedColumns={settings.chartColumns}
+                                    onSelectedColumnsChange={chartColumns => dispatch({ type: 'updateSettings', settings: { chartColumns } })}
+                                    baselineSeconds={settings.baselineSeconds}
+                                    onBaselineSecondsChange={setBaselineSeconds}
+                                />
+                                <ReactivityTable
+                                    studyNumber={selectedStudy}
+                                    data={data}
+                                    columns={currentColumns}
+                                    progress={dataProgress}
+                                    baselineSeconds={settings.baselineSeconds}
+                                    onBaselineSecondsChange={setBaselineSeconds}
                                 />
                             </section>
                         )}
@@ -431,7 +448,7 @@ export default function HomePage() {
                                 <DataTable
                                     data={data}
                                     columns={currentColumns}
-                                    loading={loading}
+                                    loading={loading && data.length === 0}
                                 />
                             </section>
                         )}
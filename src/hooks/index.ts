@@ -1,8 +1,19 @@
 // Hooks barrel export
 export {
-    useStudyData,
-    useSubjects,
+    useStudies,
+    useStudyStats,
+    studyColumns,
     usePagination,
     useSorting,
     useSearch,
 } from './useDataFetching';
+export { usePopaneQuery } from './usePopaneQuery';
+export { useConnectionStatus } from './useConnectionStatus';
+export { useMockMode } from './useMockMode';
+export { useUrlState } from './useUrlState';
+export { useUndoShortcuts } from './useUndoShortcuts';
+export { useWorkspaces } from './useWorkspaces';
+export { usePlotResolution } from './usePlotResolution';
+export { useCompute } from './useCompute';
+export { useLinkedAxes, crosshairLayout } from './useLinkedAxes';
+export { useStudyDataStream } from './useStudyDataStream';
@@ -0,0 +1,67 @@
+import { useState, useEffect } from 'react';
+import { computeClient } from '../services/computeClient';
+import { ComputeTask, ComputeResult } from '../services/computeProtocol';
+import { isAbortError } from '../services/apiError';
+
+interface ComputeHookOptions {
+    // Transfer the task's typed arrays to the worker; safe when createTask builds them fresh
+    transfer?: boolean;
+}
+
+export interface ComputeState<R> {
+    result: R | undefined;
+    computing: boolean;
+    progress: number | null;  // 0..1 while computing
+    error: Error | null;
+}
+
+/**
+ * useCompute - Runs a compute task in the worker whenever `createTask` changes
+ * Memoize `createTask` with useCallback; pass null to skip. The previous result
+ * stays available while a new one is computed, and stale runs are cancelled.
+ */
+export function useCompute<T extends ComputeTask>(
+    createTask: (() => T) | null,
+    { transfer = false }: ComputeHookOptions = {}
+): ComputeState<ComputeResult<T>> {
+    const [result, setResult] = useState<ComputeResult<T> | undefined>(undefined);
+    const [computing, setComputing] = useState(false);
+    const [progress, setProgress] = useState<number | null>(null);
+    const [error, setError] = useState<Error | null>(null);
+
+    useEffect(() => {
+        if (!createTask) {
+            setResult(undefined);
+            setComputing(false);
+            setProgress(null);
+            return;
+        }
+
+        // Built here rather than during render: a transferred task is unusable afterwards
+        const controller = new AbortController();
+        setComputing(true);
+        setError(null);
+
+        computeClient.run(createTask(), {
+            signal: controller.signal,
+            transfer,
+            onProgress: (done, total) => setProgress(total > 0 ? done / total : null),
+        })
+            .then(setResult)
+            .catch(err => {
+                if (isAbortError(err)) return;
+                setError(err instanceof Error ? err : new Error(String(err)));
+            })
+            .finally(() => {
+                if (controller.signal.aborted) return;
+                setComputing(false);
+                setProgress(null);
+            });
+
+        return () => controller.abort();
+    }, [createTask, transfer]);
+
+    return { result, computing, progress, error };
+}
+
+export default useCompute;
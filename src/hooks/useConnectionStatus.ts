@@ -0,0 +1,11 @@
+import { useSyncExternalStore } from 'react';
+import { connectionStatus, ConnectionState } from '../services/connectionStatus';
+
+/**
+ * useConnectionStatus - Current backend reachability and offline cache usage
+ */
+export function useConnectionStatus(): ConnectionState {
+    return useSyncExternalStore(connectionStatus.subscribe, connectionStatus.getSnapshot);
+}
+
+export default useConnectionStatus;
@@ -1,74 +1,45 @@
 import { useState, useEffect, useCallback, useMemo } from 'react';
-import { StudyData, SubjectInfo } from '../types/popane';
+import { StudyMetadata, STUDY_INFO, STUDY_COLUMNS } from '../types/popane';
 import { popaneApi } from '../services/popaneApi';
+import { usePopaneQuery } from './usePopaneQuery';
 
-export function useStudyData(studyNumber: number | null, subjectIds: number[]) {
-    const [data, setData] = useState<StudyData[]>([]);
-    const [loading, setLoading] = useState(false);
-    const [error, setError] = useState<string | null>(null);
+const NO_COLUMNS: string[] = [];
 
-    const fetchData = useCallback(async () => {
-        if (!studyNumber || subjectIds.length === 0) {
-            setData([]);
-            return;
-        }
-
-        setLoading(true);
-        setError(null);
-
-        try {
-            const limitPerSubject = Math.floor(5000 / subjectIds.length);
-            const result = await popaneApi.getStudyData({
-                studyNumber,
-                subjectIds,
-                limit: Math.max(limitPerSubject, 500) * subjectIds.length
-            });
-            setData(result);
-        } catch (err) {
-            setError(`Failed to load data: ${(err as Error).message}`);
-            setData([]);
-        } finally {
-            setLoading(false);
-        }
-    }, [studyNumber, subjectIds]);
+// The catalog rarely changes while the app is open
+const STUDIES_TTL_MS = 30 * 60 * 1000;
 
-    useEffect(() => {
-        fetchData();
-    }, [fetchData]);
+// Study catalog from the backend, falling back to the static STUDY_INFO table until it loads or if it fails
+export function useStudies() {
+    const { data, loading, error, refetch } = usePopaneQuery(
+        ['studies'],
+        signal => popaneApi.getStudies(signal),
+        { ttlMs: STUDIES_TTL_MS }
+    );
 
-    return { data, loading, error, refetch: fetchData };
+    return {
+        studies: data ?? STUDY_INFO,
+        isFallback: data === undefined,
+        loading,
+        error: error ? `Failed to load studies: ${error.message}` : null,
+        refetch,
+    };
 }
 
-export function useSubjects(studyNumber: number | null) {
-    const [subjects, setSubjects] = useState<SubjectInfo[]>([]);
-    const [loading, setLoading] = useState(false);
-    const [error, setError] = useState<string | null>(null);
+export function studyColumns(studies: StudyMetadata[], studyNumber: number | null): string[] {
+    if (!studyNumber) return NO_COLUMNS;
+    const study = studies.find(s => s.studyNumber === studyNumber);
+    return study?.columns ?? STUDY_COLUMNS[studyNumber] ?? NO_COLUMNS;
+}
 
-    useEffect(() => {
-        if (!studyNumber) {
-            setSubjects([]);
-            return;
-        }
+// Record and subject totals shown on each study card
+export function useStudyStats(studyNumber: number | null) {
+    const { data, loading, error } = usePopaneQuery(
+        studyNumber ? ['study/stats', studyNumber] : null,
+        signal => popaneApi.getStudyStats(studyNumber!, signal),
+        { ttlMs: STUDIES_TTL_MS }
+    );
 
-        const fetchSubjects = async () => {
-            setLoading(true);
-            setError(null);
-
-            try {
-                const result = await popaneApi.getSubjects(studyNumber);
-                setSubjects(result);
-            } catch (err) {
-                setError(`Failed to load subjects: ${(err as Error).message}`);
-                setSubjects([]);
-            } finally {
-                setLoading(false);
-            }
-        };
-
-        fetchSubjects();
-    }, [studyNumber]);
-
-    return { subjects, loading, error };
+    return { stats: data ?? null, loading, error };
 }
 
 export function usePagination<T>(items: T[], itemsPerPage: number = 25) {
@@ -111,14 +82,22 @@ export function usePagination<T>(items: T[], itemsPerPage: number = 25) {
     };
 }
 
-export function useSorting<T>(items: T[], defaultColumn: string = 'timestamp') {
+// Reads one column of an item; the default treats items as plain records
+export type ColumnAccessor<T> = (column: string) => (item: T) => unknown;
+
+function recordField<T>(column: string): (item: T) => unknown {
+    return item => (item as Record<string, unknown>)[column];
+}
+
+export function useSorting<T>(items: T[], defaultColumn: string = 'timestamp', accessor: ColumnAccessor<T> = recordField) {
     const [sortColumn, setSortColumn] = useState(defaultColumn);
     const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('asc');
 
     const sortedItems = useMemo(() => {
+        const valueOf = accessor(sortColumn);
         return [...items].sort((a, b) => {
-            const aVal = (a as Record<string, unknown>)[sortColumn];
-            const bVal = (b as Record<string, unknown>)[sortColumn];
+            const aVal = valueOf(a);
+            const bVal = valueOf(b);
 
             if (aVal === undefined || aVal === null) return 1;
             if (bVal === undefined || bVal === null) return -1;
@@ -126,7 +105,7 @@ export function useSorting<T>(items: T[], defaultColumn: string = 'timestamp') {
             const comparison = aVal < bVal ? -1 : aVal > bVal ? 1 : 0;
             return sortDirection === 'asc' ? comparison : -comparison;
         });
-    }, [items, sortColumn, sortDirection]);
+    }, [items, sortColumn, sortDirection, accessor]);
 
     const toggleSort = useCallback((column: string) => {
         if (sortColumn === column) {
@@ -145,20 +124,20 @@ export function useSorting<T>(items: T[], defaultColumn: string = 'timestamp') {
     };
 }
 
-export function useSearch<T>(items: T[], searchFields?: (keyof T)[]) {
+// Builds a test for a lowercased search term; the default matches any field of a plain record
+export type SearchMatcher<T> = (term: string) => (item: T) => boolean;
+
+function anyRecordField<T>(term: string): (item: T) => boolean {
+    return item => Object.values(item as object).some(value => String(value).toLowerCase().includes(term));
+}
+
+export function useSearch<T>(items: T[], matcher: SearchMatcher<T> = anyRecordField) {
     const [searchTerm, setSearchTerm] = useState('');
 
     const filteredItems = useMemo(() => {
         if (!searchTerm) return items;
-
-        return items.filter((item) => {
-            const fieldsToSearch = searchFields || Object.keys(item as object) as (keyof T)[];
-            return fieldsToSearch.some((field) => {
-                const value = item[field];
-                return String(value).toLowerCase().includes(searchTerm.toLowerCase());
-            });
-        });
-    }, [items, searchTerm, searchFields]);
+        return items.filter(matcher(searchTerm.toLowerCase()));
+    }, [items, searchTerm, matcher]);
 
     const clearSearch = useCallback(() => setSearchTerm(''), []);
 
@@ -0,0 +1,105 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+
+export interface LinkedAxes {
+    xRange: [number, number] | null;
+    hoverX: number | null;
+    // Bumped by resetAll; part of every panel's uirevision so their own y zoom is dropped too
+    resetCount: number;
+    setXRange: (range: [number, number] | null) => void;
+    setHoverX: (x: number | null) => void;
+    resetAll: () => void;
+}
+
+export interface CrosshairReadout {
+    label: string;
+    value: number | null;
+    color?: string;
+}
+
+/**
+ * useLinkedAxes - Shared x-range and hover position for a stack of plots
+ * Pass it to each panel's usePlotResolution so zooming or panning one panel zooms
+ * them all, and draw `hoverX` with crosshairLayout. A new `resetKey` drops the zoom.
+ */
+export function useLinkedAxes(resetKey?: unknown): LinkedAxes {
+    const [xRange, setXRange] = useState<[number, number] | null>(null);
+    const [hoverX, setHoverXNow] = useState<number | null>(null);
+    const [resetCount, setResetCount] = useState(0);
+    const pendingHover = useRef<number | null>(null);
+    const hoverFrame = useRef<number | null>(null);
+
+    useEffect(() => {
+        setXRange(null);
+    }, [resetKey]);
+
+    // Hover fires on every mouse move; the panels re-render at most once per frame
+    const setHoverX = useCallback((x: number | null) => {
+        pendingHover.current = x;
+        if (hoverFrame.current !== null) return;
+        hoverFrame.current = requestAnimationFrame(() => {
+            hoverFrame.current = null;
+            setHoverXNow(pendingHover.current);
+        });
+    }, []);
+
+    useEffect(() => () => {
+        if (hoverFrame.current !== null) cancelAnimationFrame(hoverFrame.current);
+    }, []);
+
+    const resetAll = useCallback(() => {
+        setXRange(null);
+        setResetCount(c => c + 1);
+    }, []);
+
+    return useMemo(
+        () => ({ xRange, hoverX, resetCount, setXRange, setHoverX, resetAll }),
+        [xRange, hoverX, resetCount, setHoverX, resetAll]
+    );
+}
+
+// Vertical line at the linked hover position with each trace's value there
+export function crosshairLayout(
+    hoverX: number | null,
+    readouts: CrosshairReadout[],
+    isDark: boolean
+): Pick<Plotly.Layout, 'shapes' | 'annotations'> {
+    if (hoverX === null || !Number.isFinite(hoverX)) return { shapes: [], annotations: [] };
+
+    const lineColor = isDark ? 'rgba(255,255,255,0.5)' : 'rgba(0,0,0,0.45)';
+    const text = readouts
+        .map(({ label, value, color }) => {
+            const formatted = value === null ? '–' : value.toFixed(4);
+            return color ? `<span style="color:${color}">${label}</span>: ${formatted}` : `${label}: ${formatted}`;
+        })
+        .join('<br>');
+
+    return {
+        shapes: [{
+            type: 'line',
+            xref: 'x',
+            yref: 'paper',
+            x0: hoverX,
+            x1: hoverX,
+            y0: 0,
+            y1: 1,
+            line: { color: lineColor, width: 1, dash: 'dot' },
+        }],
+        annotations: readouts.length > 0 ? [{
+            x: hoverX,
+            xref: 'x',
+            y: 1,
+            yref: 'paper',
+            xanchor: 'left',
+            yanchor: 'top',
+            align: 'left',
+            showarrow: false,
+            text,
+            font: { size: 10, color: isDark ? '#e5e7eb' : '#1f2937' },
+            bgcolor: isDark ? 'rgba(30,30,30,0.85)' : 'rgba(255,255,255,0.85)',
+            bordercolor: lineColor,
+            borderwidth: 1,
+        }] : [],
+    };
+}
+
+export default useLinkedAxes;
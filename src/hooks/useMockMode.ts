@@ -0,0 +1,20 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import { popaneApi } from '../services/popaneApi';
+import { queryCache } from '../services/queryCache';
+
+/**
+ * useMockMode - Whether popaneApi is serving the in-browser mock backend
+ * Switching modes drops every cached response so all views refetch from the new source.
+ */
+export function useMockMode(): [boolean, (useMock: boolean) => void] {
+    const mockMode = useSyncExternalStore(popaneApi.subscribeMockMode, popaneApi.isMockMode);
+
+    const setMockMode = useCallback((useMock: boolean) => {
+        popaneApi.setMockMode(useMock);
+        queryCache.invalidate();
+    }, []);
+
+    return [mockMode, setMockMode];
+}
+
+export default useMockMode;
@@ -0,0 +1,73 @@
+import { useState, useEffect, useCallback, useRef, RefObject } from 'react';
+import { LinkedAxes } from './useLinkedAxes';
+
+// Two points per pixel keeps min and max of every pixel column
+const POINTS_PER_PIXEL = 2;
+const DEFAULT_WIDTH = 800;
+// Ignore sub-step width changes so resizing does not resample on every frame
+const WIDTH_STEP = 50;
+
+export interface PlotResolution {
+    containerRef: RefObject<HTMLDivElement | null>;
+    maxPoints: number;
+    xRange: [number, number] | null;
+    // Use as layout.uirevision: kept while resampling, changed when the data is replaced
+    revision: string;
+    handleRelayout: (event: Readonly<Plotly.PlotRelayoutEvent>) => void;
+}
+
+/**
+ * usePlotResolution - Point budget and zoomed x-range for a Plotly plot
+ * Attach `containerRef` to the plot's wrapper and `handleRelayout` to its onRelayout;
+ * downsample each trace to `maxPoints` within `xRange` (null when not zoomed).
+ * A new `data` value drops the zoom, since it may not cover the old range. With a
+ * `link` the x-range is shared by every plot on it and set as the plot's xaxis.range.
+ */
+export function usePlotResolution(data?: unknown, link?: LinkedAxes): PlotResolution {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const [width, setWidth] = useState(DEFAULT_WIDTH);
+    const [ownRange, setOwnRange] = useState<[number, number] | null>(null);
+    const [revision, setRevision] = useState(0);
+
+    // A linked range is reset by its owner, which knows when it stops applying
+    useEffect(() => {
+        setOwnRange(null);
+        setRevision(r => r + 1);
+    }, [data]);
+
+    const setXRange = link?.setXRange ?? setOwnRange;
+
+    useEffect(() => {
+        const element = containerRef.current;
+        if (!element || typeof ResizeObserver === 'undefined') return;
+
+        const observer = new ResizeObserver(entries => {
+            const measured = entries[0]?.contentRect.width ?? 0;
+            if (measured > 0) setWidth(Math.ceil(measured / WIDTH_STEP) * WIDTH_STEP);
+        });
+        observer.observe(element);
+        return () => observer.disconnect();
+    }, []);
+
+    const handleRelayout = useCallback((event: Readonly<Plotly.PlotRelayoutEvent>) => {
+        if (event['xaxis.autorange']) {
+            setXRange(null);
+            return;
+        }
+        const start = event['xaxis.range[0]'];
+        const end = event['xaxis.range[1]'];
+        if (start !== undefined && end !== undefined) {
+            setXRange([Number(start), Number(end)]);
+        }
+    }, [setXRange]);
+
+    return {
+        containerRef,
+        maxPoints: width * POINTS_PER_PIXEL,
+        xRange: link ? link.xRange : ownRange,
+        revision: link ? `${revision}:${link.resetCount}` : String(revision),
+        handleRelayout,
+    };
+}
+
+export default usePlotResolution;
@@ -0,0 +1,98 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { queryCache, hashQueryKey, QueryKey, DEFAULT_TTL_MS } from '../services/queryCache';
+import { isAbortError } from '../services/apiError';
+
+interface PopaneQueryOptions {
+    ttlMs?: number;
+}
+
+export interface PopaneQueryResult<T> {
+    data: T | undefined;
+    loading: boolean;
+    error: Error | null;
+    refetch: () => void;
+}
+
+/**
+ * usePopaneQuery - Reads a popaneApi call through the shared query cache
+ * Pass `null` as the key to skip fetching. Changing the key or unmounting
+ * cancels this component's interest in the pending request; `refetch` and
+ * `queryCache.invalidate()` force a fresh request.
+ */
+export function usePopaneQuery<T>(
+    queryKey: QueryKey | null,
+    queryFn: (signal: AbortSignal) => Promise<T>,
+    { ttlMs = DEFAULT_TTL_MS }: PopaneQueryOptions = {}
+): PopaneQueryResult<T> {
+    const keyHash = queryKey ? hashQueryKey(queryKey) : null;
+
+    const [data, setData] = useState<T | undefined>(() =>
+        queryKey ? queryCache.peek<T>(queryKey) : undefined
+    );
+    const [loading, setLoading] = useState(() => queryKey !== null && data === undefined);
+    const [error, setError] = useState<Error | null>(null);
+    const [version, setVersion] = useState(0);
+
+    // Latest key/fn without making them effect dependencies (the hash covers the key)
+    const keyRef = useRef(queryKey);
+    const fnRef = useRef(queryFn);
+    keyRef.current = queryKey;
+    fnRef.current = queryFn;
+
+    useEffect(() => {
+        const key = keyRef.current;
+        if (!key) {
+            setData(undefined);
+            setLoading(false);
+            setError(null);
+            return;
+        }
+
+        const cached = queryCache.peek<T>(key);
+        if (cached !== undefined) {
+            setData(cached);
+            setLoading(false);
+            setError(null);
+            return;
+        }
+
+        const controller = new AbortController();
+        setLoading(true);
+        setError(null);
+
+        queryCache.fetch(key, fnRef.current, { ttlMs, signal: controller.signal })
+            .then(result => {
+                setData(result);
+            })
+            .catch(err => {
+                if (isAbortError(err)) return;
+                setError(err instanceof Error ? err : new Error(String(err)));
+            })
+            .finally(() => {
+                if (!controller.signal.aborted) setLoading(false);
+            });
+
+        return () => controller.abort();
+    }, [keyHash, ttlMs, version]);
+
+    // Refetch when another component invalidates this key (e.g. "Refresh Data")
+    useEffect(() => {
+        if (!keyHash) return;
+        return queryCache.subscribe(invalidated => {
+            if (invalidated.has(keyHash)) {
+                setVersion(v => v + 1);
+            }
+        });
+    }, [keyHash]);
+
+    const refetch = useCallback(() => {
+        if (keyRef.current) {
+            queryCache.invalidate(keyRef.current);
+        }
+        setVersion(v => v + 1);
+    }, []);
+
+    return { data, loading, error, refetch };
+}
+
+export default usePopaneQuery;
@@ -0,0 +1,85 @@
+import React from 'react';
+import { renderHook, waitFor } from '@testing-library/react';
+import { useStudyDataStream, PAGE_SIZE } from './useStudyDataStream';
+import { popaneApi } from '../services/popaneApi';
+import { queryCache } from '../services/queryCache';
+import { StudyFrame } from '../services/studyFrame';
+import { QueryParams, SubjectInfo } from '../types/popane';
+
+jest.mock('../services/popaneApi', () => ({
+    popaneApi: { getStudyFrame: jest.fn() },
+}));
+
+const getStudyFrame = popaneApi.getStudyFrame as jest.MockedFunction<typeof popaneApi.getStudyFrame>;
+
+const RECORD_COUNT = PAGE_SIZE + 2000;
+const SUBJECTS: SubjectInfo[] = [
+    { id: 1, studyNumber: 1, recordCount: RECORD_COUNT },
+    { id: 2, studyNumber: 1, recordCount: RECORD_COUNT },
+];
+
+function page(subjectId: number, rows: number): StudyFrame {
+    return StudyFrame.fromColumns(
+        new Int32Array(rows).fill(subjectId),
+        new Int32Array(rows).fill(101),
+        new Map([['ECG', new Float64Array(rows)]])
+    );
+}
+
+// Pages arrive on a later task, so effects can be torn down while they are in flight
+function serveRecordings(): void {
+    getStudyFrame.mockImplementation((params: QueryParams, signal?: AbortSignal) => new Promise((resolve, reject) => {
+        const timer = setTimeout(() => {
+            const offset = params.offset ?? 0;
+            resolve(page(params.subjectId!, Math.min(PAGE_SIZE, RECORD_COUNT - offset)));
+        }, 5);
+        signal?.addEventListener('abort', () => {
+            clearTimeout(timer);
+            const err = new Error('aborted');
+            err.name = 'AbortError';
+            reject(err);
+        });
+    }));
+}
+
+describe('useStudyDataStream', () => {
+    beforeEach(() => {
+        queryCache.invalidate();
+        getStudyFrame.mockReset();
+        serveRecordings();
+    });
+
+    it('finishes loading after a StrictMode remount aborts the first pages', async () => {
+        const { result } = renderHook(() => useStudyDataStream(1, [1, 2], SUBJECTS), {
+            wrapper: React.StrictMode,
+        });
+
+        await waitFor(() => expect(result.current.progress.complete).toBe(true));
+        expect(result.current.loading).toBe(false);
+        expect(result.current.error).toBeNull();
+        expect(result.current.data.length).toBe(2 * RECORD_COUNT);
+        expect(result.current.progress.subjects.map(s => s.state)).toEqual(['complete', 'complete']);
+    });
+
+    it('finishes loading when the selection changes away and back mid-page', async () => {
+        const { result, rerender } = renderHook(
+            ({ subjectIds }) => useStudyDataStream(1, subjectIds, SUBJECTS),
+            { initialProps: { subjectIds: [1, 2] } }
+        );
+        rerender({ subjectIds: [2] });
+        rerender({ subjectIds: [1, 2] });
+
+        await waitFor(() => expect(result.current.progress.complete).toBe(true));
+        expect(result.current.error).toBeNull();
+        expect(result.current.data.subjects).toEqual([1, 2]);
+    });
+
+    it('reports a page failure instead of leaving the subject queued', async () => {
+        getStudyFrame.mockImplementation(() => Promise.reject(new Error('Server error')));
+        const { result } = renderHook(() => useStudyDataStream(1, [1], SUBJECTS));
+
+        await waitFor(() => expect(result.current.error?.message).toBe('Server error'));
+        expect(result.current.loading).toBe(false);
+        expect(result.current.progress.subjects[0].state).toBe('error');
+    });
+});
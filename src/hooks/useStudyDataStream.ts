@@ -0,0 +1,246 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { SubjectInfo } from '../types/popane';
+import { popaneApi } from '../services/popaneApi';
+import { queryCache, hashQueryKey, QueryKey } from '../services/queryCache';
+import { StudyFrame } from '../services/studyFrame';
+
+// Rows per request (20 s of a 250 Hz recording); pages are cached individually
+export const PAGE_SIZE = 5000;
+// Samples loaded for a selection before the user asks for more, shared evenly by its subjects
+const SAMPLE_BUDGET = 120000;
+// Subjects downloaded side by side; the rest wait so the first ones can be shown early
+const CONCURRENT_SUBJECTS = 2;
+// Merging the pages copies every row, so while they stream in it runs at most this often
+const MERGE_INTERVAL_MS = 500;
+
+const NO_DATA = StudyFrame.empty();
+
+export type SubjectLoadState = 'queued' | 'loading' | 'paused' | 'complete' | 'error';
+
+export interface SubjectLoadProgress {
+    subjectId: number;
+    loaded: number;
+    total: number | null;  // samples in the recording; null until known
+    state: SubjectLoadState;  // 'paused' = stopped at the sample budget
+}
+
+export interface StudyDataProgress {
+    subjects: SubjectLoadProgress[];
+    loaded: number;
+    total: number | null;  // null while any subject's total is unknown
+    complete: boolean;  // every recording is loaded in full
+}
+
+export interface StudyDataStream {
+    data: StudyFrame;
+    loading: boolean;
+    error: Error | null;
+    progress: StudyDataProgress;
+    loadMore: () => void;
+    loadAll: () => void;
+    retry: () => void;
+}
+
+interface SubjectPages {
+    frames: StudyFrame[];
+    loaded: number;
+    ended: boolean;  // a short page reached the end of the recording
+    active: boolean;
+    error: Error | null;
+}
+
+// Pages downloaded for one selection; kept across budget changes and retries
+interface Download {
+    key: string;
+    subjectIds: number[];
+    subjects: Map<number, SubjectPages>;
+    hashes: Set<string>;  // cache keys of its pages, to notice invalidation
+}
+
+type SubjectSnapshot = Pick<SubjectPages, 'loaded' | 'ended' | 'active' | 'error'>;
+
+function snapshotOf(download: Download): Record<number, SubjectSnapshot> {
+    const snapshot: Record<number, SubjectSnapshot> = {};
+    download.subjects.forEach(({ loaded, ended, active, error }, id) => {
+        snapshot[id] = { loaded, ended, active, error };
+    });
+    return snapshot;
+}
+
+// Whole pages, so a larger budget continues where the previous one stopped
+function defaultBudget(subjectCount: number): number {
+    return Math.ceil(SAMPLE_BUDGET / Math.max(subjectCount, 1) / PAGE_SIZE) * PAGE_SIZE;
+}
+
+/**
+ * useStudyDataStream - Pages a selection's raw data in with `limit`/`offset`, subject by subject
+ * The frame grows as pages arrive. Loading stops at a sample budget per subject, which
+ * `progress` reports against the recording lengths from `subjectInfo`; `loadMore` doubles
+ * the budget and `loadAll` lifts it. Invalidating the pages in the query cache reloads them.
+ */
+export function useStudyDataStream(
+    studyNumber: number | null,
+    subjectIds: number[],
+    subjectInfo: SubjectInfo[]
+): StudyDataStream {
+    const subjectsKey = subjectIds.join(',');
+    const selection = studyNumber && subjectIds.length > 0 ? `${studyNumber}:${subjectsKey}` : null;
+
+    const [version, setVersion] = useState(0);
+    const [attempt, setAttempt] = useState(0);
+    const [budget, setBudget] = useState<{ selection: string | null; perSubject: number } | null>(null);
+    const [status, setStatus] = useState<{ key: string; subjects: Record<number, SubjectSnapshot> } | null>(null);
+    const [merged, setMerged] = useState<{ selection: string; frame: StudyFrame } | null>(null);
+
+    const perSubject = budget && budget.selection === selection
+        ? budget.perSubject
+        : defaultBudget(subjectIds.length);
+    const downloadKey = selection ? `${selection}:${version}` : null;
+
+    const totals = new Map(subjectInfo.map(info => [info.id, info.recordCount]));
+    const totalsRef = useRef(totals);
+    totalsRef.current = totals;
+    const downloadRef = useRef<Download | null>(null);
+
+    useEffect(() => {
+        if (!downloadKey || !studyNumber) {
+            downloadRef.current = null;
+            return;
+        }
+
+        let download = downloadRef.current;
+        if (!download || download.key !== downloadKey) {
+            const ids = subjectsKey.split(',').map(Number);
+            download = {
+                key: downloadKey,
+                subjectIds: ids,
+                subjects: new Map(ids.map(id => [id, { frames: [], loaded: 0, ended: false, active: false, error: null }])),
+                hashes: new Set(),
+            };
+            downloadRef.current = download;
+        }
+        const current = download;
+        const selectionKey = `${studyNumber}:${subjectsKey}`;
+        const controller = new AbortController();
+
+        let mergedRows = -1;
+        let lastMerge = 0;
+        let mergeTimer: ReturnType<typeof setTimeout> | undefined;
+        const merge = () => {
+            clearTimeout(mergeTimer);
+            mergeTimer = undefined;
+            lastMerge = Date.now();
+            const frames = current.subjectIds.flatMap(id => current.subjects.get(id)!.frames);
+            const rows = frames.reduce((sum, frame) => sum + frame.length, 0);
+            if (rows === mergedRows) return;
+            mergedRows = rows;
+            setMerged({ selection: selectionKey, frame: StudyFrame.concat(frames) });
+        };
+        const publish = (final: boolean) => {
+            if (controller.signal.aborted) return;
+            setStatus({ key: current.key, subjects: snapshotOf(current) });
+            if (final || Date.now() - lastMerge >= MERGE_INTERVAL_MS) merge();
+            else if (mergeTimer === undefined) mergeTimer = setTimeout(merge, MERGE_INTERVAL_MS);
+        };
+
+        const loadSubject = async (id: number) => {
+            const pages = current.subjects.get(id)!;
+            const total = totalsRef.current.get(id);
+            const target = Math.min(perSubject, total ?? Infinity);
+            pages.active = true;
+            pages.error = null;
+            publish(false);
+
+            try {
+                while (!pages.ended && pages.loaded < target) {
+                    const offset = pages.loaded;
+                    const key: QueryKey = ['study/data', studyNumber, id, PAGE_SIZE, offset];
+                    current.hashes.add(hashQueryKey(key));
+                    const page = await queryCache.fetch(
+                        key,
+                        signal => popaneApi.getStudyFrame({ studyNumber, subjectId: id, limit: PAGE_SIZE, offset }, signal),
+                        { signal: controller.signal }
+                    );
+                    // A restarted effect may already be fetching this offset
+                    if (controller.signal.aborted) return;
+
+                    pages.frames.push(page);
+                    pages.loaded += page.length;
+                    pages.ended = page.length < PAGE_SIZE || (total !== undefined && pages.loaded >= total);
+                    publish(false);
+                }
+            } catch (err) {
+                // Only our own abort is expected; an AbortError from anywhere else is a failed page
+                if (controller.signal.aborted) return;
+                pages.error = err instanceof Error ? err : new Error(String(err));
+            } finally {
+                // After an abort the restarted effect owns the subject
+                if (!controller.signal.aborted) pages.active = false;
+            }
+        };
+
+        const queue = current.subjectIds.slice();
+        const worker = async () => {
+            while (queue.length > 0 && !controller.signal.aborted) {
+                await loadSubject(queue.shift()!);
+            }
+        };
+        Promise.all(Array.from({ length: CONCURRENT_SUBJECTS }, worker)).then(() => publish(true));
+
+        return () => {
+            controller.abort();
+            clearTimeout(mergeTimer);
+        };
+    }, [downloadKey, studyNumber, subjectsKey, perSubject, attempt]);
+
+    // Reload when the pages are invalidated (e.g. "Refresh Data")
+    useEffect(() => queryCache.subscribe(invalidated => {
+        const download = downloadRef.current;
+        if (download && Array.from(download.hashes).some(hash => invalidated.has(hash))) {
+            setVersion(v => v + 1);
+        }
+    }), []);
+
+    const loadMore = useCallback(() => {
+        setBudget({ selection, perSubject: perSubject * 2 });
+    }, [selection, perSubject]);
+
+    const loadAll = useCallback(() => {
+        setBudget({ selection, perSubject: Infinity });
+    }, [selection]);
+
+    const retry = useCallback(() => setAttempt(a => a + 1), []);
+
+    const snapshot = status && status.key === downloadKey ? status.subjects : {};
+    const subjects: SubjectLoadProgress[] = selection ? subjectIds.map(subjectId => {
+        const { loaded = 0, ended = false, active = false, error = null } = snapshot[subjectId] ?? {};
+        const total = ended ? loaded : totals.get(subjectId) ?? null;
+        const state: SubjectLoadState = error ? 'error'
+            : active ? 'loading'
+            : ended || (total !== null && loaded >= total) ? 'complete'
+            : loaded >= perSubject ? 'paused'
+            : 'queued';
+        return { subjectId, loaded, total, state };
+    }) : [];
+
+    const error = subjects.map(s => snapshot[s.subjectId]?.error).find(Boolean) ?? null;
+
+    return {
+        data: merged && merged.selection === selection ? merged.frame : NO_DATA,
+        loading: subjects.some(s => s.state === 'queued' || s.state === 'loading'),
+        error,
+        progress: {
+            subjects,
+            loaded: subjects.reduce((sum, s) => sum + s.loaded, 0),
+            total: subjects.every(s => s.total !== null)
+                ? subjects.reduce((sum, s) => sum + (s.total ?? 0), 0)
+                : null,
+            complete: subjects.every(s => s.state === 'complete'),
+        },
+        loadMore,
+        loadAll,
+        retry,
+    };
+}
+
+export default useStudyDataStream;
@@ -0,0 +1,39 @@
+import { useEffect } from 'react';
+
+const TEXT_INPUT_TYPES = new Set(['text', 'number', 'search', 'email', 'url', 'password', 'tel']);
+
+// Text fields keep the browser's own undo for what was typed
+function isTextEntry(target: EventTarget | null): boolean {
+    if (!(target instanceof HTMLElement)) return false;
+    if (target.isContentEditable || target instanceof HTMLTextAreaElement) return true;
+    return target instanceof HTMLInputElement && TEXT_INPUT_TYPES.has(target.type);
+}
+
+/**
+ * useUndoShortcuts - Ctrl+Z undoes, Ctrl+Shift+Z and Ctrl+Y redo (Cmd on macOS)
+ */
+export function useUndoShortcuts(onUndo: () => void, onRedo: () => void): void {
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (!(e.ctrlKey || e.metaKey) || e.altKey || isTextEntry(e.target)) return;
+
+            const key = e.key.toLowerCase();
+            if (key === 'z') {
+                e.preventDefault();
+                if (e.shiftKey) {
+                    onRedo();
+                } else {
+                    onUndo();
+                }
+            } else if (key === 'y' && !e.shiftKey) {
+                e.preventDefault();
+                onRedo();
+            }
+        };
+
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [onUndo, onRedo]);
+}
+
+export default useUndoShortcuts;
@@ -0,0 +1,25 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import { urlStore, UrlState } from '../services/urlState';
+
+// Fields that change what the user is looking at get their own history entry;
+// chart settings are tweaked continuously and replace the current one.
+const NAVIGATION_FIELDS: (keyof UrlState)[] = ['study', 'subjects', 'view'];
+
+/**
+ * useUrlState - Navigation state read from and written to the URL
+ * `update` merges a partial state into the current URL; browser back/forward
+ * re-renders every subscriber with the restored state.
+ */
+export function useUrlState(): [UrlState, (patch: Partial<UrlState>) => void] {
+    const state = useSyncExternalStore(urlStore.subscribe, urlStore.getSnapshot);
+
+    const update = useCallback((patch: Partial<UrlState>) => {
+        const current = urlStore.getSnapshot();
+        const replace = !NAVIGATION_FIELDS.some(field => field in patch);
+        urlStore.navigate({ ...current, ...patch }, { replace });
+    }, []);
+
+    return [state, update];
+}
+
+export default useUrlState;
@@ -0,0 +1,11 @@
+import { useSyncExternalStore } from 'react';
+import { workspaceStore, Workspace } from '../services/workspaces';
+
+/**
+ * useWorkspaces - Workspaces saved in this browser, sorted by name
+ */
+export function useWorkspaces(): Workspace[] {
+    return useSyncExternalStore(workspaceStore.subscribe, workspaceStore.getSnapshot);
+}
+
+export default useWorkspaces;
@@ -0,0 +1,113 @@
+// Status codes worth retrying as-is: timeouts, rate limiting and server-side failures
+const RETRYABLE_STATUSES = new Set([408, 425, 429, 500, 502, 503, 504]);
+
+interface FastAPIValidationIssue {
+    loc?: (string | number)[];
+    msg?: string;
+}
+
+// FastAPI reports errors as { detail: string } or { detail: [{ loc, msg, type }] }
+function parseDetail(body: unknown): string | null {
+    if (!body || typeof body !== 'object' || !('detail' in body)) return null;
+
+    const detail = (body as { detail: unknown }).detail;
+    if (typeof detail === 'string') return detail;
+    if (Array.isArray(detail)) {
+        return detail
+            .map((issue: FastAPIValidationIssue) => {
+                const field = issue.loc ? issue.loc.filter(part => part !== 'query' && part !== 'path').join('.') : '';
+                return field ? `${field}: ${issue.msg}` : String(issue.msg);
+            })
+            .join('; ');
+    }
+    return null;
+}
+
+function toEndpoint(url: string): string {
+    try {
+        return new URL(url, window.location.origin).pathname;
+    } catch {
+        return url.split('?')[0];
+    }
+}
+
+/**
+ * PopaneApiError - Failed request against the POPANE backend
+ * Carries the HTTP status, the endpoint and the backend `detail` so the UI can
+ * say which request failed and whether retrying it makes sense.
+ * A status of 0 means the request never got a response (network/CORS failure).
+ */
+export class PopaneApiError extends Error {
+    readonly status: number;
+    readonly statusText: string;
+    readonly url: string;
+    readonly endpoint: string;
+    readonly detail: string | null;
+    readonly retryable: boolean;
+
+    constructor(status: number, statusText: string, url: string, detail: string | null = null) {
+        const endpoint = toEndpoint(url);
+        const reason = detail || statusText || 'Network error';
+        super(status > 0 ? `API Error ${status}: ${reason} (${endpoint})` : `API Error: ${reason} (${endpoint})`);
+
+        this.name = 'PopaneApiError';
+        this.status = status;
+        this.statusText = statusText;
+        this.url = url;
+        this.endpoint = endpoint;
+        this.detail = detail;
+        this.retryable = status === 0 || RETRYABLE_STATUSES.has(status);
+
+        Object.setPrototypeOf(this, PopaneApiError.prototype);
+    }
+
+    static async fromResponse(response: Response, url: string): Promise<PopaneApiError> {
+        let detail: string | null = null;
+        try {
+            detail = parseDetail(await response.json());
+        } catch {
+            // Non-JSON error body (proxy error page, empty body)
+        }
+        return new PopaneApiError(response.status, response.statusText, url, detail);
+    }
+
+    static fromNetworkError(err: unknown, url: string): PopaneApiError {
+        const reason = err instanceof Error ? err.message : 'Network error';
+        return new PopaneApiError(0, reason, url);
+    }
+}
+
+/**
+ * ContractMismatchError - Successful response whose payload does not match types/popane.ts
+ * Names the offending field so a renamed or retyped backend field is obvious
+ * instead of rendering an empty chart.
+ */
+export class ContractMismatchError extends PopaneApiError {
+    readonly field: string;
+    readonly expected: string;
+    readonly received: string;
+
+    constructor(url: string, field: string, expected: string, received: string) {
+        super(200, 'OK', url, `Backend contract mismatch: ${field || 'response'} should be ${expected}, got ${received}`);
+        this.name = 'ContractMismatchError';
+        this.message = `${this.detail} (${this.endpoint})`;
+        this.field = field;
+        this.expected = expected;
+        this.received = received;
+
+        Object.setPrototypeOf(this, ContractMismatchError.prototype);
+    }
+}
+
+export function isContractMismatchError(err: unknown): err is ContractMismatchError {
+    return err instanceof ContractMismatchError;
+}
+
+export function isPopaneApiError(err: unknown): err is PopaneApiError {
+    return err instanceof PopaneApiError;
+}
+
+// Requests cancelled through an AbortSignal reject with an AbortError; callers ignore these
+export function isAbortError(err: unknown): boolean {
+    return typeof err === 'object' && err !== null && (err as { name?: string }).name === 'AbortError';
+}
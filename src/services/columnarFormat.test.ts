@@ -0,0 +1,115 @@
+import {
+    ColumnarTable,
+    DictionaryColumn,
+    TableColumn,
+    decodeColumnar,
+    dictionaryColumn,
+    dictionaryValue,
+    encodeColumnar,
+} from './columnarFormat';
+import { SchemaError } from './responseSchemas';
+
+function table(): ColumnarTable {
+    return {
+        rowCount: 5,
+        metadata: { study_number: 3, signals: [{ feature: 'ECG' }] },
+        columns: new Map<string, TableColumn>([
+            ['Subject_ID', Int32Array.from([1, 1, -7, 2147483647, -2147483648])],
+            ['emotion', dictionaryColumn(['Neutral', 'Neutral', 'Fear', '', 'Amusement – ünïcode'])],
+            ['ECG', Float64Array.from([0.5, NaN, -1e300, Infinity, 5e-324])],
+        ]),
+    };
+}
+
+describe('columnar round trip', () => {
+    it('keeps row count, metadata and column order', () => {
+        const decoded = decodeColumnar(encodeColumnar(table()));
+
+        expect(decoded.rowCount).toBe(5);
+        expect(decoded.metadata).toEqual({ study_number: 3, signals: [{ feature: 'ECG' }] });
+        expect(Array.from(decoded.columns.keys())).toEqual(['Subject_ID', 'emotion', 'ECG']);
+    });
+
+    it('keeps float64 values, with NaN for missing samples', () => {
+        const ecg = decodeColumnar(encodeColumnar(table())).columns.get('ECG');
+
+        expect(ecg).toBeInstanceOf(Float64Array);
+        expect(Array.from(ecg as Float64Array)).toEqual([0.5, NaN, -1e300, Infinity, 5e-324]);
+    });
+
+    it('keeps int32 keys across their whole range', () => {
+        const ids = decodeColumnar(encodeColumnar(table())).columns.get('Subject_ID');
+
+        expect(ids).toBeInstanceOf(Int32Array);
+        expect(Array.from(ids as Int32Array)).toEqual([1, 1, -7, 2147483647, -2147483648]);
+    });
+
+    it('keeps text columns as a dictionary', () => {
+        const emotion = decodeColumnar(encodeColumnar(table())).columns.get('emotion') as DictionaryColumn;
+
+        expect(emotion.dictionary).toEqual(['Neutral', 'Fear', '', 'Amusement – ünïcode']);
+        expect([0, 1, 2, 3, 4].map(row => dictionaryValue(emotion, row)))
+            .toEqual(['Neutral', 'Neutral', 'Fear', '', 'Amusement – ünïcode']);
+    });
+
+    it('reads values as aligned views on the buffer', () => {
+        const buffer = encodeColumnar(table());
+        const ecg = decodeColumnar(buffer).columns.get('ECG') as Float64Array;
+
+        expect(ecg.buffer).toBe(buffer);
+        expect(ecg.byteOffset % 8).toBe(0);
+    });
+
+    it('encodes an empty table', () => {
+        const decoded = decodeColumnar(encodeColumnar({ rowCount: 0, metadata: null, columns: new Map() }));
+
+        expect(decoded).toEqual({ rowCount: 0, metadata: null, columns: new Map() });
+    });
+});
+
+describe('columnar decoding errors', () => {
+    it('rejects every truncation of a body with a SchemaError', () => {
+        const buffer = encodeColumnar(table());
+        const failures = Array.from({ length: buffer.byteLength }, (_, length) => {
+            try {
+                decodeColumnar(buffer.slice(0, length));
+                return 'decoded';
+            } catch (err) {
+                return err instanceof SchemaError ? 'rejected' : String(err);
+            }
+        }).filter(outcome => outcome !== 'rejected');
+
+        expect(failures).toEqual([]);
+    });
+
+    it('rejects another format', () => {
+        const body = new TextEncoder().encode('{"not": "columnar"}').buffer;
+        expect(() => decodeColumnar(body)).toThrow(SchemaError);
+    });
+
+    it('rejects a newer version', () => {
+        const buffer = encodeColumnar(table());
+        new DataView(buffer).setUint16(4, 2, true);
+
+        expect(() => decodeColumnar(buffer)).toThrow(expect.objectContaining({ field: 'version' }));
+    });
+
+    it('rejects version 0, as a zeroed header after the magic reads', () => {
+        const buffer = encodeColumnar(table());
+        new Uint8Array(buffer, 4).fill(0);
+
+        expect(() => decodeColumnar(buffer)).toThrow(expect.objectContaining({ field: 'version', received: '0' }));
+    });
+
+    it('rejects an unknown column type', () => {
+        const buffer = encodeColumnar({
+            rowCount: 1,
+            metadata: null,
+            columns: new Map<string, TableColumn>([['x', Float64Array.from([1])]]),
+        });
+        // Header (16 bytes), then the name length (2) and name (1) before the type byte
+        new DataView(buffer).setUint8(19, 9);
+
+        expect(() => decodeColumnar(buffer)).toThrow(expect.objectContaining({ field: 'x' }));
+    });
+});
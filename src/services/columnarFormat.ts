@@ -0,0 +1,221 @@
+import { SchemaError } from './responseSchemas';
+
+// Columnar binary transport for the raw signal endpoints. A response is one table:
+//
+//   "PCOL"  u16 version  u16 column count  u32 row count
+//   u32 metadata length, metadata as UTF-8 JSON (whatever the endpoint returns besides rows)
+//   per column: u16 name length, UTF-8 name, u8 type
+//     dictionary columns add u32 entry count and each entry as u16 length + UTF-8
+//   zero padding to 8 bytes, then each column's values, each padded to 8 bytes:
+//     float64 (NaN = missing), int32, or int32 codes into the dictionary
+//
+// All numbers are little-endian. Values are 8-byte aligned so they are read as
+// typed-array views on the response buffer without copying. The full specification,
+// including negotiation and versioning, is docs/columnar-format.md.
+
+export const COLUMNAR_MEDIA_TYPE = 'application/vnd.popane.columns';
+export const COLUMNAR_VERSION = 1;
+
+const MAGIC = 'PCOL';
+
+// Column type codes
+const FLOAT64 = 1;
+const INT32 = 2;
+const DICTIONARY = 3;
+
+export interface DictionaryColumn {
+    codes: Int32Array;
+    dictionary: string[];
+}
+
+export type TableColumn = Float64Array | Int32Array | DictionaryColumn;
+
+export interface ColumnarTable {
+    rowCount: number;
+    metadata: unknown;
+    columns: Map<string, TableColumn>;
+}
+
+function typeOf(column: TableColumn): number {
+    if (column instanceof Float64Array) return FLOAT64;
+    if (column instanceof Int32Array) return INT32;
+    return DICTIONARY;
+}
+
+function padTo8(offset: number): number {
+    return Math.ceil(offset / 8) * 8;
+}
+
+/**
+ * decodeColumnar - Reads a columnar response body
+ * Throws SchemaError for anything that is not a well-formed table of a known version.
+ */
+export function decodeColumnar(buffer: ArrayBuffer): ColumnarTable {
+    const view = new DataView(buffer);
+    const text = new TextDecoder();
+    let offset = 0;
+
+    const need = (bytes: number, what: string) => {
+        if (offset + bytes > buffer.byteLength) {
+            throw new SchemaError(what, `${bytes} more bytes`, `${buffer.byteLength - offset} bytes`);
+        }
+    };
+    const readString = (length: number, what: string) => {
+        need(length, what);
+        const value = text.decode(new Uint8Array(buffer, offset, length));
+        offset += length;
+        return value;
+    };
+
+    need(12, 'header');
+    const magic = readString(4, 'header');
+    if (magic !== MAGIC) throw new SchemaError('header', `"${MAGIC}"`, JSON.stringify(magic));
+    const version = view.getUint16(4, true);
+    // Version 0 is never written; it is what a zeroed header reads as
+    if (version < 1 || version > COLUMNAR_VERSION) {
+        throw new SchemaError('version', `1 to ${COLUMNAR_VERSION}`, String(version));
+    }
+    const columnCount = view.getUint16(6, true);
+    const rowCount = view.getUint32(8, true);
+    offset = 12;
+
+    need(4, 'metadata');
+    const metadataLength = view.getUint32(offset, true);
+    offset += 4;
+    const metadataText = readString(metadataLength, 'metadata');
+    let metadata: unknown = null;
+    try {
+        metadata = metadataLength > 0 ? JSON.parse(metadataText) : null;
+    } catch {
+        throw new SchemaError('metadata', 'JSON', 'unparseable text');
+    }
+
+    const headers: Array<{ name: string; type: number; dictionary: string[] }> = [];
+    for (let i = 0; i < columnCount; i++) {
+        need(2, `column ${i}`);
+        const nameLength = view.getUint16(offset, true);
+        offset += 2;
+        const name = readString(nameLength, `column ${i}`);
+        need(1, name);
+        const type = view.getUint8(offset++);
+        const dictionary: string[] = [];
+        if (type === DICTIONARY) {
+            need(4, name);
+            const entries = view.getUint32(offset, true);
+            offset += 4;
+            for (let e = 0; e < entries; e++) {
+                need(2, name);
+                const length = view.getUint16(offset, true);
+                offset += 2;
+                dictionary.push(readString(length, name));
+            }
+        } else if (type !== FLOAT64 && type !== INT32) {
+            throw new SchemaError(name, 'a float64, int32 or dictionary column', `type ${type}`);
+        }
+        headers.push({ name, type, dictionary });
+    }
+
+    const columns = new Map<string, TableColumn>();
+    offset = padTo8(offset);
+    headers.forEach(({ name, type, dictionary }) => {
+        const width = type === FLOAT64 ? 8 : 4;
+        need(rowCount * width, name);
+        if (type === FLOAT64) {
+            columns.set(name, new Float64Array(buffer, offset, rowCount));
+        } else {
+            const values = new Int32Array(buffer, offset, rowCount);
+            columns.set(name, type === INT32 ? values : { codes: values, dictionary });
+        }
+        offset = padTo8(offset + rowCount * width);
+    });
+
+    return { rowCount, metadata, columns };
+}
+
+/**
+ * encodeColumnar - Writes a table in the transport format
+ * The backend's side of the format; the mock backend uses it to stand in for a server.
+ */
+export function encodeColumnar(table: ColumnarTable): ArrayBuffer {
+    const text = new TextEncoder();
+    const metadata = text.encode(table.metadata === null ? '' : JSON.stringify(table.metadata));
+    const entries = Array.from(table.columns.entries());
+
+    const headerParts: Uint8Array[] = [];
+    entries.forEach(([name, column]) => {
+        const encodedName = text.encode(name);
+        const type = typeOf(column);
+        const fixed = new Uint8Array(2 + encodedName.length + 1 + (type === DICTIONARY ? 4 : 0));
+        const fixedView = new DataView(fixed.buffer);
+        fixedView.setUint16(0, encodedName.length, true);
+        fixed.set(encodedName, 2);
+        fixedView.setUint8(2 + encodedName.length, type);
+        headerParts.push(fixed);
+
+        if (type === DICTIONARY) {
+            const { dictionary } = column as DictionaryColumn;
+            fixedView.setUint32(3 + encodedName.length, dictionary.length, true);
+            dictionary.forEach(entry => {
+                const encoded = text.encode(entry);
+                const part = new Uint8Array(2 + encoded.length);
+                new DataView(part.buffer).setUint16(0, encoded.length, true);
+                part.set(encoded, 2);
+                headerParts.push(part);
+            });
+        }
+    });
+
+    const headerEnd = 16 + metadata.length + headerParts.reduce((sum, part) => sum + part.length, 0);
+    let size = padTo8(headerEnd);
+    const dataOffsets = entries.map(([, column]) => {
+        const start = size;
+        size = padTo8(size + table.rowCount * (column instanceof Float64Array ? 8 : 4));
+        return start;
+    });
+
+    const buffer = new ArrayBuffer(size);
+    const bytes = new Uint8Array(buffer);
+    const view = new DataView(buffer);
+    bytes.set(text.encode(MAGIC), 0);
+    view.setUint16(4, COLUMNAR_VERSION, true);
+    view.setUint16(6, entries.length, true);
+    view.setUint32(8, table.rowCount, true);
+    view.setUint32(12, metadata.length, true);
+    bytes.set(metadata, 16);
+
+    let offset = 16 + metadata.length;
+    headerParts.forEach(part => {
+        bytes.set(part, offset);
+        offset += part.length;
+    });
+
+    entries.forEach(([, column], i) => {
+        const values = column instanceof Float64Array || column instanceof Int32Array ? column : column.codes;
+        const target = values instanceof Float64Array
+            ? new Float64Array(buffer, dataOffsets[i], table.rowCount)
+            : new Int32Array(buffer, dataOffsets[i], table.rowCount);
+        target.set(values.subarray(0, table.rowCount));
+    });
+
+    return buffer;
+}
+
+// Dictionary-encodes strings, e.g. emotion labels repeated on every sample
+export function dictionaryColumn(values: string[]): DictionaryColumn {
+    const dictionary: string[] = [];
+    const index = new Map<string, number>();
+    const codes = Int32Array.from(values, value => {
+        let code = index.get(value);
+        if (code === undefined) {
+            code = dictionary.length;
+            dictionary.push(value);
+            index.set(value, code);
+        }
+        return code;
+    });
+    return { codes, dictionary };
+}
+
+export function dictionaryValue(column: DictionaryColumn, row: number): string {
+    return column.dictionary[column.codes[row]] ?? '';
+}
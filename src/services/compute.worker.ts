@@ -0,0 +1,37 @@
+import { ComputeRequest, ComputeResponse, transferablesOf } from './computeProtocol';
+import { executeTask } from './computeTasks';
+
+// The parts of DedicatedWorkerGlobalScope used here; the DOM lib does not describe workers
+interface WorkerScope {
+    onmessage: ((event: MessageEvent<ComputeRequest>) => void) | null;
+    postMessage: (message: ComputeResponse, transfer: Transferable[]) => void;
+}
+
+const scope = globalThis as unknown as WorkerScope;
+const cancelled = new Set<number>();
+
+function reply(message: ComputeResponse): void {
+    scope.postMessage(message, message.type === 'result' ? transferablesOf(message.result) : []);
+}
+
+scope.onmessage = ({ data: request }) => {
+    if (request.type === 'cancel') {
+        cancelled.add(request.id);
+        return;
+    }
+
+    const { id, task } = request;
+    executeTask(task, {
+        isCancelled: () => cancelled.has(id),
+        onProgress: (done, total) => reply({ type: 'progress', id, done, total }),
+    })
+        .then(result => reply({ type: 'result', id, result }))
+        .catch((err: Error) => reply(
+            err.name === 'AbortError'
+                ? { type: 'cancelled', id }
+                : { type: 'error', id, message: err.message }
+        ))
+        .finally(() => cancelled.delete(id));
+};
+
+export {};
@@ -0,0 +1,135 @@
+import { ComputeTask, ComputeResult, ComputeRequest, ComputeResponse, transferablesOf } from './computeProtocol';
+import { executeTask } from './computeTasks';
+
+export interface ComputeOptions {
+    signal?: AbortSignal;
+    onProgress?: (done: number, total: number) => void;
+    // Hand the task's typed arrays to the worker instead of copying them; the caller
+    // must not use them afterwards
+    transfer?: boolean;
+}
+
+interface PendingTask {
+    resolve: (result: never) => void;
+    reject: (err: Error) => void;
+    onProgress?: (done: number, total: number) => void;
+}
+
+function cancelledError(): Error {
+    const err = new Error('The computation was cancelled');
+    err.name = 'AbortError';
+    return err;
+}
+
+/**
+ * ComputeClient - Runs heavy transforms off the UI thread
+ * Tasks go to one shared worker, created on first use. Without worker support
+ * (tests, old browsers) or after the worker fails, tasks run on the main thread.
+ */
+class ComputeClient {
+    private worker: Worker | null = null;
+    private workerFailed = false;
+    private nextId = 1;
+    private pending = new Map<number, PendingTask>();
+
+    run<T extends ComputeTask>(task: T, { signal, onProgress, transfer = false }: ComputeOptions = {}): Promise<ComputeResult<T>> {
+        if (signal?.aborted) return Promise.reject(cancelledError());
+
+        const worker = this.getWorker();
+        if (!worker) return this.runLocally(task, signal, onProgress);
+
+        const id = this.nextId++;
+        return new Promise<ComputeResult<T>>((resolve, reject) => {
+            const onAbort = () => {
+                if (!this.pending.delete(id)) return;
+                this.post({ type: 'cancel', id }, []);
+                reject(cancelledError());
+            };
+            signal?.addEventListener('abort', onAbort, { once: true });
+
+            this.pending.set(id, {
+                resolve: result => {
+                    signal?.removeEventListener('abort', onAbort);
+                    resolve(result);
+                },
+                reject: err => {
+                    signal?.removeEventListener('abort', onAbort);
+                    reject(err);
+                },
+                onProgress,
+            });
+            this.post({ type: 'run', id, task }, transfer ? transferablesOf(task) : []);
+        });
+    }
+
+    private runLocally<T extends ComputeTask>(
+        task: T,
+        signal: AbortSignal | undefined,
+        onProgress: ComputeOptions['onProgress']
+    ): Promise<ComputeResult<T>> {
+        return executeTask(task, {
+            isCancelled: () => signal?.aborted ?? false,
+            onProgress: onProgress ?? (() => undefined),
+        });
+    }
+
+    private post(request: ComputeRequest, transfer: Transferable[]): void {
+        this.worker?.postMessage(request, transfer);
+    }
+
+    private getWorker(): Worker | null {
+        if (this.worker || this.workerFailed) return this.worker;
+        if (typeof Worker === 'undefined') {
+            this.workerFailed = true;
+            return null;
+        }
+
+        try {
+            this.worker = new Worker(new URL('./compute.worker.ts', import.meta.url));
+        } catch {
+            this.workerFailed = true;
+            return null;
+        }
+        this.worker.onmessage = (event: MessageEvent<ComputeResponse>) => this.handleMessage(event.data);
+        this.worker.onerror = event => {
+            event.preventDefault();
+            this.fail(new Error(event.message || 'The compute worker stopped'));
+        };
+        return this.worker;
+    }
+
+    private handleMessage(response: ComputeResponse): void {
+        const task = this.pending.get(response.id);
+        if (!task) return;  // Cancelled on this side already
+
+        switch (response.type) {
+            case 'progress':
+                task.onProgress?.(response.done, response.total);
+                return;
+            case 'result':
+                this.pending.delete(response.id);
+                task.resolve(response.result as never);
+                return;
+            case 'error':
+                this.pending.delete(response.id);
+                task.reject(new Error(response.message));
+                return;
+            case 'cancelled':
+                this.pending.delete(response.id);
+                task.reject(cancelledError());
+        }
+    }
+
+    // A crashed worker fails its tasks; later tasks run on the main thread
+    private fail(err: Error): void {
+        this.worker?.terminate();
+        this.worker = null;
+        this.workerFailed = true;
+        const pending = Array.from(this.pending.values());
+        this.pending.clear();
+        pending.forEach(task => task.reject(err));
+    }
+}
+
+export const computeClient = new ComputeClient();
+export default computeClient;
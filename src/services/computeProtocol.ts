@@ -0,0 +1,117 @@
+import { FilterSpec } from './signalFilters';
+
+// Messages between the UI thread and the compute worker. Numeric data travels as
+// typed arrays so it can be transferred rather than copied; NaN marks a missing sample.
+
+export type Normalization = 'none' | 'offset' | 'zscore';
+
+export interface SeriesStats {
+    count: number;
+    mean: number;
+    std: number;
+    min: number;
+    max: number;
+}
+
+export interface NumericSeries {
+    x: Float64Array;
+    y: Float64Array;
+}
+
+export interface GroupedSeries extends NumericSeries {
+    group: number;
+    label: string;  // the group's label, or its key when the task has none
+    member: number;
+    column: string;
+    stats: SeriesStats;  // of the values before normalization
+}
+
+export interface NamedColumn {
+    name: string;
+    values: Float64Array;
+    filters?: FilterSpec[];  // run over each series in order, before its stats
+}
+
+/**
+ * GroupSeriesTask - Splits row-aligned columns into one series per group, member and column
+ * e.g. group = marker, member = subject. Series come back ordered by group, member, column.
+ */
+export interface GroupSeriesTask {
+    kind: 'groupSeries';
+    groups: Int32Array;
+    groupLabels: string[] | null;  // indexed by group key
+    members: Int32Array | null;  // null puts every row of a group in one member (0)
+    x: Float64Array;
+    columns: NamedColumn[];
+    relativeX: boolean;  // measure x from the start of each group and member
+    normalize: Normalization;
+    sampleRate: number | null;  // Hz, for column filters; null leaves every column unfiltered
+}
+
+export interface GroupSeriesResult {
+    series: GroupedSeries[];
+}
+
+/**
+ * DownsampleTask - Reduces x-ascending series to a plot's point budget within the visible range
+ * Series keep their labels and stats, so a result never has to be matched up with its input.
+ * Series that are not x-ascending (scatter of one signal against another) come back unchanged.
+ */
+export interface DownsampleTask {
+    kind: 'downsample';
+    series: GroupedSeries[];
+    maxPoints: number;
+    range: [number, number] | null;
+}
+
+export interface DownsampleResult {
+    series: GroupedSeries[];
+}
+
+/**
+ * GroupIndicesTask - Row indices for each distinct label, in order of first appearance
+ */
+export interface GroupIndicesTask {
+    kind: 'groupIndices';
+    labels: string[];
+}
+
+export interface GroupIndicesResult {
+    groups: Array<{ label: string; indices: Int32Array }>;
+}
+
+export type ComputeTask = GroupSeriesTask | DownsampleTask | GroupIndicesTask;
+
+interface ComputeResults {
+    groupSeries: GroupSeriesResult;
+    downsample: DownsampleResult;
+    groupIndices: GroupIndicesResult;
+}
+
+export type ComputeResult<T extends ComputeTask> = ComputeResults[T['kind']];
+
+export type ComputeRequest =
+    | { type: 'run'; id: number; task: ComputeTask }
+    | { type: 'cancel'; id: number };
+
+export type ComputeResponse =
+    | { type: 'progress'; id: number; done: number; total: number }
+    | { type: 'result'; id: number; result: ComputeResults[keyof ComputeResults] }
+    | { type: 'error'; id: number; message: string }
+    | { type: 'cancelled'; id: number };
+
+// Buffers of every typed array in a message, for postMessage's transfer list
+export function transferablesOf(value: unknown): ArrayBuffer[] {
+    const buffers = new Set<ArrayBuffer>();
+    const visit = (item: unknown): void => {
+        if (ArrayBuffer.isView(item)) {
+            if (item.buffer instanceof ArrayBuffer) buffers.add(item.buffer);
+        } else if (Array.isArray(item)) {
+            item.forEach(visit);
+        } else if (item && typeof item === 'object') {
+            Object.values(item).forEach(visit);
+        }
+    };
+    visit(value);
+    return Array.from(buffers);
+}
@@ -0,0 +1,194 @@
+import {
+    ComputeTask,
+    ComputeResult,
+    DownsampleTask,
+    DownsampleResult,
+    GroupIndicesTask,
+    GroupIndicesResult,
+    GroupSeriesTask,
+    GroupSeriesResult,
+    GroupedSeries,
+    Normalization,
+    NumericSeries,
+    SeriesStats,
+} from './computeProtocol';
+import { downsampleIndices, isAscending, pointBudget, xExtent } from './downsample';
+import { applyFilters } from './signalFilters';
+
+// The task implementations behind the compute worker; also run on the main thread
+// where workers are unavailable. Long tasks yield regularly so cancellation is seen.
+
+export interface TaskContext {
+    isCancelled: () => boolean;
+    onProgress: (done: number, total: number) => void;
+}
+
+// Work this long between yields keeps cancel messages from queueing behind a task
+const YIELD_AFTER_MS = 20;
+
+function cancelledError(): Error {
+    const err = new Error('The computation was cancelled');
+    err.name = 'AbortError';
+    return err;
+}
+
+function createCheckpoint(context: TaskContext): (done: number, total: number) => Promise<void> {
+    let lastYield = Date.now();
+    return async (done, total) => {
+        if (Date.now() - lastYield >= YIELD_AFTER_MS) {
+            await new Promise(resolve => setTimeout(resolve, 0));
+            lastYield = Date.now();
+        }
+        if (context.isCancelled()) throw cancelledError();
+        context.onProgress(done, total);
+    };
+}
+
+function seriesStats(values: Float64Array): SeriesStats {
+    let count = 0;
+    let sum = 0;
+    let min = Infinity;
+    let max = -Infinity;
+    values.forEach(v => {
+        if (Number.isNaN(v)) return;
+        count++;
+        sum += v;
+        if (v < min) min = v;
+        if (v > max) max = v;
+    });
+    if (count === 0) return { count: 0, mean: NaN, std: NaN, min: NaN, max: NaN };
+
+    const mean = sum / count;
+    let squares = 0;
+    values.forEach(v => {
+        if (!Number.isNaN(v)) squares += (v - mean) * (v - mean);
+    });
+    return { count, mean, std: Math.sqrt(squares / count), min, max };
+}
+
+function normalizeInPlace(values: Float64Array, mode: Normalization, stats: SeriesStats): void {
+    if (mode === 'none' || stats.count === 0) return;
+
+    let shift = 0;
+    let scale = 1;
+    if (mode === 'offset') {
+        shift = values.find(v => !Number.isNaN(v)) ?? 0;
+    } else {
+        shift = stats.mean;
+        scale = stats.std > 0 ? stats.std : 1;
+    }
+    for (let i = 0; i < values.length; i++) {
+        values[i] = (values[i] - shift) / scale;
+    }
+}
+
+async function groupSeries(task: GroupSeriesTask, context: TaskContext): Promise<GroupSeriesResult> {
+    // group -> member -> row indices, rows kept in their original order
+    const buckets = new Map<number, Map<number, number[]>>();
+    for (let row = 0; row < task.groups.length; row++) {
+        const group = task.groups[row];
+        const member = task.members ? task.members[row] : 0;
+        let members = buckets.get(group);
+        if (!members) {
+            members = new Map();
+            buckets.set(group, members);
+        }
+        const rows = members.get(member);
+        if (rows) rows.push(row);
+        else members.set(member, [row]);
+    }
+
+    const byKey = (a: number, b: number) => a - b;
+    const groups = Array.from(buckets.keys()).sort(byKey);
+    const total = Array.from(buckets.values()).reduce((sum, members) => sum + members.size, 0) * task.columns.length;
+    const checkpoint = createCheckpoint(context);
+    const series: GroupedSeries[] = [];
+
+    for (const group of groups) {
+        const members = buckets.get(group)!;
+        const label = task.groupLabels?.[group] ?? String(group);
+        for (const member of Array.from(members.keys()).sort(byKey)) {
+            const rows = members.get(member)!;
+
+            let origin = 0;
+            if (task.relativeX) {
+                origin = Infinity;
+                rows.forEach(row => {
+                    if (task.x[row] < origin) origin = task.x[row];
+                });
+                if (origin === Infinity) origin = 0;
+            }
+            const x = Float64Array.from(rows, row => task.x[row] - origin);
+
+            for (let i = 0; i < task.columns.length; i++) {
+                const { name, values, filters } = task.columns[i];
+                // Each series gets its own x so every buffer can be transferred
+                let y = Float64Array.from(rows, row => values[row]);
+                if (filters && filters.length > 0 && task.sampleRate) {
+                    y = applyFilters(y, task.sampleRate, filters);
+                }
+                const stats = seriesStats(y);
+                normalizeInPlace(y, task.normalize, stats);
+                series.push({ group, label, member, column: name, x: i === 0 ? x : x.slice(), y, stats });
+                await checkpoint(series.length, total);
+            }
+        }
+    }
+
+    return { series };
+}
+
+function pickIndices({ x, y }: NumericSeries, indices: number[]): NumericSeries {
+    const outX = new Float64Array(indices.length);
+    const outY = new Float64Array(indices.length);
+    indices.forEach((index, i) => {
+        // A gap repeats the previous x with a missing value, which breaks the line there
+        outX[i] = index < 0 ? outX[i - 1] : x[index];
+        outY[i] = index < 0 ? NaN : y[index];
+    });
+    return { x: outX, y: outY };
+}
+
+async function downsample(task: DownsampleTask, context: TaskContext): Promise<DownsampleResult> {
+    if (!task.series.every(s => isAscending(s.x))) return { series: task.series };
+
+    const view = task.range ?? xExtent(task.series.map(s => s.x));
+    const checkpoint = createCheckpoint(context);
+    const series: GroupedSeries[] = [];
+
+    for (const item of task.series) {
+        const budget = pointBudget(item.x, task.maxPoints, view);
+        series.push({ ...item, ...pickIndices(item, downsampleIndices(item.x, item.y, budget, task.range)) });
+        await checkpoint(series.length, task.series.length);
+    }
+
+    return { series };
+}
+
+function groupIndices(task: GroupIndicesTask): GroupIndicesResult {
+    const groups = new Map<string, number[]>();
+    task.labels.forEach((label, index) => {
+        const indices = groups.get(label);
+        if (indices) indices.push(index);
+        else groups.set(label, [index]);
+    });
+    return {
+        groups: Array.from(groups.entries()).map(([label, indices]) => ({ label, indices: Int32Array.from(indices) })),
+    };
+}
+
+/**
+ * executeTask - Runs one compute task to completion
+ * Rejects with an AbortError once `context.isCancelled()` turns true.
+ */
+export async function executeTask<T extends ComputeTask>(task: T, context: TaskContext): Promise<ComputeResult<T>> {
+    switch (task.kind) {
+        case 'groupSeries':
+            return groupSeries(task, context) as Promise<ComputeResult<T>>;
+        case 'downsample':
+            return downsample(task, context) as Promise<ComputeResult<T>>;
+        case 'groupIndices':
+            return groupIndices(task) as ComputeResult<T>;
+    }
+    throw new Error(`Unknown compute task: ${(task as ComputeTask).kind}`);
+}
@@ -0,0 +1,50 @@
+export interface ConnectionState {
+    // False once a request failed to reach the backend, true again after any response
+    online: boolean;
+    // Responses served from the offline cache since the backend became unreachable
+    cachedResponses: number;
+}
+
+type ConnectionListener = () => void;
+
+/**
+ * ConnectionStatus - Tracks whether the POPANE backend is reachable
+ * Updated by PopaneApiService on every request; read by the Header through
+ * useConnectionStatus. Snapshots are immutable so they can back
+ * useSyncExternalStore directly.
+ */
+class ConnectionStatus {
+    private state: ConnectionState = { online: true, cachedResponses: 0 };
+    private listeners = new Set<ConnectionListener>();
+
+    getSnapshot = (): ConnectionState => this.state;
+
+    subscribe = (listener: ConnectionListener): (() => void) => {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    };
+
+    markOnline(): void {
+        if (this.state.online) return;
+        this.update({ online: true, cachedResponses: 0 });
+    }
+
+    markOffline(): void {
+        if (!this.state.online) return;
+        this.update({ online: false, cachedResponses: 0 });
+    }
+
+    markServedFromCache(): void {
+        this.update({ online: false, cachedResponses: this.state.cachedResponses + 1 });
+    }
+
+    private update(state: ConnectionState): void {
+        this.state = state;
+        this.listeners.forEach(listener => listener());
+    }
+}
+
+export const connectionStatus = new ConnectionStatus();
+export default connectionStatus;
@@ -0,0 +1,9 @@
+// Saves generated text (workspace JSON, CSV exports) as a file through the browser
+export function downloadFile(filename: string, content: string, type: string): void {
+    const url = URL.createObjectURL(new Blob([content], { type }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+}
@@ -0,0 +1,92 @@
+import { lttbIndices, downsampleIndices, valueAt } from './downsample';
+
+function sine(length: number): { x: Float64Array; y: Float64Array } {
+    const x = Float64Array.from({ length }, (_, i) => i / 100);
+    const y = Float64Array.from(x, t => Math.sin(2 * Math.PI * t));
+    return { x, y };
+}
+
+describe('lttbIndices', () => {
+    it('keeps the first and last point and exactly the threshold', () => {
+        const { x, y } = sine(10000);
+        const kept = lttbIndices(x, y, 0, x.length, 200);
+
+        expect(kept).toHaveLength(200);
+        expect(kept[0]).toBe(0);
+        expect(kept[kept.length - 1]).toBe(x.length - 1);
+    });
+
+    it('returns ascending indices within the range', () => {
+        const { x, y } = sine(5000);
+        const kept = lttbIndices(x, y, 1000, 3000, 100);
+
+        expect(kept[0]).toBe(1000);
+        expect(kept[kept.length - 1]).toBe(2999);
+        expect(kept).toEqual([...kept].sort((a, b) => a - b));
+        expect(new Set(kept).size).toBe(kept.length);
+    });
+
+    it('keeps a one-sample spike that averaging would lose', () => {
+        const x = Float64Array.from({ length: 5000 }, (_, i) => i);
+        const y = new Float64Array(5000);
+        y[2345] = 10;
+
+        expect(lttbIndices(x, y, 0, x.length, 50)).toContain(2345);
+    });
+
+    it('keeps every point when the threshold is not below the length', () => {
+        const { x, y } = sine(20);
+        expect(lttbIndices(x, y, 0, 20, 20)).toEqual(Array.from({ length: 20 }, (_, i) => i));
+    });
+});
+
+describe('downsampleIndices', () => {
+    it('stays within the point budget', () => {
+        const { x, y } = sine(100000);
+        const kept = downsampleIndices(x, y, 1000);
+
+        expect(kept.length).toBeLessThanOrEqual(1000);
+        expect(kept[0]).toBe(0);
+        expect(kept[kept.length - 1]).toBe(x.length - 1);
+    });
+
+    it('preserves NaN gaps as breaks and never keeps a missing sample', () => {
+        const { x, y } = sine(10000);
+        y.fill(NaN, 4000, 4500);
+        const kept = downsampleIndices(x, y, 500);
+
+        const breaks = kept.filter(index => index === -1);
+        expect(breaks).toHaveLength(1);
+        const gap = kept.indexOf(-1);
+        expect(kept[gap - 1]).toBe(3999);
+        expect(kept[gap + 1]).toBe(4500);
+        kept.filter(index => index >= 0).forEach(index => expect(Number.isNaN(y[index])).toBe(false));
+    });
+
+    it('treats null samples as gaps too', () => {
+        const x = [0, 1, 2, 3, 4, 5];
+        const y = [1, 2, null, 4, 5, 6];
+        expect(downsampleIndices(x, y, 100)).toEqual([0, 1, -1, 3, 4, 5]);
+    });
+
+    it('keeps only the visible range plus one point either side', () => {
+        const { x, y } = sine(10000);
+        const kept = downsampleIndices(x, y, 10000, [20.005, 30.005]);
+
+        expect(x[kept[0]]).toBeLessThan(20.005);
+        expect(x[kept[1]]).toBeGreaterThan(20.005);
+        expect(x[kept[kept.length - 1]]).toBeGreaterThan(30.005);
+        expect(x[kept[kept.length - 2]]).toBeLessThan(30.005);
+    });
+});
+
+describe('valueAt', () => {
+    it('reads the nearest sample and nothing outside the series or in a gap', () => {
+        const x = [0, 1, 2, 3];
+        const y = [10, 11, NaN, 13];
+
+        expect(valueAt(x, y, 0.9)).toBe(11);
+        expect(valueAt(x, y, 2)).toBeNull();
+        expect(valueAt(x, y, 5)).toBeNull();
+    });
+});
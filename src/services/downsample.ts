@@ -0,0 +1,165 @@
+// Level-of-detail reduction for line traces: Largest-Triangle-Three-Buckets keeps
+// the points that define the visual shape (R peaks, SCR onsets) instead of
+// averaging them away, so a few points per pixel look the same as the full signal.
+
+/**
+ * lttbIndices - Indices of x/y[start, end) to keep, at most `threshold` of them
+ * Always keeps the first and last point of the range.
+ */
+export function lttbIndices(
+    x: ArrayLike<number>,
+    y: ArrayLike<number>,
+    start: number,
+    end: number,
+    threshold: number
+): number[] {
+    const length = end - start;
+    if (threshold >= length || threshold < 3) {
+        return Array.from({ length }, (_, i) => start + i);
+    }
+
+    const kept = [start];
+    // Interior points are split into threshold - 2 buckets
+    const bucketSize = (length - 2) / (threshold - 2);
+    let previous = start;
+
+    for (let bucket = 0; bucket < threshold - 2; bucket++) {
+        const bucketStart = start + 1 + Math.floor(bucket * bucketSize);
+        const bucketEnd = start + 1 + Math.floor((bucket + 1) * bucketSize);
+
+        // Average of the next bucket is the third triangle corner
+        const nextStart = bucketEnd;
+        const nextEnd = Math.min(start + 1 + Math.floor((bucket + 2) * bucketSize), end);
+        let avgX = 0;
+        let avgY = 0;
+        for (let i = nextStart; i < nextEnd; i++) {
+            avgX += x[i];
+            avgY += y[i];
+        }
+        const nextCount = nextEnd - nextStart;
+        if (nextCount > 0) {
+            avgX /= nextCount;
+            avgY /= nextCount;
+        } else {
+            avgX = x[end - 1];
+            avgY = y[end - 1];
+        }
+
+        const px = x[previous];
+        const py = y[previous];
+        let maxArea = -1;
+        let chosen = bucketStart;
+        for (let i = bucketStart; i < bucketEnd; i++) {
+            const area = Math.abs((px - avgX) * (y[i] - py) - (px - x[i]) * (avgY - py));
+            if (area > maxArea) {
+                maxArea = area;
+                chosen = i;
+            }
+        }
+
+        kept.push(chosen);
+        previous = chosen;
+    }
+
+    kept.push(end - 1);
+    return kept;
+}
+
+/**
+ * pointBudget - Share of a plot's point budget for one trace, by how much of the
+ * visible x-range it covers; traces placed side by side add up to `maxPoints`.
+ */
+export function pointBudget(x: ArrayLike<number>, maxPoints: number, view: [number, number], minPoints: number = 50): number {
+    if (x.length === 0) return minPoints;
+    const span = view[1] - view[0];
+    const overlap = Math.min(x[x.length - 1], view[1]) - Math.max(x[0], view[0]);
+    if (span <= 0) return maxPoints;
+    return Math.max(minPoints, Math.round((maxPoints * Math.max(overlap, 0)) / span));
+}
+
+// Downsampling assumes time-like x; scatter plots of one signal against another are left alone
+export function isAscending(x: ArrayLike<number>): boolean {
+    for (let i = 1; i < x.length; i++) {
+        if (!(x[i] >= x[i - 1])) return false;
+    }
+    return true;
+}
+
+// Extent of the x values across several ascending series
+export function xExtent(series: ArrayLike<number>[]): [number, number] {
+    let min = Infinity;
+    let max = -Infinity;
+    series.forEach(x => {
+        if (x.length === 0) return;
+        min = Math.min(min, x[0]);
+        max = Math.max(max, x[x.length - 1]);
+    });
+    return min <= max ? [min, max] : [0, 0];
+}
+
+// First index with x[i] >= value, for x ascending
+function lowerBound(x: ArrayLike<number>, value: number): number {
+    let lo = 0;
+    let hi = x.length;
+    while (lo < hi) {
+        const mid = (lo + hi) >>> 1;
+        if (x[mid] < value) lo = mid + 1;
+        else hi = mid;
+    }
+    return lo;
+}
+
+function isGap(value: number | null): boolean {
+    return value === null || Number.isNaN(value);
+}
+
+/**
+ * downsampleIndices - Indices of an x-ascending series to plot, about `maxPoints` of them
+ * Only the visible `range` is kept (plus one point either side so lines run off
+ * the edge). Missing samples (null or NaN) split the series; -1 marks each gap.
+ */
+export function downsampleIndices(
+    x: ArrayLike<number>,
+    y: ArrayLike<number | null>,
+    maxPoints: number,
+    range?: [number, number] | null
+): number[] {
+    const from = range ? Math.max(0, lowerBound(x, range[0]) - 1) : 0;
+    const to = range ? Math.min(x.length, lowerBound(x, range[1]) + 1) : x.length;
+
+    // Runs of present samples, each downsampled with its share of the budget
+    const runs: [number, number][] = [];
+    let runStart = -1;
+    for (let i = from; i < to; i++) {
+        if (isGap(y[i])) {
+            if (runStart >= 0) runs.push([runStart, i]);
+            runStart = -1;
+        } else if (runStart < 0) {
+            runStart = i;
+        }
+    }
+    if (runStart >= 0) runs.push([runStart, to]);
+
+    const values = y as ArrayLike<number>;
+    const total = runs.reduce((sum, [start, end]) => sum + end - start, 0);
+    const kept: number[] = [];
+
+    runs.forEach(([start, end], i) => {
+        if (i > 0) kept.push(-1);
+        const budget = total <= maxPoints
+            ? end - start
+            : Math.max(3, Math.round((maxPoints * (end - start)) / total));
+        lttbIndices(x, values, start, end, budget).forEach(index => kept.push(index));
+    });
+
+    return kept;
+}
+
+// Sample nearest to `at` in an x-ascending series, e.g. for a crosshair; null outside the series or in a gap
+export function valueAt(x: ArrayLike<number>, y: ArrayLike<number | null>, at: number): number | null {
+    if (x.length === 0 || at < x[0] || at > x[x.length - 1]) return null;
+    const i = lowerBound(x, at);
+    const nearest = i > 0 && (i === x.length || at - x[i - 1] < x[i] - at) ? i - 1 : i;
+    const value = y[nearest];
+    return isGap(value) ? null : value;
+}
@@ -0,0 +1,108 @@
+import { classifyStimulus, emotionGroupOf, groupByEmotion, meanOf } from './emotionTaxonomy';
+
+// One item per stimulus, listed out of marker order
+const STIMULI = ['Tenderness2', 'Anger3', 'Positive_High', 'Baseline', 'Neutral10', 'Sadness1', 'Anger1', 'Positive_Low', 'Neutral1'];
+
+describe('classifyStimulus', () => {
+    it('strips the number from a stimulus name to find its emotion', () => {
+        expect(classifyStimulus('Anger3')).toMatchObject({
+            stimulus: 'Anger3',
+            marker: 204,
+            emotion: { name: 'Anger', valence: 'negative', arousal: 'high' },
+        });
+        expect(classifyStimulus('Neutral10')).toMatchObject({ marker: 110, emotion: { name: 'Neutral' } });
+        expect(classifyStimulus('Disgust')).toMatchObject({ marker: 205, emotion: { name: 'Disgust' } });
+    });
+
+    it('maps the positive approach aliases to their emotions', () => {
+        expect(classifyStimulus('Positive_Low')).toMatchObject({
+            marker: 308,
+            emotion: { name: 'Positive_Emotion_Low_Approach', valence: 'positive', arousal: 'low' },
+        });
+        expect(classifyStimulus('Positive_High')).toMatchObject({
+            marker: 309,
+            emotion: { name: 'Positive_Emotion_High_Approach', valence: 'positive', arousal: 'high' },
+        });
+    });
+
+    it('puts each emotion in its valence/arousal class', () => {
+        const classOf = (stimulus: string) => classifyStimulus(stimulus).emotion.valenceClass.key;
+
+        expect(classOf('Fear1')).toBe('negative-high');
+        expect(classOf('Sadness2')).toBe('negative-low');
+        expect(classOf('Amusement4')).toBe('positive-high');
+        expect(classOf('Tenderness1')).toBe('positive-low');
+        // Neutral has no arousal class; the -1 baseline has a class of its own
+        expect(classOf('Neutral3')).toBe('neutral');
+        expect(classifyStimulus('Baseline')).toMatchObject({ marker: -1, emotion: { name: 'Baseline' } });
+        expect(classOf('Baseline')).toBe('baseline');
+    });
+
+    it('classes an unknown stimulus as a neutral emotion of its own', () => {
+        expect(classifyStimulus('Surprise2')).toMatchObject({
+            marker: null,
+            emotion: { name: 'Surprise', valence: 'neutral', color: '#666666', valenceClass: { key: 'neutral' } },
+        });
+    });
+});
+
+describe('groupByEmotion', () => {
+    const grouped = (grouping: 'stimulus' | 'emotion' | 'valence') =>
+        groupByEmotion(STIMULI, stimulus => stimulus, grouping).map(group => [group.key, group.items]);
+
+    it('orders stimuli by marker, unknown ones last', () => {
+        const groups = groupByEmotion([...STIMULI, 'Surprise'], stimulus => stimulus, 'stimulus');
+
+        expect(groups.map(group => group.key)).toEqual([
+            'Baseline', 'Neutral1', 'Neutral10', 'Anger1', 'Anger3', 'Sadness1', 'Tenderness2', 'Positive_Low', 'Positive_High', 'Surprise',
+        ]);
+    });
+
+    it('orders emotions as the taxonomy lists them and keeps item order within a group', () => {
+        expect(grouped('emotion')).toEqual([
+            ['Baseline', ['Baseline']],
+            ['Neutral', ['Neutral10', 'Neutral1']],
+            ['Anger', ['Anger3', 'Anger1']],
+            ['Sadness', ['Sadness1']],
+            ['Positive_Emotion_High_Approach', ['Positive_High']],
+            ['Tenderness', ['Tenderness2']],
+            ['Positive_Emotion_Low_Approach', ['Positive_Low']],
+        ]);
+    });
+
+    it('orders valence classes from baseline through neutral, negative and positive', () => {
+        expect(grouped('valence')).toEqual([
+            ['baseline', ['Baseline']],
+            ['neutral', ['Neutral10', 'Neutral1']],
+            ['negative-high', ['Anger3', 'Anger1']],
+            ['negative-low', ['Sadness1']],
+            ['positive-high', ['Positive_High']],
+            ['positive-low', ['Tenderness2', 'Positive_Low']],
+        ]);
+    });
+});
+
+describe('emotionGroupOf', () => {
+    it('labels the group a stimulus is shown under', () => {
+        expect(emotionGroupOf('Anger3', 'stimulus')).toMatchObject({ key: 'Anger3', label: 'Anger3' });
+        expect(emotionGroupOf('Positive_High', 'emotion')).toMatchObject({
+            key: 'Positive_Emotion_High_Approach',
+            label: 'Positive Emotion High Approach',
+        });
+        expect(emotionGroupOf('Sadness2', 'valence')).toEqual({ key: 'negative-low', label: 'Negative, low arousal', color: '#6b21a8' });
+    });
+});
+
+describe('meanOf', () => {
+    it('averages the values present', () => {
+        expect(meanOf([1, undefined, 3, NaN, 5])).toBe(3);
+        expect(meanOf([undefined, NaN])).toBeUndefined();
+        expect(meanOf([])).toBeUndefined();
+    });
+
+    it('weights each value, ignoring the weights of missing ones', () => {
+        expect(meanOf([1, 4], [3, 1])).toBe(1.75);
+        expect(meanOf([2, undefined, 6, NaN], [1, 100, 3, 100])).toBe(5);
+        expect(meanOf([2, 6], [0, 0])).toBeUndefined();
+    });
+});
@@ -0,0 +1,187 @@
+import { MARKER_TO_EMOTION, EMOTION_COLORS } from '../types/popane';
+
+// Stimuli (MARKER_TO_EMOTION names such as "Anger3") belong to a discrete emotion, and
+// each emotion to a valence/arousal class of the circumplex model:
+//
+//   Anger3 (204) -> Anger -> negative valence, high arousal
+
+export type EmotionGrouping = 'stimulus' | 'emotion' | 'valence';
+
+export const EMOTION_GROUPINGS: EmotionGrouping[] = ['stimulus', 'emotion', 'valence'];
+export const DEFAULT_EMOTION_GROUPING: EmotionGrouping = 'stimulus';
+
+export const GROUPING_LABELS: Record<EmotionGrouping, string> = {
+    stimulus: 'Stimulus',
+    emotion: 'Emotion',
+    valence: 'Valence / arousal',
+};
+
+// Singular and plural of what one group is, for counts
+export const GROUPING_NOUNS: Record<EmotionGrouping, [string, string]> = {
+    stimulus: ['stimulus', 'stimuli'],
+    emotion: ['emotion', 'emotions'],
+    valence: ['valence class', 'valence classes'],
+};
+
+export type Valence = 'negative' | 'neutral' | 'positive';
+export type Arousal = 'low' | 'high';
+
+export interface ValenceClass {
+    key: string;
+    label: string;
+    color: string;
+}
+
+export interface EmotionCategory {
+    name: string;
+    valence: Valence;
+    arousal: Arousal;
+    color: string;
+    valenceClass: ValenceClass;
+}
+
+export interface StimulusInfo {
+    stimulus: string;
+    marker: number | null;
+    emotion: EmotionCategory;
+}
+
+// A bucket of items sharing a stimulus, emotion or valence class, in taxonomy order
+export interface EmotionGroup<T> {
+    key: string;
+    label: string;
+    color: string;
+    items: T[];
+}
+
+// Baseline is the resting period before any stimulus, so it gets a class of its own
+const VALENCE_CLASSES: ValenceClass[] = [
+    { key: 'baseline', label: 'Baseline', color: '#808080' },
+    { key: 'neutral', label: 'Neutral', color: '#85a576' },
+    { key: 'negative-high', label: 'Negative, high arousal', color: '#b91c1c' },
+    { key: 'negative-low', label: 'Negative, low arousal', color: '#6b21a8' },
+    { key: 'positive-high', label: 'Positive, high arousal', color: '#f59e0b' },
+    { key: 'positive-low', label: 'Positive, low arousal', color: '#0ea5e9' },
+];
+
+function valenceClass(key: string): ValenceClass {
+    return VALENCE_CLASSES.find(c => c.key === key)!;
+}
+
+function category(name: string, valence: Valence, arousal: Arousal, classKey?: string): EmotionCategory {
+    return {
+        name,
+        valence,
+        arousal,
+        color: EMOTION_COLORS[name] || '#666666',
+        valenceClass: valenceClass(classKey ?? (valence === 'neutral' ? 'neutral' : `${valence}-${arousal}`)),
+    };
+}
+
+// Discrete emotions in display order
+const EMOTIONS: EmotionCategory[] = [
+    category('Baseline', 'neutral', 'low', 'baseline'),
+    category('Neutral', 'neutral', 'low'),
+    category('Fear', 'negative', 'high'),
+    category('Threat', 'negative', 'high'),
+    category('Anger', 'negative', 'high'),
+    category('Disgust', 'negative', 'high'),
+    category('Sadness', 'negative', 'low'),
+    category('Amusement', 'positive', 'high'),
+    category('Excitement', 'positive', 'high'),
+    category('Positive_Emotion_High_Approach', 'positive', 'high'),
+    category('Tenderness', 'positive', 'low'),
+    category('Gratitude', 'positive', 'low'),
+    category('Positive_Emotion_Low_Approach', 'positive', 'low'),
+];
+
+// Stimulus names that are not "<emotion><number>"
+const STIMULUS_ALIASES: Record<string, string> = {
+    Positive_High: 'Positive_Emotion_High_Approach',
+    Positive_Low: 'Positive_Emotion_Low_Approach',
+};
+
+const STIMULUS_MARKERS = new Map<string, number>(
+    Object.entries(MARKER_TO_EMOTION).map(([marker, name]) => [name, Number(marker)])
+);
+
+const stimulusCache = new Map<string, StimulusInfo>();
+
+/**
+ * classifyStimulus - Marker, discrete emotion and valence class of a stimulus name
+ * Unknown names are their own emotion, classed as neutral.
+ */
+export function classifyStimulus(stimulus: string): StimulusInfo {
+    const cached = stimulusCache.get(stimulus);
+    if (cached) return cached;
+
+    const name = STIMULUS_ALIASES[stimulus] ?? stimulus.replace(/\d+$/, '');
+    const emotion = EMOTIONS.find(e => e.name === name) ?? category(name, 'neutral', 'low');
+    const info = { stimulus, marker: STIMULUS_MARKERS.get(stimulus) ?? null, emotion };
+    stimulusCache.set(stimulus, info);
+    return info;
+}
+
+function groupKey(info: StimulusInfo, grouping: EmotionGrouping): Omit<EmotionGroup<never>, 'items'> & { order: number } {
+    switch (grouping) {
+        case 'emotion':
+            return {
+                key: info.emotion.name,
+                label: info.emotion.name.replace(/_/g, ' '),
+                color: info.emotion.color,
+                order: EMOTIONS.indexOf(info.emotion),
+            };
+        case 'valence':
+            return {
+                ...info.emotion.valenceClass,
+                order: VALENCE_CLASSES.indexOf(info.emotion.valenceClass),
+            };
+        default:
+            return {
+                key: info.stimulus,
+                label: info.stimulus,
+                color: info.emotion.color,
+                order: info.marker ?? Infinity,
+            };
+    }
+}
+
+/**
+ * groupByEmotion - Buckets items by their stimulus, discrete emotion or valence class
+ * Groups come back in taxonomy order (marker order for stimuli); items keep their order.
+ */
+export function groupByEmotion<T>(
+    items: T[],
+    stimulusOf: (item: T) => string,
+    grouping: EmotionGrouping
+): EmotionGroup<T>[] {
+    const groups = new Map<string, EmotionGroup<T> & { order: number }>();
+    items.forEach(item => {
+        const key = groupKey(classifyStimulus(stimulusOf(item)), grouping);
+        const group = groups.get(key.key);
+        if (group) group.items.push(item);
+        else groups.set(key.key, { ...key, items: [item] });
+    });
+    return Array.from(groups.values())
+        .sort((a, b) => a.order - b.order || a.key.localeCompare(b.key))
+        .map(({ key, label, color, items: grouped }) => ({ key, label, color, items: grouped }));
+}
+
+// Group a single stimulus is shown under
+export function emotionGroupOf(stimulus: string, grouping: EmotionGrouping): Omit<EmotionGroup<never>, 'items'> {
+    const { key, label, color } = groupKey(classifyStimulus(stimulus), grouping);
+    return { key, label, color };
+}
+
+// Mean of the values present (undefined and NaN skipped), weighted when weights are given
+export function meanOf(values: Array<number | undefined>, weights?: number[]): number | undefined {
+    let sum = 0;
+    let total = 0;
+    values.forEach((value, i) => {
+        if (value === undefined || Number.isNaN(value)) return;
+        const weight = weights ? weights[i] : 1;
+        sum += value * weight;
+        total += weight;
+    });
+    return total > 0 ? sum / total : undefined;
+}
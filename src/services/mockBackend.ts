@@ -0,0 +1,816 @@
+import {
+    StudyData,
+    StudyMetadata,
+    STUDY_INFO,
+    QueryParams,
+    SubjectInfo,
+    STUDY_COLUMNS,
+    MARKER_TO_EMOTION,
+    EMOTION_COLORS,
+    EmotionColorMap,
+    EmotionColoredSignalsResponse,
+    SignalSeries,
+    PCAResponse,
+    FeatureInfo,
+    EmotionSummaryResponse,
+    EmotionFeatures,
+    FeatureAnalysisResponse,
+    PowerSpectrumResponse,
+    FFTResponse,
+    FeatureMatrixResponse,
+    FrequencyPCAResponse,
+    SignalOverviewResponse,
+} from '../types/popane';
+import { SyntheticRecording, createRng, hashSeed } from './syntheticPhysiology';
+import { COLUMNAR_MEDIA_TYPE, ColumnarTable, TableColumn, dictionaryColumn, encodeColumnar } from './columnarFormat';
+
+// In-browser stand-in for the FastAPI backend, used when mock mode is on.
+// Recordings come from SyntheticRecording seeded by (study, subject), so repeated calls agree with each other.
+
+const SAMPLE_RATE = 250;         // Hz of the synthetic recordings
+const SUMMARY_RATE = 50;         // Hz used for spectra, PCA and the feature matrix, where beat detail is not needed
+const ANALYSIS_RATE = 10;        // Hz after block-averaging, used for spectra
+const SEGMENT_SECONDS = 60;      // duration of each stimulus
+const STIMULI_PER_SUBJECT = 6;   // stimuli shown after the baseline
+
+const NON_SIGNAL_COLUMNS = ['Subject_ID', 'timestamp', 'marker'];
+
+const SUBJECT_COUNTS: Record<number, number> = {
+    1: 40, 2: 35, 3: 45, 4: 30, 5: 38, 6: 42, 7: 25
+};
+
+const FEATURE_META: Record<string, { unit: string; title: string; color: string }> = {
+    affect: { unit: 'rating', title: 'Affect', color: '#f59e0b' },
+    ECG: { unit: 'mV', title: 'Electrocardiogram', color: '#ef4444' },
+    EDA: { unit: 'µS', title: 'Electrodermal Activity', color: '#3b82f6' },
+    temp: { unit: '°C', title: 'Temperature', color: '#f97316' },
+    respiration: { unit: 'a.u.', title: 'Respiration', color: '#10b981' },
+    SBP: { unit: 'mmHg', title: 'Systolic Blood Pressure', color: '#8b5cf6' },
+    DBP: { unit: 'mmHg', title: 'Diastolic Blood Pressure', color: '#a855f7' },
+    CO: { unit: 'L/min', title: 'Cardiac Output', color: '#ec4899' },
+    TPR: { unit: 'dyn·s/cm⁵', title: 'Total Peripheral Resistance', color: '#14b8a6' },
+    dzdt: { unit: 'Ω/s', title: 'Impedance Derivative (dZ/dt)', color: '#6366f1' },
+    dz: { unit: 'Ω', title: 'Impedance Change (dZ)', color: '#0ea5e9' },
+    z0: { unit: 'Ω', title: 'Basal Impedance (Z0)', color: '#84cc16' },
+};
+
+// Highest frequency kept for the feature matrix; covers heart rate and respiration
+const MATRIX_MAX_FREQ = 2;
+
+const FREQUENCY_BANDS = {
+    vlf: { min: 0.003, max: 0.04, label: 'VLF' },
+    lf: { min: 0.04, max: 0.15, label: 'LF' },
+    hf: { min: 0.15, max: 0.4, label: 'HF' },
+};
+
+interface Segment {
+    marker: number;
+    emotion: string;
+    start: number;
+    end: number;
+}
+
+function abortError(): Error {
+    const err = new Error('The request was aborted');
+    err.name = 'AbortError';
+    return err;
+}
+
+// Yield to the event loop like a real request would, and honour cancellation
+async function respond<T>(build: () => T, signal?: AbortSignal): Promise<T> {
+    await new Promise(resolve => setTimeout(resolve, 0));
+    if (signal?.aborted) throw abortError();
+    return build();
+}
+
+// --- Recordings ---
+
+function emotionColor(emotion: string): string {
+    return EMOTION_COLORS[emotion] || '#666666';
+}
+
+function signalColumns(studyNumber: number): string[] {
+    return (STUDY_COLUMNS[studyNumber] || []).filter(col => !NON_SIGNAL_COLUMNS.includes(col));
+}
+
+// Baseline followed by a subject-specific random selection of stimuli
+function protocol(studyNumber: number, subjectId: number): Segment[] {
+    const rng = createRng(hashSeed('protocol', studyNumber, subjectId));
+    const stimuli = Object.keys(MARKER_TO_EMOTION).map(Number).filter(marker => marker > 0);
+
+    for (let i = stimuli.length - 1; i > 0; i--) {
+        const j = Math.floor(rng() * (i + 1));
+        const swap = stimuli[i];
+        stimuli[i] = stimuli[j];
+        stimuli[j] = swap;
+    }
+
+    const markers = [-1, ...stimuli.slice(0, STIMULI_PER_SUBJECT)];
+    return markers.map((marker, i) => ({
+        marker,
+        emotion: MARKER_TO_EMOTION[marker],
+        start: i * SEGMENT_SECONDS,
+        end: (i + 1) * SEGMENT_SECONDS,
+    }));
+}
+
+// Recordings are rebuilt on demand; keep the most recently used ones around
+const RECORDING_CACHE_SIZE = 64;
+const recordings = new Map<string, SyntheticRecording>();
+
+function recording(studyNumber: number, subjectId: number): SyntheticRecording {
+    const key = `${studyNumber}/${subjectId}`;
+    let cached = recordings.get(key);
+    if (cached) {
+        recordings.delete(key);
+    } else {
+        cached = new SyntheticRecording(hashSeed('recording', studyNumber, subjectId), protocol(studyNumber, subjectId));
+        if (recordings.size >= RECORDING_CACHE_SIZE) {
+            recordings.delete(recordings.keys().next().value as string);
+        }
+    }
+    recordings.set(key, cached);
+    return cached;
+}
+
+// Samples of one channel over [start, end) seconds of a subject's recording
+function channel(studyNumber: number, subjectId: number, column: string, start: number, end: number, rate: number = SAMPLE_RATE): number[] {
+    return recording(studyNumber, subjectId).channel(column, start, end, rate);
+}
+
+function segmentChannel(studyNumber: number, subjectId: number, column: string, segment: Segment, rate: number = SAMPLE_RATE): number[] {
+    return channel(studyNumber, subjectId, column, segment.start, segment.end, rate);
+}
+
+// --- Signal processing helpers ---
+
+function mean(values: number[]): number {
+    return values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+function std(values: number[]): number {
+    const m = mean(values);
+    return Math.sqrt(mean(values.map(v => (v - m) * (v - m))));
+}
+
+function decimate(values: number[], rate: number = SUMMARY_RATE): number[] {
+    const factor = rate / ANALYSIS_RATE;
+    const out: number[] = [];
+    for (let i = 0; i + factor <= values.length; i += factor) {
+        out.push(mean(values.slice(i, i + factor)));
+    }
+    return out;
+}
+
+// One-sided periodogram of a mean-removed signal, up to maxFreq
+function periodogram(values: number[], rate: number, maxFreq: number): { frequency: number; power: number; magnitude: number }[] {
+    const n = values.length;
+    const m = mean(values);
+    const centered = values.map(v => v - m);
+    const bins: { frequency: number; power: number; magnitude: number }[] = [];
+
+    for (let k = 1; k <= n / 2; k++) {
+        const frequency = (k * rate) / n;
+        if (frequency > maxFreq) break;
+
+        let re = 0;
+        let im = 0;
+        for (let i = 0; i < n; i++) {
+            const angle = (2 * Math.PI * k * i) / n;
+            re += centered[i] * Math.cos(angle);
+            im -= centered[i] * Math.sin(angle);
+        }
+        const magnitude = Math.sqrt(re * re + im * im) / n;
+        bins.push({ frequency, power: (2 * (re * re + im * im)) / (rate * n), magnitude });
+    }
+    return bins;
+}
+
+function bandPower(spectrum: { frequency: number; power: number }[], band: { min: number; max: number }): number {
+    return spectrum
+        .filter(bin => bin.frequency >= band.min && bin.frequency < band.max)
+        .reduce((sum, bin) => sum + bin.power, 0);
+}
+
+function peakFrequency(spectrum: { frequency: number; power: number }[], band: { min: number; max: number }): number {
+    const inBand = spectrum.filter(bin => bin.frequency >= band.min && bin.frequency < band.max);
+    if (inBand.length === 0) return 0;
+    return inBand.reduce((best, bin) => (bin.power > best.power ? bin : best)).frequency;
+}
+
+// Beat-to-beat intervals (ms) from local maxima well above the signal mean
+function rrIntervals(values: number[]): number[] {
+    const threshold = mean(values) + 2 * std(values);
+    const refractory = Math.round(0.3 * SAMPLE_RATE);
+    const peaks: number[] = [];
+
+    for (let i = 1; i < values.length - 1; i++) {
+        if (values[i] > threshold && values[i] >= values[i - 1] && values[i] > values[i + 1]) {
+            if (peaks.length === 0 || i - peaks[peaks.length - 1] > refractory) {
+                peaks.push(i);
+            }
+        }
+    }
+    return peaks.slice(1).map((p, i) => ((p - peaks[i]) * 1000) / SAMPLE_RATE);
+}
+
+function dot(a: number[], b: number[]): number {
+    return a.reduce((sum, v, i) => sum + v * b[i], 0);
+}
+
+function multiply(matrix: number[][], vector: number[]): number[] {
+    return matrix.map(row => dot(row, vector));
+}
+
+// Two leading principal components of z-scored rows (power iteration with deflation)
+function pca2(rows: number[][]): { scores: [number, number][]; variance: [number, number] } {
+    const n = rows.length;
+    const d = rows[0]?.length ?? 0;
+    if (n < 2 || d < 2) {
+        return { scores: rows.map(() => [0, 0] as [number, number]), variance: [0, 0] };
+    }
+
+    const columns = Array.from({ length: d }, (_, j) => rows.map(row => row[j]));
+    const z = rows.map(row => row.map((v, j) => {
+        const s = std(columns[j]);
+        return s > 0 ? (v - mean(columns[j])) / s : 0;
+    }));
+
+    const cov = Array.from({ length: d }, (_, a) =>
+        Array.from({ length: d }, (_, b) => z.reduce((sum, row) => sum + row[a] * row[b], 0) / (n - 1))
+    );
+    const totalVariance = cov.reduce((sum, row, i) => sum + row[i], 0) || 1;
+
+    const components: number[][] = [];
+    const eigenvalues: number[] = [];
+    for (let c = 0; c < 2; c++) {
+        let vector = Array.from({ length: d }, (_, i) => 1 / Math.sqrt(d) + i * 1e-3);
+        for (let iter = 0; iter < 100; iter++) {
+            const next = multiply(cov, vector);
+            const norm = Math.sqrt(dot(next, next)) || 1;
+            vector = next.map(v => v / norm);
+        }
+        const eigenvalue = dot(vector, multiply(cov, vector));
+        components.push(vector);
+        eigenvalues.push(eigenvalue);
+        for (let a = 0; a < d; a++) {
+            for (let b = 0; b < d; b++) {
+                cov[a][b] -= eigenvalue * vector[a] * vector[b];
+            }
+        }
+    }
+
+    return {
+        scores: z.map(row => [dot(row, components[0]), dot(row, components[1])] as [number, number]),
+        variance: [eigenvalues[0] / totalVariance, eigenvalues[1] / totalVariance],
+    };
+}
+
+function emotionsOf(segments: Segment[]): EmotionColorMap[] {
+    return segments.map(segment => ({ emotion: segment.emotion, color: emotionColor(segment.emotion) }));
+}
+
+function validFeatures(studyNumber: number, features?: string[]): string[] {
+    const available = signalColumns(studyNumber);
+    return features && features.length > 0 ? features.filter(f => available.includes(f)) : available;
+}
+
+// --- Endpoints ---
+
+export function mockStudyData(params: QueryParams, signal?: AbortSignal): Promise<StudyData[]> {
+    return respond(() => {
+        const columns = STUDY_COLUMNS[params.studyNumber] || [];
+        const subjectIds = params.subjectIds && params.subjectIds.length > 0
+            ? params.subjectIds
+            : [params.subjectId || 1];
+        const perSubject = Math.ceil((params.limit || 1000) / subjectIds.length);
+        const rows: StudyData[] = [];
+
+        subjectIds.forEach(subjectId => {
+            const segments = protocol(params.studyNumber, subjectId);
+            const recordingEnd = segments[segments.length - 1].end;
+            const start = (params.startTime || 0) + (params.offset || 0) / SAMPLE_RATE;
+            const end = Math.min(params.endTime || recordingEnd, start + perSubject / SAMPLE_RATE);
+
+            const channels: Record<string, number[]> = {};
+            signalColumns(params.studyNumber).forEach(col => {
+                channels[col] = channel(params.studyNumber, subjectId, col, start, end);
+            });
+
+            const first = Math.ceil(start * SAMPLE_RATE);
+            const count = Math.max(0, Math.ceil(end * SAMPLE_RATE) - first);
+            for (let i = 0; i < count; i++) {
+                const t = (first + i) / SAMPLE_RATE;
+                const segment = segments[Math.min(Math.floor(t / SEGMENT_SECONDS), segments.length - 1)];
+                const row: StudyData = { Subject_ID: subjectId, timestamp: t, ECG: 0, EDA: 0, marker: segment.marker };
+                columns.forEach(col => {
+                    if (channels[col]) {
+                        (row as unknown as Record<string, number>)[col] = channels[col][i];
+                    }
+                });
+                rows.push(row);
+            }
+        });
+
+        return rows;
+    }, signal);
+}
+
+export function mockStudies(signal?: AbortSignal): Promise<StudyMetadata[]> {
+    return respond(() => STUDY_INFO.map(study => {
+        const subjectCount = SUBJECT_COUNTS[study.studyNumber] || 30;
+        const stimuli = new Set<number>();
+        for (let subjectId = 1; subjectId <= subjectCount; subjectId++) {
+            protocol(study.studyNumber, subjectId).forEach(segment => stimuli.add(segment.marker));
+        }
+        return {
+            ...study,
+            subjectCount,
+            samplingRate: SAMPLE_RATE,
+            stimuli: Array.from(stimuli).sort((a, b) => a - b),
+        };
+    }), signal);
+}
+
+export function mockSubjects(studyNumber: number, signal?: AbortSignal): Promise<SubjectInfo[]> {
+    return respond(() => {
+        const count = SUBJECT_COUNTS[studyNumber] || 30;
+        return Array.from({ length: count }, (_, i) => {
+            const segments = protocol(studyNumber, i + 1);
+            return {
+                id: i + 1,
+                studyNumber,
+                recordCount: segments[segments.length - 1].end * SAMPLE_RATE,
+            };
+        });
+    }, signal);
+}
+
+export async function mockStudyStats(studyNumber: number, signal?: AbortSignal): Promise<{ totalRecords: number; subjects: number }> {
+    const subjects = await mockSubjects(studyNumber, signal);
+    return {
+        totalRecords: subjects.reduce((sum, s) => sum + s.recordCount, 0),
+        subjects: subjects.length,
+    };
+}
+
+export function mockSearch(query: string, signal?: AbortSignal): Promise<{ studyNumber: number; subjectId: number; matches: number }[]> {
+    return respond(() => {
+        const needle = query.trim().toLowerCase();
+        if (!needle) return [];
+
+        const results: { studyNumber: number; subjectId: number; matches: number }[] = [];
+        Object.keys(STUDY_COLUMNS).map(Number).forEach(studyNumber => {
+            const count = SUBJECT_COUNTS[studyNumber] || 30;
+            for (let subjectId = 1; subjectId <= count; subjectId++) {
+                const matches = protocol(studyNumber, subjectId)
+                    .filter(segment => segment.emotion.toLowerCase().includes(needle)).length;
+                if (matches > 0) {
+                    results.push({ studyNumber, subjectId, matches });
+                }
+            }
+        });
+        return results;
+    }, signal);
+}
+
+export function mockFeatures(studyNumber: number, signal?: AbortSignal): Promise<FeatureInfo[]> {
+    return respond(() => signalColumns(studyNumber).map(name => ({
+        name,
+        unit: FEATURE_META[name]?.unit ?? '',
+        title: FEATURE_META[name]?.title ?? name,
+        default_color: FEATURE_META[name]?.color ?? '#666666',
+    })), signal);
+}
+
+export function mockEmotionColoredSignals(
+    studyNumber: number,
+    subjectId: number,
+    features: string[] | undefined,
+    startTime: number,
+    endTime: number,
+    secondsPerEmotion: number | undefined,
+    signal?: AbortSignal
+): Promise<EmotionColoredSignalsResponse> {
+    return respond(() => {
+        const segments = protocol(studyNumber, subjectId);
+
+        // Either the first N seconds of every stimulus placed back to back, or a plain time window
+        const windows = secondsPerEmotion !== undefined
+            ? segments.map((segment, i) => ({
+                segment,
+                start: segment.start,
+                end: Math.min(segment.end, segment.start + secondsPerEmotion),
+                offset: i * secondsPerEmotion - segment.start,
+            }))
+            : segments
+                .filter(segment => segment.end > startTime && segment.start < endTime)
+                .map(segment => ({
+                    segment,
+                    start: Math.max(segment.start, startTime),
+                    end: Math.min(segment.end, endTime),
+                    offset: 0,
+                }));
+
+        const signals: SignalSeries[] = validFeatures(studyNumber, features).map(feature => ({
+            feature,
+            unit: FEATURE_META[feature]?.unit ?? '',
+            title: FEATURE_META[feature]?.title ?? feature,
+            data_points: windows.flatMap(window =>
+                channel(studyNumber, subjectId, feature, window.start, window.end).map((value, i) => ({
+                    time_offset: window.start + i / SAMPLE_RATE + window.offset,
+                    value,
+                    emotion: window.segment.emotion,
+                    color: emotionColor(window.segment.emotion),
+                }))
+            ),
+        }));
+
+        const offsets = signals[0]?.data_points.map(p => p.time_offset) ?? [];
+        return {
+            study_number: studyNumber,
+            subject_id: subjectId,
+            study_name: `Study ${studyNumber}`,
+            emotions: emotionsOf(windows.map(window => window.segment)),
+            signals,
+            available_features: signalColumns(studyNumber),
+            time_range: {
+                min: offsets.length ? offsets[0] : 0,
+                max: offsets.length ? offsets[offsets.length - 1] : 0,
+            },
+        };
+    }, signal);
+}
+
+export function mockSignalOverview(
+    studyNumber: number,
+    subjectId: number,
+    feature: string,
+    points: number,
+    signal?: AbortSignal
+): Promise<SignalOverviewResponse> {
+    return respond(() => {
+        const segments = protocol(studyNumber, subjectId);
+        const duration = segments[segments.length - 1].end;
+        const values = validFeatures(studyNumber, [feature]).length > 0
+            ? channel(studyNumber, subjectId, feature, 0, duration, SUMMARY_RATE)
+            : [];
+
+        const bucketSeconds = duration / points;
+        const envelope = Array.from({ length: points }, (_, i) => {
+            const bucket = values.slice(
+                Math.floor(i * bucketSeconds * SUMMARY_RATE),
+                Math.floor((i + 1) * bucketSeconds * SUMMARY_RATE)
+            );
+            return {
+                time: i * bucketSeconds,
+                min: bucket.length ? Math.min(...bucket) : null,
+                max: bucket.length ? Math.max(...bucket) : null,
+            };
+        });
+
+        return {
+            study_number: studyNumber,
+            subject_id: subjectId,
+            feature,
+            unit: FEATURE_META[feature]?.unit ?? '',
+            duration,
+            segments: segments.map(segment => ({ ...segment, color: emotionColor(segment.emotion) })),
+            points: envelope,
+        };
+    }, signal);
+}
+
+export function mockPCAAnalysis(
+    studyNumber: number,
+    subjectIds: number[] | undefined,
+    features: string[] | undefined,
+    sampleSize: number,
+    signal?: AbortSignal
+): Promise<PCAResponse> {
+    return respond(() => {
+        const used = validFeatures(studyNumber, features);
+        const subjects = subjectIds && subjectIds.length > 0 ? subjectIds : [1];
+        const points: { subjectId: number; emotion: string; values: number[] }[] = [];
+        const seen = new Map<string, EmotionColorMap>();
+
+        subjects.forEach(subjectId => {
+            const segments = protocol(studyNumber, subjectId);
+            const perSegment = Math.max(1, Math.floor(sampleSize / (subjects.length * segments.length)));
+            const step = Math.max(1, Math.floor((SEGMENT_SECONDS * SUMMARY_RATE) / perSegment));
+
+            segments.forEach(segment => {
+                seen.set(segment.emotion, { emotion: segment.emotion, color: emotionColor(segment.emotion) });
+                const channels = used.map(f => segmentChannel(studyNumber, subjectId, f, segment, SUMMARY_RATE));
+                for (let i = 0; i < perSegment; i++) {
+                    points.push({
+                        subjectId,
+                        emotion: segment.emotion,
+                        values: channels.map(values => values[Math.min(i * step, values.length - 1)]),
+                    });
+                }
+            });
+        });
+
+        const { scores, variance } = pca2(points.map(p => p.values));
+        return {
+            study_number: studyNumber,
+            data_points: points.map((p, i) => ({
+                pc1: scores[i][0],
+                pc2: scores[i][1],
+                emotion: p.emotion,
+                color: emotionColor(p.emotion),
+                subject_id: p.subjectId,
+            })),
+            explained_variance: variance,
+            features_used: used,
+            emotions: Array.from(seen.values()),
+        };
+    }, signal);
+}
+
+export function mockEmotionSummary(studyNumber: number, subjectIds: number[], signal?: AbortSignal): Promise<EmotionSummaryResponse> {
+    return respond(() => {
+        const emotionCounts: Record<string, number> = {};
+        const subjectsPerEmotion: Record<string, number[]> = {};
+
+        subjectIds.forEach(subjectId => {
+            protocol(studyNumber, subjectId).forEach(segment => {
+                emotionCounts[segment.emotion] = (emotionCounts[segment.emotion] || 0) + 1;
+                subjectsPerEmotion[segment.emotion] = [...(subjectsPerEmotion[segment.emotion] || []), subjectId];
+            });
+        });
+
+        return { emotionCounts, subjectsPerEmotion, totalSubjects: subjectIds.length, studyNumber };
+    }, signal);
+}
+
+function analyzeSegment(values: number[], feature: string, samplingRate: number): Omit<EmotionFeatures, 'emotion' | 'color'> {
+    const spectrum = periodogram(decimate(values, SAMPLE_RATE), ANALYSIS_RATE, ANALYSIS_RATE / 2);
+    const vlf = bandPower(spectrum, FREQUENCY_BANDS.vlf);
+    const lf = bandPower(spectrum, FREQUENCY_BANDS.lf);
+    const hf = bandPower(spectrum, FREQUENCY_BANDS.hf);
+
+    // HRV metrics only make sense for ECG
+    const rr = feature === 'ECG' ? rrIntervals(values) : [];
+    const diffs = rr.slice(1).map((v, i) => v - rr[i]);
+    const hasHrv = diffs.length > 1;
+
+    return {
+        time_domain: {
+            mean: mean(values),
+            std: std(values),
+            min_val: Math.min(...values),
+            max_val: Math.max(...values),
+            range_val: Math.max(...values) - Math.min(...values),
+            rmssd: hasHrv ? Math.sqrt(mean(diffs.map(d => d * d))) : null,
+            sdnn: hasHrv ? std(rr) : null,
+            sdsd: hasHrv ? std(diffs) : null,
+            pnn50: hasHrv ? (diffs.filter(d => Math.abs(d) > 50).length / diffs.length) * 100 : null,
+            pnn20: hasHrv ? (diffs.filter(d => Math.abs(d) > 20).length / diffs.length) * 100 : null,
+            n_samples: values.length,
+            duration_sec: values.length / SAMPLE_RATE,
+        },
+        frequency_domain: {
+            vlf_power: vlf,
+            lf_power: lf,
+            hf_power: hf,
+            total_power: vlf + lf + hf,
+            lf_nu: lf + hf > 0 ? (lf / (lf + hf)) * 100 : 0,
+            hf_nu: lf + hf > 0 ? (hf / (lf + hf)) * 100 : 0,
+            lf_hf_ratio: hf > 0 ? lf / hf : 0,
+            vlf_peak: peakFrequency(spectrum, FREQUENCY_BANDS.vlf),
+            lf_peak: peakFrequency(spectrum, FREQUENCY_BANDS.lf),
+            hf_peak: peakFrequency(spectrum, FREQUENCY_BANDS.hf),
+            n_samples: values.length,
+            sampling_rate: samplingRate,
+        },
+    };
+}
+
+export function mockFeatureAnalysis(
+    studyNumber: number,
+    subjectId: number,
+    feature: string,
+    samplingRate: number,
+    signal?: AbortSignal
+): Promise<FeatureAnalysisResponse> {
+    return respond(() => {
+        const segments = protocol(studyNumber, subjectId);
+        const emotions = segments.map(segment => ({
+            emotion: segment.emotion,
+            color: emotionColor(segment.emotion),
+            ...analyzeSegment(segmentChannel(studyNumber, subjectId, feature, segment), feature, samplingRate),
+        }));
+
+        return {
+            study_number: studyNumber,
+            subject_id: subjectId,
+            feature,
+            feature_title: FEATURE_META[feature]?.title ?? feature,
+            feature_unit: FEATURE_META[feature]?.unit ?? '',
+            emotions,
+            summary: {
+                n_emotions: emotions.length,
+                total_samples: emotions.reduce((sum, e) => sum + e.time_domain.n_samples, 0),
+                sampling_rate: samplingRate,
+            },
+        };
+    }, signal);
+}
+
+export function mockPowerSpectrum(
+    studyNumber: number,
+    subjectId: number,
+    feature: string,
+    maxFreq: number,
+    signal?: AbortSignal
+): Promise<PowerSpectrumResponse> {
+    return respond(() => ({
+        study_number: studyNumber,
+        subject_id: subjectId,
+        feature,
+        spectra: protocol(studyNumber, subjectId).map(segment => ({
+            emotion: segment.emotion,
+            color: emotionColor(segment.emotion),
+            data: periodogram(decimate(segmentChannel(studyNumber, subjectId, feature, segment, SUMMARY_RATE)), ANALYSIS_RATE, maxFreq)
+                .map(({ frequency, power }) => ({ frequency, power })),
+        })),
+        frequency_bands: FREQUENCY_BANDS,
+    }), signal);
+}
+
+export function mockFFT(
+    studyNumber: number,
+    subjectId: number,
+    feature: string,
+    maxFreq: number,
+    signal?: AbortSignal
+): Promise<FFTResponse> {
+    return respond(() => ({
+        study_number: studyNumber,
+        subject_id: subjectId,
+        feature,
+        feature_title: FEATURE_META[feature]?.title ?? feature,
+        sampling_interval: 1 / ANALYSIS_RATE,
+        max_frequency: maxFreq,
+        emotions: protocol(studyNumber, subjectId).map(segment => {
+            const values = decimate(segmentChannel(studyNumber, subjectId, feature, segment, SUMMARY_RATE));
+            const spectrum = periodogram(values, ANALYSIS_RATE, maxFreq);
+            const dominant = spectrum.reduce((best, bin) => (bin.magnitude > best.magnitude ? bin : best), spectrum[0]);
+            return {
+                emotion: segment.emotion,
+                color: emotionColor(segment.emotion),
+                spectrum: spectrum.map(({ frequency, magnitude }) => ({ frequency, magnitude })),
+                dominant_frequency: dominant ? dominant.frequency : 0,
+                signal_energy: spectrum.reduce((sum, bin) => sum + bin.magnitude * bin.magnitude, 0),
+                n_samples: values.length,
+            };
+        }),
+    }), signal);
+}
+
+const MATRIX_METRICS = ['mean', 'std', 'dom_freq', 'energy', 'lf_power', 'hf_power', 'lf_hf_ratio'];
+
+function featureMatrix(studyNumber: number, features: string[], subjectIds: number[]): FeatureMatrixResponse {
+    const used = validFeatures(studyNumber, features);
+    const columns = ['Subject', 'Emotion', ...used.flatMap(f => MATRIX_METRICS.map(metric => `${f}_${metric}`))];
+    const rows: FeatureMatrixResponse['rows'] = [];
+    const emotions = new Set<string>();
+
+    subjectIds.forEach(subjectId => {
+        protocol(studyNumber, subjectId).forEach(segment => {
+            emotions.add(segment.emotion);
+            const row: FeatureMatrixResponse['rows'][number] = {
+                Subject: subjectId,
+                Emotion: segment.emotion,
+                _color: emotionColor(segment.emotion),
+            };
+
+            used.forEach(feature => {
+                const values = segmentChannel(studyNumber, subjectId, feature, segment, SUMMARY_RATE);
+                const spectrum = periodogram(decimate(values), ANALYSIS_RATE, MATRIX_MAX_FREQ);
+                const dominant = spectrum.reduce((best, bin) => (bin.magnitude > best.magnitude ? bin : best), spectrum[0]);
+                const lf = bandPower(spectrum, FREQUENCY_BANDS.lf);
+                const hf = bandPower(spectrum, FREQUENCY_BANDS.hf);
+
+                row[`${feature}_mean`] = mean(values);
+                row[`${feature}_std`] = std(values);
+                row[`${feature}_dom_freq`] = dominant ? dominant.frequency : 0;
+                row[`${feature}_energy`] = spectrum.reduce((sum, bin) => sum + bin.magnitude * bin.magnitude, 0);
+                row[`${feature}_lf_power`] = lf;
+                row[`${feature}_hf_power`] = hf;
+                row[`${feature}_lf_hf_ratio`] = hf > 0 ? lf / hf : 0;
+            });
+            rows.push(row);
+        });
+    });
+
+    return {
+        study_number: studyNumber,
+        columns,
+        signals_used: used,
+        n_subjects: subjectIds.length,
+        n_emotions: emotions.size,
+        n_features: columns.length - 2,
+        rows,
+    };
+}
+
+export function mockFeatureMatrix(
+    studyNumber: number,
+    features: string[],
+    subjectIds: number[],
+    signal?: AbortSignal
+): Promise<FeatureMatrixResponse> {
+    return respond(() => featureMatrix(studyNumber, features, subjectIds), signal);
+}
+
+export function mockFrequencyPCA(
+    studyNumber: number,
+    features: string[],
+    subjectIds: number[],
+    signal?: AbortSignal
+): Promise<FrequencyPCAResponse> {
+    return respond(() => {
+        const matrix = featureMatrix(studyNumber, features, subjectIds);
+        const featureColumns = matrix.columns.slice(2);
+        const { scores, variance } = pca2(matrix.rows.map(row => featureColumns.map(col => Number(row[col]))));
+
+        return {
+            study_number: studyNumber,
+            features_used: matrix.signals_used,
+            n_subjects: matrix.n_subjects,
+            n_emotions: matrix.n_emotions,
+            n_points: matrix.rows.length,
+            variance_explained: variance,
+            data_points: matrix.rows.map((row, i) => ({
+                subject_id: row.Subject,
+                emotion: row.Emotion,
+                color: row._color,
+                pc1: scores[i][0],
+                pc2: scores[i][1],
+            })),
+        };
+    }, signal);
+}
+
+// --- Transport ---
+
+// The raw signal endpoints answer for the request's Accept header like the backend does,
+// so mock mode exercises both the columnar decoder and the JSON fallback.
+// REACT_APP_MOCK_TRANSPORT=json stands in for a backend without the columnar transport.
+const COLUMNAR_SUPPORTED = process.env.REACT_APP_MOCK_TRANSPORT !== 'json';
+
+function negotiated(accept: string, payload: unknown, toTable: () => ColumnarTable): Response {
+    if (COLUMNAR_SUPPORTED && accept.includes(COLUMNAR_MEDIA_TYPE)) {
+        return new Response(encodeColumnar(toTable()), { headers: { 'Content-Type': COLUMNAR_MEDIA_TYPE } });
+    }
+    return new Response(JSON.stringify(payload), { headers: { 'Content-Type': 'application/json' } });
+}
+
+function studyDataTable(rows: StudyData[]): ColumnarTable {
+    const records = rows as unknown as Record<string, number | undefined>[];
+    const names = Array.from(new Set(records.flatMap(record => Object.keys(record))));
+    const columns = new Map<string, TableColumn>();
+    names.forEach(name => {
+        columns.set(name, name === 'Subject_ID' || name === 'marker'
+            ? Int32Array.from(records, record => record[name] ?? 0)
+            : Float64Array.from(records, record => record[name] ?? NaN));
+    });
+    return { rowCount: rows.length, metadata: null, columns };
+}
+
+function signalsTable(response: EmotionColoredSignalsResponse): ColumnarTable {
+    const points = response.signals.flatMap((series, index) => series.data_points.map(point => ({ index, point })));
+    return {
+        rowCount: points.length,
+        metadata: { ...response, signals: response.signals.map(({ data_points, ...series }) => series) },
+        columns: new Map<string, TableColumn>([
+            ['signal', Int32Array.from(points, ({ index }) => index)],
+            ['time_offset', Float64Array.from(points, ({ point }) => point.time_offset)],
+            ['value', Float64Array.from(points, ({ point }) => point.value ?? NaN)],
+            ['emotion', dictionaryColumn(points.map(({ point }) => point.emotion))],
+            ['color', dictionaryColumn(points.map(({ point }) => point.color))],
+        ]),
+    };
+}
+
+export async function mockStudyDataResponse(params: QueryParams, accept: string, signal?: AbortSignal): Promise<Response> {
+    const rows = await mockStudyData(params, signal);
+    return negotiated(accept, rows, () => studyDataTable(rows));
+}
+
+export async function mockEmotionColoredSignalsResponse(
+    studyNumber: number,
+    subjectId: number,
+    features: string[] | undefined,
+    startTime: number,
+    endTime: number,
+    secondsPerEmotion: number | undefined,
+    accept: string,
+    signal?: AbortSignal
+): Promise<Response> {
+    const response = await mockEmotionColoredSignals(studyNumber, subjectId, features, startTime, endTime, secondsPerEmotion, signal);
+    return negotiated(accept, response, () => signalsTable(response));
+}
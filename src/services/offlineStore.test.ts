@@ -0,0 +1,57 @@
+import 'fake-indexeddb/auto';
+import { offlineStore } from './offlineStore';
+
+const MB = 1024 * 1024;
+
+describe('offlineStore', () => {
+    let now = 0;
+
+    beforeEach(async () => {
+        // Every read and write is a moment later than the one before
+        jest.spyOn(Date, 'now').mockImplementation(() => ++now);
+        await offlineStore.clear();
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('returns what was stored under a key', async () => {
+        const buffer = Uint8Array.from([1, 2, 3]).buffer;
+        await offlineStore.put('/overview', { duration: 60 }, 40);
+        await offlineStore.put('/signals', buffer, buffer.byteLength);
+
+        expect(await offlineStore.get('/overview')).toEqual({ duration: 60 });
+        expect(new Uint8Array(await offlineStore.get<ArrayBuffer>('/signals') ?? new ArrayBuffer(0))).toEqual(Uint8Array.from([1, 2, 3]));
+        expect(await offlineStore.get('/missing')).toBeUndefined();
+    });
+
+    it('evicts the least recently used entries once over the size budget', async () => {
+        await offlineStore.put('/a', 'a', 80 * MB);
+        await offlineStore.put('/b', 'b', 60 * MB);
+        await offlineStore.put('/c', 'c', 50 * MB);
+        // Reading /a makes /b the least recently used
+        await offlineStore.get('/a');
+        await offlineStore.put('/d', 'd', 40 * MB);
+
+        expect(await offlineStore.get('/b')).toBeUndefined();
+        expect(await offlineStore.get('/a')).toBe('a');
+        expect(await offlineStore.get('/c')).toBe('c');
+        expect(await offlineStore.get('/d')).toBe('d');
+
+        await offlineStore.put('/e', 'e', 150 * MB);
+
+        expect(await offlineStore.get('/c')).toBeUndefined();
+        expect(await offlineStore.get('/a')).toBeUndefined();
+        expect(await offlineStore.get('/d')).toBe('d');
+        expect(await offlineStore.get('/e')).toBe('e');
+    });
+
+    it('skips a response larger than the whole budget', async () => {
+        await offlineStore.put('/a', 'a', 10 * MB);
+        await offlineStore.put('/huge', 'huge', 201 * MB);
+
+        expect(await offlineStore.get('/huge')).toBeUndefined();
+        expect(await offlineStore.get('/a')).toBe('a');
+    });
+});
@@ -0,0 +1,139 @@
+// IndexedDB-backed copy of large study responses, used when the backend is unreachable
+
+const DB_NAME = 'popane-offline';
+const DB_VERSION = 1;
+const META_STORE = 'entries';     // { key, size, lastAccess } - scanned for LRU eviction
+const PAYLOAD_STORE = 'payloads'; // { key, data } - only read on a cache hit
+
+const DEFAULT_BUDGET_MB = 200;
+const BUDGET_BYTES = (Number(process.env.REACT_APP_OFFLINE_CACHE_MB) || DEFAULT_BUDGET_MB) * 1024 * 1024;
+
+interface EntryMeta {
+    key: string;
+    size: number;
+    lastAccess: number;
+}
+
+interface Payload {
+    key: string;
+    data: unknown;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+}
+
+/**
+ * OfflineStore - Persistent LRU cache of API responses in IndexedDB
+ * Entries are keyed by request URL. When the total stored size exceeds the
+ * budget (REACT_APP_OFFLINE_CACHE_MB, default 200 MB) the least recently
+ * used entries are evicted. Every operation degrades to a no-op when
+ * IndexedDB is unavailable (private browsing, tests).
+ */
+class OfflineStore {
+    private dbPromise: Promise<IDBDatabase | null> | null = null;
+
+    private open(): Promise<IDBDatabase | null> {
+        if (!this.dbPromise) {
+            this.dbPromise = new Promise(resolve => {
+                if (typeof indexedDB === 'undefined') {
+                    resolve(null);
+                    return;
+                }
+                const request = indexedDB.open(DB_NAME, DB_VERSION);
+                request.onupgradeneeded = () => {
+                    const db = request.result;
+                    const meta = db.createObjectStore(META_STORE, { keyPath: 'key' });
+                    meta.createIndex('lastAccess', 'lastAccess');
+                    db.createObjectStore(PAYLOAD_STORE, { keyPath: 'key' });
+                };
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => {
+                    console.warn('Offline cache unavailable:', request.error);
+                    resolve(null);
+                };
+            });
+        }
+        return this.dbPromise;
+    }
+
+    async get<T>(key: string): Promise<T | undefined> {
+        const db = await this.open();
+        if (!db) return undefined;
+
+        try {
+            const tx = db.transaction([META_STORE, PAYLOAD_STORE], 'readwrite');
+            const payload = await promisify<Payload | undefined>(tx.objectStore(PAYLOAD_STORE).get(key));
+            if (!payload) return undefined;
+
+            const meta = await promisify<EntryMeta | undefined>(tx.objectStore(META_STORE).get(key));
+            if (meta) {
+                tx.objectStore(META_STORE).put({ ...meta, lastAccess: Date.now() });
+            }
+            await transactionDone(tx);
+            return payload.data as T;
+        } catch (err) {
+            console.warn('Offline cache read failed:', err);
+            return undefined;
+        }
+    }
+
+    // `size` is the caller's estimate in bytes, taken from the response body it already read
+    async put(key: string, data: unknown, size: number): Promise<void> {
+        if (size > BUDGET_BYTES) return;
+        const db = await this.open();
+        if (!db) return;
+
+        try {
+            const tx = db.transaction([META_STORE, PAYLOAD_STORE], 'readwrite');
+            tx.objectStore(PAYLOAD_STORE).put({ key, data } as Payload);
+            tx.objectStore(META_STORE).put({ key, size, lastAccess: Date.now() } as EntryMeta);
+            await transactionDone(tx);
+            await this.evict();
+        } catch (err) {
+            console.warn('Offline cache write failed:', err);
+        }
+    }
+
+    async clear(): Promise<void> {
+        const db = await this.open();
+        if (!db) return;
+
+        const tx = db.transaction([META_STORE, PAYLOAD_STORE], 'readwrite');
+        tx.objectStore(META_STORE).clear();
+        tx.objectStore(PAYLOAD_STORE).clear();
+        await transactionDone(tx);
+    }
+
+    // Delete least recently used entries until the store fits the budget
+    private async evict(): Promise<void> {
+        const db = await this.open();
+        if (!db) return;
+
+        const tx = db.transaction([META_STORE, PAYLOAD_STORE], 'readwrite');
+        const entries = await promisify<EntryMeta[]>(tx.objectStore(META_STORE).index('lastAccess').getAll());
+
+        let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+        for (const entry of entries) {
+            if (total <= BUDGET_BYTES) break;
+            tx.objectStore(META_STORE).delete(entry.key);
+            tx.objectStore(PAYLOAD_STORE).delete(entry.key);
+            total -= entry.size;
+        }
+        await transactionDone(tx);
+    }
+}
+
+export const offlineStore = new OfflineStore();
+export default offlineStore;
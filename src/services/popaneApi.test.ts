@@ -0,0 +1,106 @@
+import 'fake-indexeddb/auto';
+import { popaneApi } from './popaneApi';
+import { COLUMNAR_MEDIA_TYPE } from './columnarFormat';
+import { connectionStatus } from './connectionStatus';
+import { mockEmotionColoredSignals, mockSignalOverview, mockStudyData } from './mockBackend';
+import { offlineStore } from './offlineStore';
+import { StudyFrame } from './studyFrame';
+import { StandInBackend, installStandInBackend } from './testing/standInBackend';
+
+const NEGOTIATED_ACCEPT = `${COLUMNAR_MEDIA_TYPE}, application/json;q=0.9`;
+
+const QUERY = { studyNumber: 1, subjectIds: [1, 2], limit: 500, offset: 250 };
+
+describe('transport negotiation', () => {
+    let backend: StandInBackend | undefined;
+
+    beforeEach(() => {
+        popaneApi.setMockMode(false);
+    });
+
+    afterEach(() => {
+        backend?.restore();
+        backend = undefined;
+    });
+
+    it.each([
+        ['columnar', true],
+        ['JSON-only', false],
+    ])('reads study data from a %s backend', async (_, columnar) => {
+        backend = installStandInBackend({ columnar });
+
+        const frame = await popaneApi.getStudyFrame(QUERY);
+        const expected = StudyFrame.fromRows(await mockStudyData(QUERY));
+
+        expect(backend.accepts).toEqual([NEGOTIATED_ACCEPT]);
+        expect(backend.contentTypes).toEqual([columnar ? COLUMNAR_MEDIA_TYPE : 'application/json']);
+        expect(frame.length).toBe(expected.length);
+        expect(frame.subjects).toEqual([1, 2]);
+        expect(Array.from(frame.markers)).toEqual(Array.from(expected.markers));
+        expected.columnNames.forEach(name => {
+            expect(Array.from(frame.channel(name) ?? [])).toEqual(Array.from(expected.channel(name) ?? []));
+        });
+    });
+
+    it.each([
+        ['columnar', true],
+        ['JSON-only', false],
+    ])('reads emotion-colored signals from a %s backend', async (_, columnar) => {
+        backend = installStandInBackend({ columnar });
+
+        const response = await popaneApi.getEmotionColoredSignals(1, 2, ['ECG', 'EDA'], undefined, undefined, 2);
+
+        expect(backend.accepts).toEqual([NEGOTIATED_ACCEPT]);
+        expect(backend.contentTypes).toEqual([columnar ? COLUMNAR_MEDIA_TYPE : 'application/json']);
+        expect(response).toEqual(await mockEmotionColoredSignals(1, 2, ['ECG', 'EDA'], 0, 10, 2));
+    });
+});
+
+describe('offline fallback', () => {
+    let fetchSpy: jest.SpyInstance;
+    let put: jest.SpyInstance;
+
+    beforeEach(async () => {
+        popaneApi.setMockMode(false);
+        await offlineStore.clear();
+        fetchSpy = jest.spyOn(global, 'fetch');
+        put = jest.spyOn(offlineStore, 'put');
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    // Answers once with an overview and waits until its copy is stored
+    async function storeOverview(): Promise<unknown> {
+        const overview = await mockSignalOverview(1, 2, 'ECG', 50);
+        const body = JSON.stringify(overview);
+        fetchSpy.mockResolvedValueOnce(new Response(body, { headers: { 'Content-Type': 'application/json' } }));
+
+        expect(await popaneApi.getSignalOverview(1, 2, 'ECG', 50)).toEqual(overview);
+        await put.mock.results[0].value;
+        expect(put).toHaveBeenCalledWith(expect.stringContaining('/overview?'), overview, body.length * 2);
+        return overview;
+    }
+
+    it('serves the stored copy when the backend cannot be reached', async () => {
+        const overview = await storeOverview();
+        fetchSpy.mockRejectedValueOnce(new TypeError('Failed to fetch'));
+
+        expect(await popaneApi.getSignalOverview(1, 2, 'ECG', 50)).toEqual(overview);
+        expect(connectionStatus.getSnapshot()).toEqual({ online: false, cachedResponses: 1 });
+    });
+
+    it('rethrows errors the backend answered with', async () => {
+        await storeOverview();
+        fetchSpy.mockResolvedValueOnce(new Response('{"detail": "Subject not found"}', { status: 404 }));
+
+        await expect(popaneApi.getSignalOverview(1, 2, 'ECG', 50)).rejects.toMatchObject({ status: 404 });
+    });
+
+    it('rethrows an unreachable backend when nothing is stored', async () => {
+        fetchSpy.mockRejectedValueOnce(new TypeError('Failed to fetch'));
+
+        await expect(popaneApi.getSignalOverview(1, 2, 'ECG', 50)).rejects.toMatchObject({ status: 0 });
+    });
+});
@@ -1,100 +1,250 @@
 import {
-    StudyData,
+    StudyMetadata,
     QueryParams,
     SubjectInfo,
-    STUDY_COLUMNS,
     EmotionColoredSignalsResponse,
     PCAResponse,
     FeatureInfo,
     EmotionSummaryResponse,
+    FeatureAnalysisResponse,
+    PowerSpectrumResponse,
+    FFTResponse,
+    FeatureMatrixResponse,
+    FrequencyPCAResponse,
+    SignalOverviewResponse,
 } from '../types/popane';
+import { PopaneApiError, ContractMismatchError, isAbortError, isPopaneApiError } from './apiError';
+import {
+    Schema,
+    SchemaError,
+    validate,
+    studyDataSchema,
+    studiesSchema,
+    subjectsSchema,
+    studyStatsSchema,
+    searchResultsSchema,
+    featuresSchema,
+    emotionColoredSignalsSchema,
+    emotionColoredSignalsMetadataSchema,
+    signalOverviewSchema,
+    pcaSchema,
+    emotionSummarySchema,
+    featureAnalysisSchema,
+    powerSpectrumSchema,
+    fftSchema,
+    featureMatrixSchema,
+    frequencyPCASchema,
+} from './responseSchemas';
+import { offlineStore } from './offlineStore';
+import { StudyFrame } from './studyFrame';
+import { COLUMNAR_MEDIA_TYPE, ColumnarTable, decodeColumnar, dictionaryValue } from './columnarFormat';
+import { connectionStatus } from './connectionStatus';
+import * as mock from './mockBackend';
 
 // Base URL for the API - update this when you have a real backend
 const API_BASE_URL = process.env.REACT_APP_API_URL || 'http://localhost:8000/api';
 const VIZ_BASE_URL = process.env.REACT_APP_VIZ_URL || 'http://localhost:8000/viz';
 
-// Generate mock data for development/demo purposes
-function generateMockData(studyNumber: number, subjectId: number, count: number = 100): StudyData[] {
-    const columns = STUDY_COLUMNS[studyNumber];
-    const data: StudyData[] = [];
-
-    for (let i = 0; i < count; i++) {
-        const baseRecord: StudyData = {
-            Subject_ID: subjectId,
-            timestamp: i * 0.001, // milliseconds
-            ECG: Math.sin(i * 0.1) * 0.5 + Math.random() * 0.1,
-            EDA: 2 + Math.random() * 3 + Math.sin(i * 0.01) * 0.5,
-            marker: i % 50 === 0 ? 1 : 0,
-        };
+// Serve every endpoint from the in-browser mock backend; the Header toggle overrides this per browser
+const MOCK_MODE_STORAGE_KEY = 'popane-mock-mode';
 
-        // Add study-specific columns
-        if (columns.includes('affect')) {
-            baseRecord.affect = 0.5 + Math.random() * 0.5;
-        }
-        if (columns.includes('temp')) {
-            baseRecord.temp = 36.5 + Math.random() * 1;
-        }
-        if (columns.includes('respiration')) {
-            baseRecord.respiration = 15 + Math.sin(i * 0.05) * 5;
-        }
-        if (columns.includes('SBP')) {
-            baseRecord.SBP = 120 + Math.random() * 20;
-        }
-        if (columns.includes('DBP')) {
-            baseRecord.DBP = 80 + Math.random() * 10;
-        }
-        if (columns.includes('CO')) {
-            baseRecord.CO = 5 + Math.random() * 2;
-        }
-        if (columns.includes('TPR')) {
-            baseRecord.TPR = 1000 + Math.random() * 500;
-        }
-        if (columns.includes('dzdt')) {
-            baseRecord.dzdt = -2 + Math.random() * 1;
-        }
-        if (columns.includes('dz')) {
-            baseRecord.dz = 0.5 + Math.random() * 0.3;
-        }
-        if (columns.includes('z0')) {
-            baseRecord.z0 = 25 + Math.random() * 5;
-        }
+// Unknown fields already reported, so each one is logged once per session
+const reportedUnknownFields = new Set<string>();
 
-        data.push(baseRecord);
-    }
+function reportUnknownFields(url: string, fields: string[]): void {
+    if (process.env.NODE_ENV === 'production' || fields.length === 0) return;
+
+    const endpoint = url.split('?')[0];
+    const fresh = fields.filter(field => !reportedUnknownFields.has(`${endpoint} ${field}`));
+    if (fresh.length === 0) return;
 
-    return data;
+    fresh.forEach(field => reportedUnknownFields.add(`${endpoint} ${field}`));
+    console.warn(`[popaneApi] ${endpoint} returned fields missing from types/popane.ts:`, fresh);
 }
 
-// Mock subjects for each study
-function getMockSubjects(studyNumber: number): SubjectInfo[] {
-    const subjectCounts: Record<number, number> = {
-        1: 40, 2: 35, 3: 45, 4: 30, 5: 38, 6: 42, 7: 25
+function initialMockMode(): boolean {
+    const saved = typeof localStorage !== 'undefined' ? localStorage.getItem(MOCK_MODE_STORAGE_KEY) : null;
+    if (saved !== null) return saved === 'true';
+    return process.env.REACT_APP_USE_MOCK_DATA === 'true';
+}
+
+// Gateway errors mean the proxy is up but the FastAPI backend behind it is not
+const UNREACHABLE_STATUSES = new Set([0, 502, 503, 504]);
+
+// Raw signal endpoints prefer the columnar transport; backends without it answer in JSON
+const NEGOTIATED_ACCEPT = `${COLUMNAR_MEDIA_TYPE}, application/json;q=0.9`;
+
+function isColumnar(response: Response): boolean {
+    return (response.headers.get('Content-Type') ?? '').startsWith(COLUMNAR_MEDIA_TYPE);
+}
+
+// The body as the offline copy keeps it, with its size as received (JSON as a UTF-16 string)
+async function readBody(response: Response): Promise<{ body: unknown; size: number }> {
+    if (isColumnar(response)) {
+        const buffer = await response.arrayBuffer();
+        return { body: buffer, size: buffer.byteLength };
+    }
+    const text = await response.text();
+    return { body: JSON.parse(text), size: text.length * 2 };
+}
+
+function signalsFromTable(table: ColumnarTable): EmotionColoredSignalsResponse {
+    const { data: metadata } = validate(emotionColoredSignalsMetadataSchema, table.metadata);
+    const column = (name: string) => {
+        const values = table.columns.get(name);
+        if (!values) throw new SchemaError(name, 'a column', 'nothing');
+        return values;
     };
+    const series = column('signal');
+    const time = column('time_offset');
+    const value = column('value');
+    const emotion = column('emotion');
+    const color = column('color');
+    if (!(series instanceof Int32Array) || !(time instanceof Float64Array) || !(value instanceof Float64Array)) {
+        throw new SchemaError('signal, time_offset, value', 'int32, float64 and float64 columns', 'other types');
+    }
+    if (emotion instanceof Float64Array || emotion instanceof Int32Array || color instanceof Float64Array || color instanceof Int32Array) {
+        throw new SchemaError('emotion, color', 'text columns', 'numbers');
+    }
 
-    const count = subjectCounts[studyNumber] || 30;
-    return Array.from({ length: count }, (_, i) => ({
-        id: i + 1,
-        studyNumber,
-        recordCount: 1000 + Math.floor(Math.random() * 5000)
-    }));
+    const signals = metadata.signals.map(info => ({ ...info, data_points: [] as EmotionColoredSignalsResponse['signals'][number]['data_points'] }));
+    for (let row = 0; row < table.rowCount; row++) {
+        const target = signals[series[row]];
+        if (!target) throw new SchemaError(`signal[${row}]`, `an index below ${signals.length}`, String(series[row]));
+        target.data_points.push({
+            time_offset: time[row],
+            value: Number.isNaN(value[row]) ? null : value[row],
+            emotion: dictionaryValue(emotion, row),
+            color: dictionaryValue(color, row),
+        });
+    }
+    return { ...metadata, signals };
 }
 
 class PopaneApiService {
     private useMockData: boolean;
+    private mockModeListeners = new Set<() => void>();
 
     constructor() {
-        // Connect to real backend - set to false to use actual database
-        this.useMockData = false;
+        // REACT_APP_USE_MOCK_DATA=true runs the dashboard without a backend
+        this.useMockData = initialMockMode();
+    }
+
+    // Shared GET: network failures and non-2xx responses become PopaneApiError,
+    // payloads that do not match the schema become ContractMismatchError
+    private async request<T>(url: string, schema: Schema<T>, signal?: AbortSignal): Promise<T> {
+        const response = await this.fetchOk(url, signal);
+        const payload: unknown = await response.json();
+        return this.parse(url, schema, payload);
+    }
+
+    private async fetchOk(url: string, signal?: AbortSignal, accept?: string): Promise<Response> {
+        let response: Response;
+        try {
+            response = await fetch(url, { signal, headers: accept ? { Accept: accept } : undefined });
+        } catch (err) {
+            if (isAbortError(err)) throw err;
+            connectionStatus.markOffline();
+            throw PopaneApiError.fromNetworkError(err, url);
+        }
+
+        if (!response.ok) {
+            const error = await PopaneApiError.fromResponse(response, url);
+            if (UNREACHABLE_STATUSES.has(error.status)) {
+                connectionStatus.markOffline();
+            } else {
+                connectionStatus.markOnline();
+            }
+            throw error;
+        }
+        connectionStatus.markOnline();
+        return response;
     }
 
-    // Fetch study data
-    async getStudyData(params: QueryParams): Promise<StudyData[]> {
+    private parse<T>(url: string, schema: Schema<T>, payload: unknown): T {
+        return this.checkContract(url, () => {
+            const { data, unknownFields } = validate(schema, payload);
+            reportUnknownFields(url, unknownFields);
+            return data;
+        });
+    }
+
+    private checkContract<T>(url: string, read: () => T): T {
+        try {
+            return read();
+        } catch (err) {
+            if (err instanceof SchemaError) {
+                throw new ContractMismatchError(url, err.field, err.expected, err.received);
+            }
+            throw err;
+        }
+    }
+
+    // GET that keeps a copy in IndexedDB and falls back to it while the backend is unreachable
+    private async persistedRequest<T>(url: string, schema: Schema<T>, signal?: AbortSignal): Promise<T> {
+        try {
+            const { body, size } = await readBody(await this.fetchOk(url, signal));
+            const data = this.parse(url, schema, body);
+            void offlineStore.put(url, data, size);
+            return data;
+        } catch (err) {
+            if (!isPopaneApiError(err) || !UNREACHABLE_STATUSES.has(err.status)) throw err;
+
+            const cached = await offlineStore.get<T>(url);
+            if (cached === undefined) throw err;
+            connectionStatus.markServedFromCache();
+            return cached;
+        }
+    }
+
+    // GET of a raw signal endpoint in whichever transport the backend answers with.
+    // The body is persisted as received (ArrayBuffer or JSON) and decoded on every read;
+    // in mock mode `mockResponse` stands in for the backend's reply.
+    private async negotiatedRequest<J, T>(
+        url: string,
+        schema: Schema<J>,
+        fromJson: (data: J) => T,
+        fromTable: (table: ColumnarTable) => T,
+        mockResponse: (accept: string) => Promise<Response>,
+        signal?: AbortSignal
+    ): Promise<T> {
+        const decode = (body: unknown): T => (
+            body instanceof ArrayBuffer
+                ? this.checkContract(url, () => fromTable(decodeColumnar(body)))
+                : fromJson(this.parse(url, schema, body))
+        );
+
+        if (this.useMockData) {
+            const response = await mockResponse(NEGOTIATED_ACCEPT);
+            return decode(isColumnar(response) ? await response.arrayBuffer() : await response.json());
+        }
+
+        try {
+            const { body, size } = await readBody(await this.fetchOk(url, signal, NEGOTIATED_ACCEPT));
+            const data = decode(body);
+            void offlineStore.put(url, body, size);
+            return data;
+        } catch (err) {
+            if (!isPopaneApiError(err) || !UNREACHABLE_STATUSES.has(err.status)) throw err;
+
+            const cached = await offlineStore.get<unknown>(url);
+            if (cached === undefined) throw err;
+            connectionStatus.markServedFromCache();
+            return decode(cached);
+        }
+    }
+
+    // Catalog of studies available on the backend
+    async getStudies(signal?: AbortSignal): Promise<StudyMetadata[]> {
         if (this.useMockData) {
-            const subjectId = params.subjectId || 1;
-            const limit = params.limit || 1000;
-            return generateMockData(params.studyNumber, subjectId, limit);
+            return mock.mockStudies(signal);
         }
 
+        return this.request(`${API_BASE_URL}/studies`, studiesSchema, signal);
+    }
+
+    // Fetch study data, packed into columns for the charts and tables that read it repeatedly
+    async getStudyFrame(params: QueryParams, signal?: AbortSignal): Promise<StudyFrame> {
         const searchParams = new URLSearchParams({
             study: params.studyNumber.toString(),
             ...(params.subjectId && { subject_id: params.subjectId.toString() }),
@@ -111,70 +261,67 @@ class PopaneApiService {
 
         const queryString = searchParams.toString();
 
-        const response = await fetch(`${API_BASE_URL}/study/${params.studyNumber}/data?${queryString}`);
-        if (!response.ok) {
-            throw new Error(`API Error: ${response.statusText}`);
-        }
-        return response.json();
+        return this.negotiatedRequest(
+            `${API_BASE_URL}/study/${params.studyNumber}/data?${queryString}`,
+            studyDataSchema,
+            StudyFrame.fromRows,
+            StudyFrame.fromTable,
+            accept => mock.mockStudyDataResponse(params, accept, signal),
+            signal
+        );
     }
 
     // Get list of subjects for a study
-    async getSubjects(studyNumber: number): Promise<SubjectInfo[]> {
+    async getSubjects(studyNumber: number, signal?: AbortSignal): Promise<SubjectInfo[]> {
         if (this.useMockData) {
-            return getMockSubjects(studyNumber);
+            return mock.mockSubjects(studyNumber, signal);
         }
 
-        const response = await fetch(`${API_BASE_URL}/study/${studyNumber}/subjects`);
-        if (!response.ok) {
-            throw new Error(`API Error: ${response.statusText}`);
-        }
-        return response.json();
+        return this.request(`${API_BASE_URL}/study/${studyNumber}/subjects`, subjectsSchema, signal);
     }
 
     // Get study statistics
-    async getStudyStats(studyNumber: number): Promise<{ totalRecords: number; subjects: number }> {
+    async getStudyStats(studyNumber: number, signal?: AbortSignal): Promise<{ totalRecords: number; subjects: number }> {
         if (this.useMockData) {
-            return {
-                totalRecords: 50000 + Math.floor(Math.random() * 100000),
-                subjects: getMockSubjects(studyNumber).length
-            };
+            return mock.mockStudyStats(studyNumber, signal);
         }
 
-        const response = await fetch(`${API_BASE_URL}/study/${studyNumber}/stats`);
-        if (!response.ok) {
-            throw new Error(`API Error: ${response.statusText}`);
-        }
-        return response.json();
+        return this.request(`${API_BASE_URL}/study/${studyNumber}/stats`, studyStatsSchema, signal);
     }
 
     // Search across studies
-    async search(query: string): Promise<{ studyNumber: number; subjectId: number; matches: number }[]> {
+    async search(query: string, signal?: AbortSignal): Promise<{ studyNumber: number; subjectId: number; matches: number }[]> {
         if (this.useMockData) {
-            // Mock search results
-            return [
-                { studyNumber: 1, subjectId: 5, matches: 12 },
-                { studyNumber: 2, subjectId: 3, matches: 8 },
-            ];
+            return mock.mockSearch(query, signal);
         }
 
-        const response = await fetch(`${API_BASE_URL}/search?q=${encodeURIComponent(query)}`);
-        if (!response.ok) {
-            throw new Error(`API Error: ${response.statusText}`);
-        }
-        return response.json();
+        return this.request(`${API_BASE_URL}/search?q=${encodeURIComponent(query)}`, searchResultsSchema, signal);
     }
 
-    // Enable/disable mock data mode
+    // Enable/disable mock data mode (remembered in localStorage)
     setMockMode(useMock: boolean) {
+        if (useMock === this.useMockData) return;
         this.useMockData = useMock;
+        localStorage.setItem(MOCK_MODE_STORAGE_KEY, String(useMock));
+        if (useMock) connectionStatus.markOnline();
+        this.mockModeListeners.forEach(listener => listener());
     }
 
-    async getFeatures(studyNumber: number): Promise<FeatureInfo[]> {
-        const response = await fetch(`${VIZ_BASE_URL}/features/${studyNumber}`);
-        if (!response.ok) {
-            throw new Error(`API Error: ${response.statusText}`);
+    isMockMode = (): boolean => this.useMockData;
+
+    subscribeMockMode = (listener: () => void): (() => void) => {
+        this.mockModeListeners.add(listener);
+        return () => {
+            this.mockModeListeners.delete(listener);
+        };
+    };
+
+    async getFeatures(studyNumber: number, signal?: AbortSignal): Promise<FeatureInfo[]> {
+        if (this.useMockData) {
+            return mock.mockFeatures(studyNumber, signal);
         }
-        return response.json();
+
+        return this.request(`${VIZ_BASE_URL}/features/${studyNumber}`, featuresSchema, signal);
     }
 
     async getEmotionColoredSignals(
@@ -183,7 +330,8 @@ class PopaneApiService {
         features?: string[],
         startTime: number = 0,
         endTime: number = 10,
-        secondsPerEmotion?: number
+        secondsPerEmotion?: number,
+        signal?: AbortSignal
     ): Promise<EmotionColoredSignalsResponse> {
         const params = new URLSearchParams();
 
@@ -198,22 +346,49 @@ class PopaneApiService {
             params.set('features', features.join(','));
         }
 
-        const response = await fetch(
-            `${VIZ_BASE_URL}/signals/${studyNumber}/${subjectId}?${params.toString()}`
+        return this.negotiatedRequest(
+            `${VIZ_BASE_URL}/signals/${studyNumber}/${subjectId}?${params.toString()}`,
+            emotionColoredSignalsSchema,
+            response => response,
+            signalsFromTable,
+            accept => mock.mockEmotionColoredSignalsResponse(
+                studyNumber, subjectId, features, startTime, endTime, secondsPerEmotion, accept, signal
+            ),
+            signal
         );
+    }
 
-        if (!response.ok) {
-            throw new Error(`API Error: ${response.statusText}`);
+    // Min/max envelope of one signal over the whole recording, for the recording navigator
+    async getSignalOverview(
+        studyNumber: number,
+        subjectId: number,
+        feature: string,
+        points: number = 600,
+        signal?: AbortSignal
+    ): Promise<SignalOverviewResponse> {
+        if (this.useMockData) {
+            return mock.mockSignalOverview(studyNumber, subjectId, feature, points, signal);
         }
-        return response.json();
+
+        const params = new URLSearchParams({
+            feature,
+            points: points.toString(),
+        });
+
+        return this.persistedRequest(`${VIZ_BASE_URL}/signals/${studyNumber}/${subjectId}/overview?${params.toString()}`, signalOverviewSchema, signal);
     }
 
     async getPCAAnalysis(
         studyNumber: number,
         subjectIds?: number[],
         features?: string[],
-        sampleSize: number = 1000
+        sampleSize: number = 1000,
+        signal?: AbortSignal
     ): Promise<PCAResponse> {
+        if (this.useMockData) {
+            return mock.mockPCAAnalysis(studyNumber, subjectIds, features, sampleSize, signal);
+        }
+
         const params = new URLSearchParams({
             sample_size: sampleSize.toString(),
         });
@@ -226,35 +401,126 @@ class PopaneApiService {
             params.set('features', features.join(','));
         }
 
-        const response = await fetch(
-            `${VIZ_BASE_URL}/pca/${studyNumber}?${params.toString()}`
-        );
-
-        if (!response.ok) {
-            throw new Error(`API Error: ${response.statusText}`);
-        }
-        return response.json();
+        return this.request(`${VIZ_BASE_URL}/pca/${studyNumber}?${params.toString()}`, pcaSchema, signal);
     }
 
     async getEmotionSummary(
         studyNumber: number,
-        subjectIds: number[]
+        subjectIds: number[],
+        signal?: AbortSignal
     ): Promise<EmotionSummaryResponse> {
+        if (this.useMockData) {
+            return mock.mockEmotionSummary(studyNumber, subjectIds, signal);
+        }
+
         const params = new URLSearchParams({
             subjects: subjectIds.join(',')
         });
 
-        const response = await fetch(
-            `${API_BASE_URL}/study/${studyNumber}/emotions/summary?${params.toString()}`
-        );
+        return this.request(`${API_BASE_URL}/study/${studyNumber}/emotions/summary?${params.toString()}`, emotionSummarySchema, signal);
+    }
 
-        if (!response.ok) {
-            throw new Error(`API Error: ${response.statusText}`);
+    // Time- and frequency-domain metrics of one signal, per emotion
+    async getFeatureAnalysis(
+        studyNumber: number,
+        subjectId: number,
+        feature: string,
+        samplingRate: number = 1000,
+        signal?: AbortSignal
+    ): Promise<FeatureAnalysisResponse> {
+        if (this.useMockData) {
+            return mock.mockFeatureAnalysis(studyNumber, subjectId, feature, samplingRate, signal);
         }
-        return response.json();
+
+        const params = new URLSearchParams({
+            feature,
+            sampling_rate: samplingRate.toString(),
+        });
+
+        return this.request(`${VIZ_BASE_URL}/analysis/${studyNumber}/${subjectId}?${params.toString()}`, featureAnalysisSchema, signal);
+    }
+
+    async getPowerSpectrum(
+        studyNumber: number,
+        subjectId: number,
+        feature: string,
+        samplingRate: number = 1000,
+        maxFreq: number = 0.5,
+        signal?: AbortSignal
+    ): Promise<PowerSpectrumResponse> {
+        if (this.useMockData) {
+            return mock.mockPowerSpectrum(studyNumber, subjectId, feature, maxFreq, signal);
+        }
+
+        const params = new URLSearchParams({
+            feature,
+            sampling_rate: samplingRate.toString(),
+            max_freq: maxFreq.toString(),
+        });
+
+        return this.request(`${VIZ_BASE_URL}/spectrum/${studyNumber}/${subjectId}?${params.toString()}`, powerSpectrumSchema, signal);
+    }
+
+    async getFFT(
+        studyNumber: number,
+        subjectId: number,
+        feature: string,
+        maxFreq: number = 2.0,
+        signal?: AbortSignal
+    ): Promise<FFTResponse> {
+        if (this.useMockData) {
+            return mock.mockFFT(studyNumber, subjectId, feature, maxFreq, signal);
+        }
+
+        const params = new URLSearchParams({
+            feature,
+            max_freq: maxFreq.toString(),
+        });
+
+        return this.request(`${VIZ_BASE_URL}/fft/${studyNumber}/${subjectId}?${params.toString()}`, fftSchema, signal);
+    }
+
+    // Raw (subject, emotion) feature rows for the comprehensive feature table
+    async getFeatureMatrix(
+        studyNumber: number,
+        features: string[],
+        subjectIds: number[],
+        signal?: AbortSignal
+    ): Promise<FeatureMatrixResponse> {
+        if (this.useMockData) {
+            return mock.mockFeatureMatrix(studyNumber, features, subjectIds, signal);
+        }
+
+        const params = new URLSearchParams({
+            features: features.join(','),
+            subject_ids: subjectIds.join(','),
+        });
+
+        return this.persistedRequest(`${VIZ_BASE_URL}/features/matrix/${studyNumber}?${params.toString()}`, featureMatrixSchema, signal);
+    }
+
+    // PCA over the engineered frequency/time-domain feature matrix
+    async getFrequencyPCA(
+        studyNumber: number,
+        features: string[],
+        subjectIds: number[],
+        signal?: AbortSignal
+    ): Promise<FrequencyPCAResponse> {
+        if (this.useMockData) {
+            return mock.mockFrequencyPCA(studyNumber, features, subjectIds, signal);
+        }
+
+        const params = new URLSearchParams({
+            features: features.join(','),
+            subject_ids: subjectIds.join(','),
+        });
+
+        return this.request(`${VIZ_BASE_URL}/pca/frequency/${studyNumber}?${params.toString()}`, frequencyPCASchema, signal);
     }
 }
 
+export { PopaneApiError, ContractMismatchError, isPopaneApiError, isContractMismatchError, isAbortError } from './apiError';
+
 // Export singleton instance
 export const popaneApi = new PopaneApiService();
 export default popaneApi;
@@ -0,0 +1,97 @@
+import { QueryCache } from './queryCache';
+
+// A fetcher whose requests settle when the test says so, honoring their abort signal
+function controlledFetcher() {
+    const requests: Array<{ signal: AbortSignal; resolve: (value: string) => void }> = [];
+    const fetcher = (signal: AbortSignal) => new Promise<string>((resolve, reject) => {
+        requests.push({ signal, resolve });
+        signal.addEventListener('abort', () => {
+            const err = new Error('aborted');
+            err.name = 'AbortError';
+            reject(err);
+        });
+    });
+    return { fetcher, requests };
+}
+
+describe('QueryCache', () => {
+    it('shares one request between concurrent fetches of a key', async () => {
+        const cache = new QueryCache();
+        const { fetcher, requests } = controlledFetcher();
+
+        const first = cache.fetch(['a'], fetcher);
+        const second = cache.fetch(['a'], fetcher);
+        expect(requests).toHaveLength(1);
+
+        requests[0].resolve('data');
+        await expect(first).resolves.toBe('data');
+        await expect(second).resolves.toBe('data');
+        expect(cache.peek(['a'])).toBe('data');
+    });
+
+    it('keeps the request going while another waiter remains', async () => {
+        const cache = new QueryCache();
+        const { fetcher, requests } = controlledFetcher();
+        const leaving = new AbortController();
+
+        const abandoned = cache.fetch(['a'], fetcher, { signal: leaving.signal });
+        const kept = cache.fetch(['a'], fetcher, { signal: new AbortController().signal });
+        leaving.abort();
+
+        await expect(abandoned).rejects.toMatchObject({ name: 'AbortError' });
+        expect(requests[0].signal.aborted).toBe(false);
+        requests[0].resolve('data');
+        await expect(kept).resolves.toBe('data');
+    });
+
+    it('starts a new request when the key is fetched in the same tick its last waiter aborted', async () => {
+        const cache = new QueryCache();
+        const { fetcher, requests } = controlledFetcher();
+        const unmounted = new AbortController();
+
+        // What a StrictMode remount does: abort, then fetch again synchronously
+        const abandoned = cache.fetch(['a'], fetcher, { signal: unmounted.signal });
+        unmounted.abort();
+        const remounted = cache.fetch(['a'], fetcher, { signal: new AbortController().signal });
+
+        expect(requests).toHaveLength(2);
+        expect(requests[0].signal.aborted).toBe(true);
+        requests[1].resolve('data');
+
+        await expect(abandoned).rejects.toMatchObject({ name: 'AbortError' });
+        await expect(remounted).resolves.toBe('data');
+        expect(cache.peek(['a'])).toBe('data');
+    });
+
+    it('does not let an abandoned request clear or overwrite its replacement', async () => {
+        const cache = new QueryCache();
+        const { fetcher, requests } = controlledFetcher();
+        const unmounted = new AbortController();
+
+        cache.fetch(['a'], fetcher, { signal: unmounted.signal }).catch(() => undefined);
+        unmounted.abort();
+        const replacement = cache.fetch(['a'], fetcher);
+        // Settled after the abort, so its finally runs while the replacement is in flight
+        await Promise.resolve();
+        const joined = cache.fetch(['a'], fetcher);
+
+        expect(requests).toHaveLength(2);
+        requests[1].resolve('fresh');
+        await expect(replacement).resolves.toBe('fresh');
+        await expect(joined).resolves.toBe('fresh');
+    });
+
+    it('drops entries by key prefix and notifies subscribers', async () => {
+        const cache = new QueryCache();
+        const listener = jest.fn();
+        cache.subscribe(listener);
+
+        await cache.fetch(['signals', 1], () => Promise.resolve('one'));
+        await cache.fetch(['study', 1], () => Promise.resolve('study'));
+        cache.invalidate(['signals']);
+
+        expect(cache.peek(['signals', 1])).toBeUndefined();
+        expect(cache.peek(['study', 1])).toBe('study');
+        expect(listener).toHaveBeenCalledWith(new Set([JSON.stringify(['signals', 1])]));
+    });
+});
@@ -0,0 +1,166 @@
+// Cache key: endpoint name followed by the request parameters, e.g. ['fft', 3, 12, 'ECG', 2]
+export type QueryKey = readonly unknown[];
+
+export const DEFAULT_TTL_MS = 5 * 60 * 1000;
+
+interface CacheEntry {
+    key: QueryKey;
+    data?: unknown;
+    updatedAt: number;
+    ttlMs: number;
+    inFlight?: {
+        promise: Promise<unknown>;
+        controller: AbortController;
+        waiters: number;
+    };
+}
+
+interface FetchOptions {
+    ttlMs?: number;
+    signal?: AbortSignal;
+    force?: boolean;
+}
+
+type InvalidationListener = (invalidated: Set<string>) => void;
+
+export function hashQueryKey(key: QueryKey): string {
+    return JSON.stringify(key);
+}
+
+function abortError(): Error {
+    const err = new Error('The request was aborted');
+    err.name = 'AbortError';
+    return err;
+}
+
+function startsWith(key: QueryKey, prefix: QueryKey): boolean {
+    return prefix.length <= key.length &&
+        prefix.every((part, i) => hashQueryKey([part]) === hashQueryKey([key[i]]));
+}
+
+/**
+ * QueryCache - Shared response cache for PopaneApiService calls
+ * Entries are keyed by endpoint + params and expire after a TTL. Concurrent
+ * fetches of the same key share one request; that request is only aborted
+ * once every caller waiting on it has aborted.
+ */
+export class QueryCache {
+    private entries = new Map<string, CacheEntry>();
+    private listeners = new Set<InvalidationListener>();
+
+    // Cached data for a key if it is still fresh
+    peek<T>(key: QueryKey): T | undefined {
+        const entry = this.entries.get(hashQueryKey(key));
+        if (!entry || entry.data === undefined) return undefined;
+        if (Date.now() - entry.updatedAt > entry.ttlMs) return undefined;
+        return entry.data as T;
+    }
+
+    async fetch<T>(
+        key: QueryKey,
+        fetcher: (signal: AbortSignal) => Promise<T>,
+        { ttlMs = DEFAULT_TTL_MS, signal, force = false }: FetchOptions = {}
+    ): Promise<T> {
+        if (signal?.aborted) throw abortError();
+
+        if (!force) {
+            const cached = this.peek<T>(key);
+            if (cached !== undefined) return cached;
+        }
+
+        this.prune();
+
+        const hash = hashQueryKey(key);
+        let entry = this.entries.get(hash);
+        if (!entry || force) {
+            entry = { key, updatedAt: 0, ttlMs };
+            this.entries.set(hash, entry);
+        }
+
+        // A request every waiter gave up on is never joined, even before its promise settles
+        if (!entry.inFlight || entry.inFlight.controller.signal.aborted) {
+            const controller = new AbortController();
+            const owner = entry;
+            const promise = fetcher(controller.signal).then(data => {
+                // Ignore results for entries that were invalidated, or requests abandoned, meanwhile
+                if (this.entries.get(hash) === owner && !controller.signal.aborted) {
+                    owner.data = data;
+                    owner.updatedAt = Date.now();
+                    owner.ttlMs = ttlMs;
+                }
+                return data;
+            }).finally(() => {
+                if (owner.inFlight === inFlight) owner.inFlight = undefined;
+            });
+            const inFlight = { promise, controller, waiters: 0 };
+            entry.inFlight = inFlight;
+        }
+
+        return this.wait<T>(entry, signal);
+    }
+
+    // Drop entries matching the key prefix (all entries when omitted) and notify subscribers
+    invalidate(prefix: QueryKey = []): void {
+        const invalidated = new Set<string>();
+        this.entries.forEach((entry, hash) => {
+            if (startsWith(entry.key, prefix)) {
+                invalidated.add(hash);
+                this.entries.delete(hash);
+            }
+        });
+        this.listeners.forEach(listener => listener(invalidated));
+    }
+
+    subscribe(listener: InvalidationListener): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    // Expired entries are dropped lazily so the map does not grow without bound
+    private prune(): void {
+        const now = Date.now();
+        this.entries.forEach((entry, hash) => {
+            if (!entry.inFlight && now - entry.updatedAt > entry.ttlMs) {
+                this.entries.delete(hash);
+            }
+        });
+    }
+
+    private wait<T>(entry: CacheEntry, signal?: AbortSignal): Promise<T> {
+        const inFlight = entry.inFlight!;
+        inFlight.waiters++;
+
+        if (!signal) {
+            return inFlight.promise as Promise<T>;
+        }
+
+        return new Promise<T>((resolve, reject) => {
+            const onAbort = () => {
+                inFlight.waiters--;
+                if (inFlight.waiters === 0) {
+                    inFlight.controller.abort();
+                    // Detach now: a fetch of this key in the same tick must start a new request
+                    if (entry.inFlight === inFlight) entry.inFlight = undefined;
+                }
+                reject(abortError());
+            };
+            signal.addEventListener('abort', onAbort, { once: true });
+
+            inFlight.promise.then(
+                data => {
+                    signal.removeEventListener('abort', onAbort);
+                    resolve(data as T);
+                },
+                err => {
+                    signal.removeEventListener('abort', onAbort);
+                    reject(err);
+                }
+            );
+        });
+    }
+}
+
+export const queryCache = new QueryCache();
+export default queryCache;
@@ -0,0 +1,172 @@
+import { BeatInterval, beatIntervals, detectRPeaks, hrvMetrics, togglePeak } from './rPeaks';
+
+// Repeating RR pattern of the synthetic recording, in ms
+const RR_PATTERN = [800, 830, 800, 900];
+
+// Deterministic noise so a failure reproduces
+function noise(seed: number): () => number {
+    let state = seed;
+    return () => {
+        state = (state * 1664525 + 1013904223) % 4294967296;
+        return state / 4294967296 - 0.5;
+    };
+}
+
+/**
+ * syntheticEcg - P-QRS-T complexes at known R times, over baseline wander and noise
+ */
+function syntheticEcg(sampleRate: number, seconds: number): { values: Float64Array; rTimes: number[] } {
+    const rTimes: number[] = [];
+    for (let t = 0.5, beat = 0; t < seconds - 0.5; t += RR_PATTERN[beat++ % RR_PATTERN.length] / 1000) {
+        rTimes.push(t);
+    }
+    const waves: Array<[number, number, number]> = [  // offset from R (s), amplitude (mV), width (s)
+        [-0.16, 0.15, 0.025],
+        [-0.025, -0.1, 0.008],
+        [0, 1, 0.01],
+        [0.025, -0.25, 0.008],
+        [0.25, 0.3, 0.05],
+    ];
+    const random = noise(7);
+    const values = Float64Array.from(
+        { length: Math.round(seconds * sampleRate) },
+        (_, i) => 0.2 * Math.sin(2 * Math.PI * 0.25 * i / sampleRate) + 0.04 * random()
+    );
+    rTimes.forEach(r => {
+        waves.forEach(([offset, amplitude, width]) => {
+            const centre = (r + offset) * sampleRate;
+            const from = Math.max(0, Math.ceil(centre - 5 * width * sampleRate));
+            const to = Math.min(values.length, Math.floor(centre + 5 * width * sampleRate) + 1);
+            for (let i = from; i < to; i++) {
+                const d = i / sampleRate - r - offset;
+                values[i] += amplitude * Math.exp(-d * d / (2 * width * width));
+            }
+        });
+    });
+    return { values, rTimes };
+}
+
+function timeAxis(length: number, sampleRate: number): Float64Array {
+    return Float64Array.from({ length }, (_, i) => i / sampleRate);
+}
+
+describe('detectRPeaks', () => {
+    it.each([100, 250, 1000])('finds every R wave at %i Hz', sampleRate => {
+        const { values, rTimes } = syntheticEcg(sampleRate, 60);
+        const peaks = detectRPeaks(values, sampleRate);
+
+        expect(peaks).toHaveLength(rTimes.length);
+        // Within a sample, or the 3 ms the noise can move the top of the R wave
+        const tolerance = Math.max(1.5 / sampleRate, 0.003);
+        peaks.forEach((peak, i) => expect(Math.abs(peak / sampleRate - rTimes[i])).toBeLessThan(tolerance));
+    });
+
+    it('recovers the RR intervals and HRV of the recording', () => {
+        const { values } = syntheticEcg(1000, 60);
+        const peaks = detectRPeaks(values, 1000);
+        const intervals = beatIntervals(peaks, timeAxis(values.length, 1000), [{ start: 0, end: values.length }]);
+        const metrics = hrvMetrics(intervals);
+
+        intervals.forEach((interval, i) => expect(interval.rr).toBeCloseTo(RR_PATTERN[i % RR_PATTERN.length], -1));
+        // RR pattern 800, 830, 800, 900 ms: successive differences +30, −30, +100, −100
+        expect(metrics.beats).toBe(peaks.length);
+        expect(metrics.meanRr).toBeCloseTo(832.5, 0);
+        expect(metrics.rmssd).toBeCloseTo(Math.sqrt((30 * 30 + 30 * 30 + 100 * 100 + 100 * 100) / 4), -1);
+        expect(metrics.pnn20).toBe(100);
+        expect(metrics.pnn50).toBeCloseTo(50, -1);
+    });
+
+    it('finds the R waves of an inverted lead', () => {
+        const { values, rTimes } = syntheticEcg(250, 30);
+        const peaks = detectRPeaks(values.map(value => -value), 250);
+
+        expect(peaks).toHaveLength(rTimes.length);
+        peaks.forEach((peak, i) => expect(Math.abs(peak / 250 - rTimes[i])).toBeLessThan(1.5 / 250));
+    });
+
+    it('detects each run and each stretch between NaN gaps on its own', () => {
+        const { values, rTimes } = syntheticEcg(250, 30);
+        values.fill(NaN, 10 * 250, 12 * 250);
+        const peaks = detectRPeaks(values, 250, [{ start: 0, end: 20 * 250 }, { start: 20 * 250, end: values.length }]);
+
+        const expected = rTimes.filter(t => t < 10 - 0.1 || t > 12 + 0.1).length;
+        expect(Math.abs(peaks.length - expected)).toBeLessThanOrEqual(1);
+        expect(peaks.some(peak => peak >= 10 * 250 && peak < 12 * 250)).toBe(false);
+    });
+
+    it('finds nothing below the lowest usable sample rate', () => {
+        const { values } = syntheticEcg(40, 30);
+        expect(detectRPeaks(values, 40)).toEqual([]);
+    });
+});
+
+describe('togglePeak', () => {
+    const values = Float64Array.from([0, 1, 5, 1, 0, 0, 0, 2, 9, 3, 0, NaN, 8, 0]);
+
+    it('removes the peak nearest a click within the snap distance', () => {
+        // At 20 Hz the snap distance (75 ms) rounds to 2 samples
+        expect(togglePeak([2, 8], 7, values, 20)).toEqual([2]);
+        expect(togglePeak([2, 8], 4, values, 20)).toEqual([8]);
+    });
+
+    it('adds a peak at the local maximum elsewhere, keeping peaks sorted', () => {
+        expect(togglePeak([2], 9, values, 20)).toEqual([2, 8]);
+        expect(togglePeak([8], 1, values, 20)).toEqual([2, 8]);
+    });
+
+    it('stops the search at a NaN gap', () => {
+        expect(togglePeak([], 13, values, 20)).toEqual([12]);
+        expect(togglePeak([], 10, values, 20)).toEqual([8]);
+    });
+});
+
+describe('beatIntervals', () => {
+    it('never spans two runs', () => {
+        const time = timeAxis(20, 1);
+        const intervals = beatIntervals([1, 3, 6, 12, 15], time, [{ start: 0, end: 10 }, { start: 10, end: 20 }]);
+
+        expect(intervals).toEqual([
+            { start: 1, end: 3, rr: 2000 },
+            { start: 3, end: 6, rr: 3000 },
+            { start: 12, end: 15, rr: 3000 },
+        ]);
+    });
+});
+
+describe('hrvMetrics', () => {
+    const intervals = (starts: number[], rr: number[]): BeatInterval[] => rr.map((value, i) => ({
+        start: starts[i],
+        end: starts[i] + 1,
+        rr: value,
+    }));
+
+    it('computes the time-domain metrics of consecutive intervals', () => {
+        const metrics = hrvMetrics(intervals([0, 1, 2, 3], [800, 850, 800, 900]));
+
+        expect(metrics.beats).toBe(5);
+        expect(metrics.meanRr).toBe(837.5);
+        expect(metrics.meanHr).toBeCloseTo(71.6418, 4);
+        expect(metrics.rmssd).toBeCloseTo(Math.sqrt(5000), 9);
+        expect(metrics.sdnn).toBeCloseTo(Math.sqrt(1718.75), 9);
+        expect(metrics.sdsd).toBeCloseTo(Math.sqrt(3888.8889), 4);
+        expect(metrics.pnn50).toBeCloseTo(100 / 3, 9);
+        expect(metrics.pnn20).toBe(100);
+    });
+
+    it('pairs only intervals that share a beat', () => {
+        // A gap between the second and third interval leaves one successive difference
+        const metrics = hrvMetrics(intervals([0, 1, 5], [800, 900, 600]));
+
+        expect(metrics.beats).toBe(5);
+        expect(metrics.rmssd).toBeNull();
+        expect(metrics.sdsd).toBeNull();
+        expect(metrics.sdnn).toBeCloseTo(Math.sqrt(((800 - 2300 / 3) ** 2 + (900 - 2300 / 3) ** 2 + (600 - 2300 / 3) ** 2) / 3), 9);
+        expect(metrics.meanRr).toBeCloseTo(766.667, 3);
+    });
+
+    it('reports no metrics without intervals', () => {
+        expect(hrvMetrics([])).toEqual({
+            beats: 0, meanRr: null, meanHr: null, rmssd: null, sdnn: null, sdsd: null, pnn50: null, pnn20: null,
+        });
+    });
+});
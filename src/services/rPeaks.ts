@@ -0,0 +1,255 @@
+import { TimeDomainMetrics } from '../types/popane';
+import { RowRange } from './studyFrame';
+import { butterworthSections, filtfilt } from './signalFilters';
+
+// R-peak detection on ECG after Pan & Tompkins (1985): band-pass 5–15 Hz, differentiate, square,
+// integrate over 150 ms, then adaptive signal/noise thresholds with a refractory period, T-wave
+// rejection and search-back for missed beats. Every step is zero phase, so the integrated peaks
+// line up with the QRS and are refined to the R wave on the signal itself.
+//
+// Peaks are sample indices into the ECG. Runs mark contiguous stretches of recording; a beat
+// interval never spans two runs (e.g. back-to-back excerpts of different stimuli).
+
+// Lowest sample rate the 5–15 Hz QRS band survives with room to spare
+export const MIN_ECG_RATE = 50;
+
+const QRS_BAND: [number, number] = [5, 15];
+const INTEGRATION_SECONDS = 0.15;
+const REFRACTORY_SECONDS = 0.2;
+// Beats this close to the previous one are checked for being its T wave
+const T_WAVE_SECONDS = 0.36;
+// Missed-beat search once no beat came for this many average RR intervals
+const SEARCH_BACK_FACTOR = 1.66;
+// Distance from a click or integrated peak within which the R wave is looked for
+const SNAP_SECONDS = 0.075;
+const LEARNING_SECONDS = 2;
+
+// One RR interval, between the beats at sample indices `start` and `end`
+export interface BeatInterval {
+    start: number;
+    end: number;
+    rr: number;  // ms
+}
+
+export type HrvMetrics = Pick<TimeDomainMetrics, 'rmssd' | 'sdnn' | 'sdsd' | 'pnn50' | 'pnn20'> & {
+    beats: number;
+    meanRr: number | null;  // ms
+    meanHr: number | null;  // beats per minute
+};
+
+// Stretches of finite samples within the runs
+function finiteRuns(values: ArrayLike<number>, runs: RowRange[]): RowRange[] {
+    const finite: RowRange[] = [];
+    runs.forEach(({ start, end }) => {
+        let i = start;
+        while (i < end) {
+            while (i < end && !Number.isFinite(values[i])) i++;
+            const from = i;
+            while (i < end && Number.isFinite(values[i])) i++;
+            if (i > from) finite.push({ start: from, end: i });
+        }
+    });
+    return finite;
+}
+
+// Index of the largest value of sign * values[i] within [from, to)
+function argmax(values: ArrayLike<number>, from: number, to: number, sign: number = 1): number {
+    let best = from;
+    for (let i = from + 1; i < to; i++) {
+        if (sign * values[i] > sign * values[best]) best = i;
+    }
+    return best;
+}
+
+/**
+ * qrsEnergy - The band-passed run and its integrated squared slope, both aligned with the input
+ */
+function qrsEnergy(x: Float64Array, sampleRate: number): { band: Float64Array; energy: Float64Array } {
+    const band = filtfilt(x, [
+        ...butterworthSections('highpass', QRS_BAND[0], sampleRate, 2),
+        ...butterworthSections('lowpass', QRS_BAND[1], sampleRate, 2),
+    ], Math.ceil(3 * sampleRate / QRS_BAND[0]));
+
+    // Five-point derivative, squared
+    const n = band.length;
+    const at = (i: number) => band[Math.min(n - 1, Math.max(0, i))];
+    const squared = Float64Array.from({ length: n }, (_, i) => {
+        const slope = (2 * at(i + 1) + at(i + 2) - at(i - 2) - 2 * at(i - 1)) / 8;
+        return slope * slope;
+    });
+
+    // Centred moving-window integration
+    const half = Math.max(1, Math.round(INTEGRATION_SECONDS * sampleRate / 2));
+    const prefix = new Float64Array(n + 1);
+    for (let i = 0; i < n; i++) prefix[i + 1] = prefix[i] + squared[i];
+    const energy = Float64Array.from({ length: n }, (_, i) => {
+        const from = Math.max(0, i - half);
+        const to = Math.min(n, i + half + 1);
+        return (prefix[to] - prefix[from]) / (to - from);
+    });
+    return { band, energy };
+}
+
+// Peaks of one finite run, as indices into it
+function detectInRun(x: Float64Array, sampleRate: number): number[] {
+    const { band, energy } = qrsEnergy(x, sampleRate);
+    const n = x.length;
+    const refractory = Math.round(REFRACTORY_SECONDS * sampleRate);
+    const tWave = Math.round(T_WAVE_SECONDS * sampleRate);
+    const snap = Math.max(1, Math.round(SNAP_SECONDS * sampleRate));
+
+    // Thresholds learn from the first seconds
+    const learning = energy.subarray(0, Math.min(n, Math.round(LEARNING_SECONDS * sampleRate)));
+    let signalLevel = 0.25 * learning.reduce((max, value) => Math.max(max, value), 0);
+    let noiseLevel = 0.5 * learning.reduce((sum, value) => sum + value, 0) / Math.max(learning.length, 1);
+    const threshold = () => noiseLevel + 0.25 * (signalLevel - noiseLevel);
+
+    const slopeAt = (i: number) => {
+        let max = 0;
+        for (let k = Math.max(1, i - snap); k < Math.min(n, i + snap); k++) max = Math.max(max, Math.abs(band[k] - band[k - 1]));
+        return max;
+    };
+
+    const beats: number[] = [];
+    const slopes: number[] = [];
+    const noisePeaks: number[] = [];
+    const accept = (i: number, weight: number) => {
+        signalLevel = weight * energy[i] + (1 - weight) * signalLevel;
+        beats.push(i);
+        slopes.push(slopeAt(i));
+    };
+    const averageRr = () => {
+        const recent = beats.slice(-9);
+        return recent.length > 1 ? (recent[recent.length - 1] - recent[0]) / (recent.length - 1) : Infinity;
+    };
+
+    for (let i = 1; i < n - 1; i++) {
+        if (!(energy[i] > energy[i - 1] && energy[i] >= energy[i + 1])) continue;
+        const last = beats.length > 0 ? beats[beats.length - 1] : -Infinity;
+
+        // Search back for a beat the thresholds missed, at half the threshold
+        if (i - last > SEARCH_BACK_FACTOR * averageRr()) {
+            const candidates = noisePeaks.filter(p => p - last > refractory && energy[p] > threshold() / 2);
+            if (candidates.length > 0) {
+                accept(candidates.reduce((best, p) => energy[p] > energy[best] ? p : best), 0.25);
+                noisePeaks.length = 0;
+            }
+        }
+
+        const previous = beats.length > 0 ? beats[beats.length - 1] : -Infinity;
+        const isSignal = energy[i] > threshold()
+            && i - previous > refractory
+            && !(i - previous < tWave && slopeAt(i) < slopes[slopes.length - 1] / 2);
+        if (isSignal) {
+            accept(i, 0.125);
+            noisePeaks.length = 0;
+        } else {
+            noiseLevel = 0.125 * energy[i] + 0.875 * noiseLevel;
+            noisePeaks.push(i);
+        }
+    }
+
+    // The R wave is the band's largest excursion near the energy peak, found again on the raw signal
+    const peaks = beats.map(beat => {
+        const from = Math.max(0, beat - snap);
+        const to = Math.min(n, beat + snap + 1);
+        const qrs = argmax(band, from, to, 1);
+        const trough = argmax(band, from, to, -1);
+        const sign = Math.abs(band[qrs]) >= Math.abs(band[trough]) ? 1 : -1;
+        const centre = sign > 0 ? qrs : trough;
+        const radius = Math.max(1, Math.round(snap / 3));
+        return argmax(x, Math.max(0, centre - radius), Math.min(n, centre + radius + 1), sign);
+    });
+    return Array.from(new Set(peaks)).sort((a, b) => a - b);
+}
+
+/**
+ * detectRPeaks - Sample indices of the R waves in an ECG sampled at `sampleRate`
+ * Each run (the whole signal by default) is detected on its own; NaN gaps split runs further.
+ */
+export function detectRPeaks(
+    values: ArrayLike<number>,
+    sampleRate: number,
+    runs: RowRange[] = [{ start: 0, end: values.length }]
+): number[] {
+    if (!(sampleRate >= MIN_ECG_RATE)) return [];
+    const minimum = Math.round(LEARNING_SECONDS * sampleRate);
+    const peaks: number[] = [];
+    finiteRuns(values, runs).forEach(({ start, end }) => {
+        if (end - start < minimum) return;
+        const x = Float64Array.from({ length: end - start }, (_, i) => values[start + i]);
+        detectInRun(x, sampleRate).forEach(peak => peaks.push(start + peak));
+    });
+    return peaks;
+}
+
+/**
+ * togglePeak - Removes the peak nearest a clicked sample, or adds one at the local maximum there
+ * Peaks stay sorted; a click within the snap distance of a peak removes it.
+ */
+export function togglePeak(peaks: number[], index: number, values: ArrayLike<number>, sampleRate: number): number[] {
+    const snap = Math.max(1, Math.round(SNAP_SECONDS * sampleRate));
+    let nearest = -1;
+    peaks.forEach((peak, i) => {
+        if (Math.abs(peak - index) <= snap && (nearest < 0 || Math.abs(peak - index) < Math.abs(peaks[nearest] - index))) {
+            nearest = i;
+        }
+    });
+    if (nearest >= 0) return peaks.filter((_, i) => i !== nearest);
+
+    let from = Math.max(0, index - snap);
+    let to = Math.min(values.length, index + snap + 1);
+    while (from < index && !Number.isFinite(values[from])) from++;
+    while (to > index + 1 && !Number.isFinite(values[to - 1])) to--;
+    const peak = argmax(values, from, to);
+    return peaks.includes(peak) ? peaks : [...peaks, peak].sort((a, b) => a - b);
+}
+
+/**
+ * beatIntervals - RR intervals between consecutive peaks of the same run
+ */
+export function beatIntervals(peaks: number[], time: ArrayLike<number>, runs: RowRange[]): BeatInterval[] {
+    const runOf = (index: number) => runs.findIndex(run => index >= run.start && index < run.end);
+    const intervals: BeatInterval[] = [];
+    for (let i = 1; i < peaks.length; i++) {
+        const run = runOf(peaks[i]);
+        if (run < 0 || run !== runOf(peaks[i - 1])) continue;
+        intervals.push({ start: peaks[i - 1], end: peaks[i], rr: (time[peaks[i]] - time[peaks[i - 1]]) * 1000 });
+    }
+    return intervals;
+}
+
+function mean(values: number[]): number {
+    return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+// Population standard deviation, as the backend computes it
+function std(values: number[]): number {
+    const m = mean(values);
+    return Math.sqrt(mean(values.map(value => (value - m) * (value - m))));
+}
+
+/**
+ * hrvMetrics - Time-domain HRV of a set of intervals, defined as in the backend's TimeDomainMetrics
+ * Successive differences only pair intervals that share a beat; SDNN needs two intervals,
+ * the difference-based metrics two differences.
+ */
+export function hrvMetrics(intervals: BeatInterval[]): HrvMetrics {
+    const rr = intervals.map(interval => interval.rr);
+    const diffs: number[] = [];
+    for (let i = 1; i < intervals.length; i++) {
+        if (intervals[i].start === intervals[i - 1].end) diffs.push(intervals[i].rr - intervals[i - 1].rr);
+    }
+    const hasHrv = diffs.length > 1;
+    const meanRr = rr.length > 0 ? mean(rr) : null;
+    return {
+        beats: new Set(intervals.flatMap(interval => [interval.start, interval.end])).size,
+        meanRr,
+        meanHr: meanRr ? 60000 / meanRr : null,
+        rmssd: hasHrv ? Math.sqrt(mean(diffs.map(d => d * d))) : null,
+        sdnn: rr.length > 1 ? std(rr) : null,
+        sdsd: hasHrv ? std(diffs) : null,
+        pnn50: hasHrv ? (diffs.filter(d => Math.abs(d) > 50).length / diffs.length) * 100 : null,
+        pnn20: hasHrv ? (diffs.filter(d => Math.abs(d) > 20).length / diffs.length) * 100 : null,
+    };
+}
@@ -0,0 +1,76 @@
+import { computeReactivity, reactivityCsv, BASELINE_MARKER } from './reactivity';
+import { StudyFrame } from './studyFrame';
+
+// One subject per entry: `segments` are [marker, samples] in recording order, one sample per second
+function frameOf(subjects: Array<{ id: number; segments: Array<[number, number]> }>): StudyFrame {
+    const ids: number[] = [];
+    const markers: number[] = [];
+    const time: number[] = [];
+    const ecg: number[] = [];
+    subjects.forEach(({ id, segments }) => {
+        let t = 0;
+        segments.forEach(([marker, samples]) => {
+            for (let i = 0; i < samples; i++) {
+                ids.push(id);
+                markers.push(marker);
+                time.push(t++);
+                ecg.push(marker === BASELINE_MARKER ? 1 : 1 + marker);
+            }
+        });
+    });
+    return StudyFrame.fromColumns(Int32Array.from(ids), Int32Array.from(markers), new Map([
+        ['timestamp', Float64Array.from(time)],
+        ['ECG', Float64Array.from(ecg)],
+    ]));
+}
+
+// Subject 2 stops in its baseline, right before subject 3's
+const FRAME = frameOf([
+    { id: 1, segments: [[BASELINE_MARKER, 10], [1, 10], [2, 5]] },
+    { id: 2, segments: [[BASELINE_MARKER, 4]] },
+    { id: 3, segments: [[BASELINE_MARKER, 10], [1, 10], [2, 10]] },
+]);
+
+describe('computeReactivity', () => {
+    it('expresses each stimulus against the baseline', () => {
+        const rows = computeReactivity(FRAME, ['ECG'], 'timestamp', 0, 'difference');
+
+        expect(rows.map(row => [row.subjectId, row.marker, row.value])).toEqual([
+            [1, 1, 1], [1, 2, 2], [3, 1, 1], [3, 2, 2],
+        ]);
+        expect(rows.every(row => !row.baselineTruncated && !row.stimulusTruncated)).toBe(true);
+    });
+
+    it('marks the stimulus a partly loaded recording stops in', () => {
+        const rows = computeReactivity(FRAME, ['ECG'], 'timestamp', 0, 'difference', [1]);
+
+        expect(rows.map(row => [row.subjectId, row.marker, row.baselineTruncated, row.stimulusTruncated])).toEqual([
+            [1, 1, false, false],
+            [1, 2, false, true],
+            [3, 1, false, false],
+            [3, 2, false, false],
+        ]);
+    });
+
+    it('marks the baseline a partly loaded recording stops in', () => {
+        // Only possible when a stimulus precedes the resting period
+        const frame = frameOf([{ id: 5, segments: [[1, 2], [BASELINE_MARKER, 3]] }]);
+        const rows = computeReactivity(frame, ['ECG'], 'timestamp', 0, 'difference', [5]);
+
+        expect(rows.map(row => [row.subjectId, row.baselineTruncated, row.stimulusTruncated])).toEqual([[5, true, false]]);
+    });
+});
+
+describe('reactivityCsv', () => {
+    it('carries the truncation marks into the export', () => {
+        const rows = computeReactivity(FRAME, ['ECG'], 'timestamp', 0, 'difference', [1]);
+        const [header, ...lines] = reactivityCsv(rows, 'difference', 0).trim().split('\n');
+        const columns = header.split(',');
+        const field = (line: string, name: string) => line.split(',')[columns.indexOf(name)];
+
+        expect(columns).toContain('baseline_truncated');
+        expect(lines.map(line => [field(line, 'subject_id'), field(line, 'marker'), field(line, 'stimulus_truncated')]))
+            .toEqual([['1', '1', 'false'], ['1', '2', 'true'], ['3', '1', 'false'], ['3', '2', 'false']]);
+        expect(lines.every(line => field(line, 'baseline_truncated') === 'false')).toBe(true);
+    });
+});
@@ -0,0 +1,248 @@
+import { StudyFrame, RowRange } from './studyFrame';
+import { stimulusName } from './stimulusEvents';
+
+// Responses relative to the resting baseline recorded before the first stimulus (marker -1).
+// The baseline window is the last `seconds` of that period, so settling-in at the start of the
+// recording is left out; 0 uses the whole period.
+
+export const BASELINE_MARKER = -1;
+export const DEFAULT_BASELINE_SECONDS = 60;
+
+export type ReactivityMode = 'difference' | 'percent' | 'zscore';
+
+export const REACTIVITY_MODES: ReactivityMode[] = ['difference', 'percent', 'zscore'];
+
+export const REACTIVITY_LABELS: Record<ReactivityMode, string> = {
+    difference: 'Difference',
+    percent: '% change',
+    zscore: 'Z-score',
+};
+
+export interface BaselineStats {
+    count: number;
+    mean: number;
+    std: number;
+}
+
+// One subject's response to one stimulus on one channel
+export interface ReactivityRow {
+    subjectId: number;
+    marker: number;
+    stimulus: string;
+    channel: string;
+    baseline: BaselineStats;
+    stimulusMean: number;
+    samples: number;
+    value: number;  // NaN when the baseline cannot express it (no samples, zero mean or spread)
+    // The baseline or stimulus runs up to where loading of a partly loaded recording stopped,
+    // so its statistics may still change once the rest of the recording is loaded
+    baselineTruncated: boolean;
+    stimulusTruncated: boolean;
+}
+
+const NO_BASELINE: BaselineStats = { count: 0, mean: NaN, std: NaN };
+
+export function statsOf(values: ArrayLike<number>): BaselineStats {
+    let count = 0;
+    let sum = 0;
+    for (let i = 0; i < values.length; i++) {
+        if (Number.isNaN(values[i])) continue;
+        count++;
+        sum += values[i];
+    }
+    if (count === 0) return NO_BASELINE;
+
+    const mean = sum / count;
+    let squares = 0;
+    for (let i = 0; i < values.length; i++) {
+        if (!Number.isNaN(values[i])) squares += (values[i] - mean) * (values[i] - mean);
+    }
+    return { count, mean, std: Math.sqrt(squares / count) };
+}
+
+export function reactivityOf(value: number, baseline: BaselineStats, mode: ReactivityMode): number {
+    if (baseline.count === 0) return NaN;
+    switch (mode) {
+        case 'percent':
+            return baseline.mean !== 0 ? (value - baseline.mean) / Math.abs(baseline.mean) * 100 : NaN;
+        case 'zscore':
+            return baseline.std > 0 ? (value - baseline.mean) / baseline.std : NaN;
+        default:
+            return value - baseline.mean;
+    }
+}
+
+// Unit of a channel once expressed relative to baseline
+export function reactivityUnit(unit: string, mode: ReactivityMode): string {
+    switch (mode) {
+        case 'percent':
+            return '% of baseline';
+        case 'zscore':
+            return 'baseline SD';
+        default:
+            return unit ? `Δ ${unit}` : 'Δ';
+    }
+}
+
+/**
+ * baselineWindow - Seconds of a baseline period [onset, offset] the statistics come from
+ */
+export function baselineWindow(onset: number, offset: number, seconds: number): [number, number] {
+    return [seconds > 0 ? Math.max(onset, offset - seconds) : onset, offset];
+}
+
+// Samples of the given rows, in order
+function gather(values: Float64Array, ranges: RowRange[]): Float64Array {
+    const gathered = new Float64Array(ranges.reduce((sum, range) => sum + range.end - range.start, 0));
+    let offset = 0;
+    ranges.forEach(({ start, end }) => {
+        gathered.set(values.subarray(start, end), offset);
+        offset += end - start;
+    });
+    return gathered;
+}
+
+// Runs of a marker within one subject's rows
+function runsWithin(frame: StudyFrame, marker: number, range: RowRange): RowRange[] {
+    return frame.markerRanges(marker).filter(run => run.start >= range.start && run.end <= range.end);
+}
+
+// Rows of a subject's baseline that fall in the window
+function baselineRows(frame: StudyFrame, subjectId: number, timeColumn: string, seconds: number): RowRange[] {
+    const range = frame.subjectRange(subjectId);
+    const time = frame.column(timeColumn);
+    if (!range || !time) return [];
+
+    const runs = runsWithin(frame, BASELINE_MARKER, range);
+    if (runs.length === 0) return [];
+
+    const [from, to] = baselineWindow(time[runs[0].start], time[runs[runs.length - 1].end - 1], seconds);
+    return runs.map(run => {
+        let start = run.start;
+        while (start < run.end && !(time[start] >= from)) start++;
+        let end = run.end;
+        while (end > start && !(time[end - 1] <= to)) end--;
+        return { start, end };
+    }).filter(run => run.end > run.start);
+}
+
+export function frameBaseline(
+    frame: StudyFrame,
+    subjectId: number,
+    channel: string,
+    timeColumn: string,
+    seconds: number
+): BaselineStats {
+    const values = frame.channel(channel);
+    if (!values) return NO_BASELINE;
+    return statsOf(gather(values, baselineRows(frame, subjectId, timeColumn, seconds)));
+}
+
+/**
+ * relativeToBaseline - A copy of a channel with every sample expressed against its subject's baseline
+ * Subjects without baseline rows come out as NaN.
+ */
+export function relativeToBaseline(
+    frame: StudyFrame,
+    channel: string,
+    timeColumn: string,
+    seconds: number,
+    mode: ReactivityMode
+): Float64Array {
+    const values = frame.channel(channel);
+    const result = new Float64Array(frame.length).fill(NaN);
+    if (!values) return result;
+
+    frame.subjects.forEach(subjectId => {
+        const range = frame.subjectRange(subjectId)!;
+        const baseline = frameBaseline(frame, subjectId, channel, timeColumn, seconds);
+        for (let i = range.start; i < range.end; i++) {
+            result[i] = reactivityOf(values[i], baseline, mode);
+        }
+    });
+    return result;
+}
+
+/**
+ * computeReactivity - Mean response to each stimulus per subject and channel, against the baseline
+ * Rows are ordered by subject, then marker, then channel. The frame holds only the first part of
+ * the recordings in `partialSubjects`; rows whose baseline or stimulus reaches its end are marked.
+ */
+export function computeReactivity(
+    frame: StudyFrame,
+    channels: string[],
+    timeColumn: string,
+    seconds: number,
+    mode: ReactivityMode,
+    partialSubjects: number[] = []
+): ReactivityRow[] {
+    const rows: ReactivityRow[] = [];
+    frame.subjects.forEach(subjectId => {
+        const range = frame.subjectRange(subjectId)!;
+        const partial = partialSubjects.includes(subjectId);
+        const reachesEnd = (runs: RowRange[]) => partial && runs.some(run => run.end === range.end);
+        const baselineTruncated = reachesEnd(runsWithin(frame, BASELINE_MARKER, range));
+        const baselines = new Map(channels.map(channel => [
+            channel,
+            frameBaseline(frame, subjectId, channel, timeColumn, seconds),
+        ]));
+
+        frame.markerKeys.forEach(marker => {
+            if (marker === BASELINE_MARKER) return;
+            const runs = runsWithin(frame, marker, range);
+            if (runs.length === 0) return;
+            const stimulusTruncated = reachesEnd(runs);
+
+            channels.forEach(channel => {
+                const values = frame.channel(channel);
+                if (!values) return;
+                const stats = statsOf(gather(values, runs));
+                if (stats.count === 0) return;
+                const baseline = baselines.get(channel)!;
+                rows.push({
+                    subjectId,
+                    marker,
+                    stimulus: stimulusName(marker),
+                    channel,
+                    baseline,
+                    stimulusMean: stats.mean,
+                    samples: stats.count,
+                    value: reactivityOf(stats.mean, baseline, mode),
+                    baselineTruncated,
+                    stimulusTruncated,
+                });
+            });
+        });
+    });
+    return rows;
+}
+
+function csvNumber(value: number): string {
+    return Number.isNaN(value) ? '' : String(value);
+}
+
+// Long format, one line per row, for statistics packages
+export function reactivityCsv(rows: ReactivityRow[], mode: ReactivityMode, seconds: number): string {
+    const header = [
+        'subject_id', 'marker', 'stimulus', 'channel',
+        'baseline_seconds', 'baseline_mean', 'baseline_sd', 'baseline_samples', 'baseline_truncated',
+        'stimulus_mean', 'stimulus_samples', 'stimulus_truncated', 'mode', 'reactivity',
+    ];
+    const lines = rows.map(row => [
+        row.subjectId,
+        row.marker,
+        row.stimulus,
+        row.channel,
+        seconds > 0 ? seconds : 'all',
+        csvNumber(row.baseline.mean),
+        csvNumber(row.baseline.std),
+        row.baseline.count,
+        row.baselineTruncated,
+        csvNumber(row.stimulusMean),
+        row.samples,
+        row.stimulusTruncated,
+        mode,
+        csvNumber(row.value),
+    ].join(','));
+    return [header.join(','), ...lines].join('\n') + '\n';
+}
@@ -0,0 +1,139 @@
+import {
+    SchemaError,
+    array,
+    nullable,
+    number,
+    object,
+    optional,
+    pcaSchema,
+    studyDataSchema,
+    validate,
+} from './responseSchemas';
+import { ContractMismatchError } from './apiError';
+import { popaneApi } from './popaneApi';
+
+function pcaResponse(): Record<string, unknown> {
+    return {
+        study_number: 1,
+        data_points: Array.from({ length: 5 }, (_, i) => ({
+            pc1: i,
+            pc2: -i,
+            emotion: 'Fear',
+            color: '#7c3aed',
+            subject_id: 100 + i,
+        })),
+        explained_variance: [0.6, 0.3],
+        features_used: ['ECG', 'EDA'],
+        emotions: [{ emotion: 'Fear', color: '#7c3aed' }],
+    };
+}
+
+function thrown(run: () => unknown): unknown {
+    try {
+        run();
+    } catch (err) {
+        return err;
+    }
+    return undefined;
+}
+
+describe('validate', () => {
+    it('accepts a matching payload and returns it unchanged', () => {
+        const payload = pcaResponse();
+        expect(validate(pcaSchema, payload)).toEqual({ data: payload, unknownFields: [] });
+    });
+
+    it('names the path of a missing field', () => {
+        const payload = pcaResponse();
+        delete (payload.data_points as Record<string, unknown>[])[3].pc1;
+
+        expect(thrown(() => validate(pcaSchema, payload))).toEqual(new SchemaError('data_points[3].pc1', 'a number', 'nothing'));
+    });
+
+    it('names the path of a field of the wrong type', () => {
+        const payload = { ...pcaResponse(), explained_variance: [0.6, '0.3'] };
+
+        expect(thrown(() => validate(pcaSchema, payload))).toMatchObject({
+            field: 'explained_variance[1]',
+            expected: 'a number',
+            received: 'string "0.3"',
+        });
+    });
+
+    it('rejects a renamed field and collects undeclared ones from a valid payload', () => {
+        const renamed = pcaResponse();
+        const points = renamed.data_points as Record<string, unknown>[];
+        points.forEach(point => {
+            point.PC1 = point.pc1;
+            delete point.pc1;
+        });
+        expect(() => validate(pcaSchema, renamed)).toThrow(expect.objectContaining({ field: 'data_points[0].pc1' }));
+
+        const extended = pcaResponse();
+        (extended.data_points as Record<string, unknown>[]).forEach(point => {
+            point.pc3 = 0;
+        });
+        extended.loadings = [];
+        expect(validate(pcaSchema, extended).unknownFields).toEqual(['data_points[].pc3', 'loadings']);
+    });
+
+    it('accepts null and missing values where the schema allows them, and nowhere else', () => {
+        const rows = [
+            { Subject_ID: 1, timestamp: 0, marker: -1, ECG: null },
+            { Subject_ID: 1, timestamp: 0.004, marker: -1, ECG: 0.2, EDA: 3.1 },
+        ];
+        expect(validate(studyDataSchema, rows).data).toBe(rows);
+        expect(() => validate(studyDataSchema, [{ ...rows[0], marker: null }]))
+            .toThrow(expect.objectContaining({ field: '[0].marker', received: 'null' }));
+
+        const schema = object<{ a: number | null; b?: number }>({ a: nullable(number), b: optional(number) });
+        expect(validate(schema, { a: null }).data).toEqual({ a: null });
+        expect(() => validate(schema, {})).toThrow(expect.objectContaining({ field: 'a', received: 'nothing' }));
+        expect(() => validate(schema, { a: 1, b: null })).toThrow(expect.objectContaining({ field: 'b', received: 'null' }));
+    });
+
+    it('describes a top-level mismatch as the response', () => {
+        expect(() => validate(array(number), { rows: [] })).toThrow('response should be an array, got an object');
+    });
+});
+
+describe('popaneApi contract checks', () => {
+    let fetchSpy: jest.SpyInstance;
+    const respondWith = (payload: unknown) => fetchSpy.mockImplementation(() => Promise.resolve(
+        new Response(JSON.stringify(payload), { headers: { 'Content-Type': 'application/json' } })
+    ));
+
+    beforeEach(() => {
+        popaneApi.setMockMode(false);
+        fetchSpy = jest.spyOn(global, 'fetch');
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('turns a renamed PCA field into a ContractMismatchError naming its path', async () => {
+        const payload = pcaResponse();
+        const point = (payload.data_points as Record<string, unknown>[])[3];
+        point.pc_1 = point.pc1;
+        delete point.pc1;
+        respondWith(payload);
+
+        const error = await popaneApi.getPCAAnalysis(1).catch(err => err);
+
+        expect(error).toBeInstanceOf(ContractMismatchError);
+        expect(error).toMatchObject({ field: 'data_points[3].pc1', expected: 'a number', received: 'nothing' });
+        expect(error.message).toMatch(/^Backend contract mismatch: data_points\[3\]\.pc1 should be a number, got nothing/);
+    });
+
+    it('reports unknown fields once in development', async () => {
+        const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+        respondWith({ ...pcaResponse(), loadings: [] });
+
+        await popaneApi.getPCAAnalysis(1);
+        await popaneApi.getPCAAnalysis(1);
+
+        expect(warn).toHaveBeenCalledTimes(1);
+        expect(warn).toHaveBeenCalledWith(expect.stringContaining('/pca/1 returned fields missing'), ['loadings']);
+    });
+});
@@ -0,0 +1,408 @@
+import {
+    StudyData,
+    StudyMetadata,
+    SubjectInfo,
+    EmotionColorMap,
+    EmotionColoredSignalsResponse,
+    SignalSeries,
+    PCAResponse,
+    FeatureInfo,
+    EmotionSummaryResponse,
+    FeatureAnalysisResponse,
+    PowerSpectrumResponse,
+    FFTResponse,
+    FeatureMatrixResponse,
+    FrequencyPCAResponse,
+    SignalOverviewResponse,
+} from '../types/popane';
+
+// Runtime validators for backend payloads. Each schema mirrors an interface in
+// types/popane.ts; the object() shapes are checked against those interfaces at
+// compile time, so a type change without a schema change fails the build.
+
+interface ValidationContext {
+    unknownFields: Set<string>;
+}
+
+export type Schema<T> = (value: unknown, path: string, ctx: ValidationContext) => T;
+
+/**
+ * SchemaError - A payload value that does not match its schema
+ * `field` is a path into the response such as `data_points[3].pc1`.
+ */
+export class SchemaError extends Error {
+    readonly field: string;
+    readonly expected: string;
+    readonly received: string;
+
+    constructor(field: string, expected: string, received: string) {
+        super(`${field || 'response'} should be ${expected}, got ${received}`);
+        this.name = 'SchemaError';
+        this.field = field;
+        this.expected = expected;
+        this.received = received;
+        Object.setPrototypeOf(this, SchemaError.prototype);
+    }
+}
+
+function describe(value: unknown): string {
+    if (value === null) return 'null';
+    if (value === undefined) return 'nothing';
+    if (Array.isArray(value)) return 'an array';
+    if (typeof value === 'object') return 'an object';
+    return `${typeof value} ${JSON.stringify(value)}`;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function join(path: string, key: string): string {
+    return path ? `${path}.${key}` : key;
+}
+
+// --- Combinators ---
+
+export const number: Schema<number> = (value, path) => {
+    if (typeof value !== 'number') throw new SchemaError(path, 'a number', describe(value));
+    return value;
+};
+
+export const string: Schema<string> = (value, path) => {
+    if (typeof value !== 'string') throw new SchemaError(path, 'a string', describe(value));
+    return value;
+};
+
+export function nullable<T>(schema: Schema<T>): Schema<T | null> {
+    return (value, path, ctx) => (value === null ? null : schema(value, path, ctx));
+}
+
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+    return (value, path, ctx) => (value === undefined ? undefined : schema(value, path, ctx));
+}
+
+export function array<T>(item: Schema<T>): Schema<T[]> {
+    return (value, path, ctx) => {
+        if (!Array.isArray(value)) throw new SchemaError(path, 'an array', describe(value));
+        value.forEach((entry, i) => item(entry, `${path}[${i}]`, ctx));
+        return value as T[];
+    };
+}
+
+export function tuple<A, B>(first: Schema<A>, second: Schema<B>): Schema<[A, B]> {
+    return (value, path, ctx) => {
+        if (!Array.isArray(value) || value.length !== 2) {
+            throw new SchemaError(path, 'a pair of values', describe(value));
+        }
+        first(value[0], `${path}[0]`, ctx);
+        second(value[1], `${path}[1]`, ctx);
+        return value as [A, B];
+    };
+}
+
+export function record<T>(entry: Schema<T>): Schema<Record<string, T>> {
+    return (value, path, ctx) => {
+        if (!isPlainObject(value)) throw new SchemaError(path, 'an object', describe(value));
+        Object.keys(value).forEach(key => entry(value[key], join(path, key), ctx));
+        return value as Record<string, T>;
+    };
+}
+
+// Declared (non-index-signature) keys of T
+type KnownKeys<T> = keyof { [K in keyof T as string extends K ? never : number extends K ? never : K]: T[K] };
+
+type Shape<T> = { [K in KnownKeys<T>]-?: Schema<T[K]> };
+
+/**
+ * object - Validates declared fields; undeclared ones go to `rest` when given,
+ * otherwise they are collected for the dev-mode unknown-field report.
+ */
+export function object<T>(shape: Shape<T>, rest?: Schema<unknown>): Schema<T> {
+    const fields = shape as unknown as Record<string, Schema<unknown>>;
+    return (value, path, ctx) => {
+        if (!isPlainObject(value)) throw new SchemaError(path, 'an object', describe(value));
+
+        Object.keys(fields).forEach(key => fields[key](value[key], join(path, key), ctx));
+        Object.keys(value).forEach(key => {
+            if (key in fields) return;
+            if (rest) {
+                rest(value[key], join(path, key), ctx);
+            } else {
+                ctx.unknownFields.add(join(path, key).replace(/\[\d+\]/g, '[]'));
+            }
+        });
+        return value as T;
+    };
+}
+
+/**
+ * validate - Checks a payload against a schema
+ * Throws SchemaError on the first mismatch; returns the unknown field paths otherwise.
+ */
+export function validate<T>(schema: Schema<T>, value: unknown): { data: T; unknownFields: string[] } {
+    const ctx: ValidationContext = { unknownFields: new Set() };
+    const data = schema(value, '', ctx);
+    return { data, unknownFields: Array.from(ctx.unknownFields) };
+}
+
+// --- Response schemas ---
+
+// Signal columns a study does not record come back missing or null
+const measurement = optional(nullable(number));
+
+export const studyDataSchema = array(object<StudyData>({
+    Subject_ID: number,
+    timestamp: number,
+    time_offset: measurement,
+    affect: measurement,
+    ECG: measurement,
+    EDA: measurement,
+    temp: measurement,
+    respiration: measurement,
+    SBP: measurement,
+    DBP: measurement,
+    CO: measurement,
+    TPR: measurement,
+    dzdt: measurement,
+    dz: measurement,
+    z0: measurement,
+    marker: number,
+}));
+
+export const studiesSchema = array(object<StudyMetadata>({
+    studyNumber: number,
+    name: string,
+    description: string,
+    columns: array(string),
+    subjectCount: number,
+    samplingRate: optional(number),
+    stimuli: optional(array(number)),
+}));
+
+export const subjectsSchema = array(object<SubjectInfo>({
+    id: number,
+    studyNumber: number,
+    recordCount: number,
+}));
+
+export const studyStatsSchema = object<{ totalRecords: number; subjects: number }>({
+    totalRecords: number,
+    subjects: number,
+});
+
+export const searchResultsSchema = array(object<{ studyNumber: number; subjectId: number; matches: number }>({
+    studyNumber: number,
+    subjectId: number,
+    matches: number,
+}));
+
+export const featuresSchema = array(object<FeatureInfo>({
+    name: string,
+    unit: string,
+    title: string,
+    default_color: string,
+}));
+
+const emotionColorSchema = object<EmotionColorMap>({
+    emotion: string,
+    color: string,
+    recording_id: optional(string),
+});
+
+export const emotionColoredSignalsSchema = object<EmotionColoredSignalsResponse>({
+    study_number: number,
+    subject_id: number,
+    study_name: string,
+    emotions: array(emotionColorSchema),
+    signals: array(object({
+        feature: string,
+        unit: string,
+        title: string,
+        data_points: array(object({
+            time_offset: number,
+            value: nullable(number),
+            emotion: string,
+            color: string,
+        })),
+    })),
+    available_features: array(string),
+    time_range: object({ min: number, max: number }),
+});
+
+// The columnar transport sends the data points as columns and the rest of the response as metadata
+export interface EmotionColoredSignalsMetadata extends Omit<EmotionColoredSignalsResponse, 'signals'> {
+    signals: Omit<SignalSeries, 'data_points'>[];
+}
+
+export const emotionColoredSignalsMetadataSchema = object<EmotionColoredSignalsMetadata>({
+    study_number: number,
+    subject_id: number,
+    study_name: string,
+    emotions: array(emotionColorSchema),
+    signals: array(object({
+        feature: string,
+        unit: string,
+        title: string,
+    })),
+    available_features: array(string),
+    time_range: object({ min: number, max: number }),
+});
+
+export const signalOverviewSchema = object<SignalOverviewResponse>({
+    study_number: number,
+    subject_id: number,
+    feature: string,
+    unit: string,
+    duration: number,
+    segments: array(object({
+        marker: number,
+        emotion: string,
+        color: string,
+        start: number,
+        end: number,
+    })),
+    points: array(object({
+        time: number,
+        min: nullable(number),
+        max: nullable(number),
+    })),
+});
+
+export const pcaSchema = object<PCAResponse>({
+    study_number: number,
+    data_points: array(object({
+        pc1: number,
+        pc2: number,
+        emotion: string,
+        color: string,
+        subject_id: number,
+    })),
+    explained_variance: array(number),
+    features_used: array(string),
+    emotions: array(emotionColorSchema),
+});
+
+export const emotionSummarySchema = object<EmotionSummaryResponse>({
+    emotionCounts: record(number),
+    subjectsPerEmotion: record(array(number)),
+    totalSubjects: number,
+    studyNumber: number,
+});
+
+export const featureAnalysisSchema = object<FeatureAnalysisResponse>({
+    study_number: number,
+    subject_id: number,
+    feature: string,
+    feature_title: string,
+    feature_unit: string,
+    emotions: array(object({
+        emotion: string,
+        color: string,
+        time_domain: object({
+            mean: number,
+            std: number,
+            min_val: number,
+            max_val: number,
+            range_val: number,
+            rmssd: nullable(number),
+            sdnn: nullable(number),
+            sdsd: nullable(number),
+            pnn50: nullable(number),
+            pnn20: nullable(number),
+            n_samples: number,
+            duration_sec: number,
+        }),
+        frequency_domain: object({
+            vlf_power: number,
+            lf_power: number,
+            hf_power: number,
+            total_power: number,
+            lf_nu: number,
+            hf_nu: number,
+            lf_hf_ratio: number,
+            vlf_peak: number,
+            lf_peak: number,
+            hf_peak: number,
+            n_samples: number,
+            sampling_rate: number,
+        }),
+    })),
+    summary: object({
+        n_emotions: number,
+        total_samples: number,
+        sampling_rate: number,
+    }),
+});
+
+const frequencyBandSchema = object<{ min: number; max: number; label: string }>({
+    min: number,
+    max: number,
+    label: string,
+});
+
+export const powerSpectrumSchema = object<PowerSpectrumResponse>({
+    study_number: number,
+    subject_id: number,
+    feature: string,
+    spectra: array(object({
+        emotion: string,
+        color: string,
+        data: array(object({ frequency: number, power: number })),
+    })),
+    frequency_bands: object({
+        vlf: frequencyBandSchema,
+        lf: frequencyBandSchema,
+        hf: frequencyBandSchema,
+    }),
+});
+
+export const fftSchema = object<FFTResponse>({
+    study_number: number,
+    subject_id: number,
+    feature: string,
+    feature_title: string,
+    sampling_interval: number,
+    max_frequency: number,
+    emotions: array(object({
+        emotion: string,
+        color: string,
+        spectrum: array(object({ frequency: number, magnitude: number })),
+        dominant_frequency: number,
+        signal_energy: number,
+        n_samples: number,
+    })),
+});
+
+const featureValue: Schema<number | string> = (value, path, ctx) =>
+    typeof value === 'string' ? value : number(value, path, ctx);
+
+export const featureMatrixSchema = object<FeatureMatrixResponse>({
+    study_number: number,
+    columns: array(string),
+    signals_used: array(string),
+    n_subjects: number,
+    n_emotions: number,
+    n_features: number,
+    // Feature columns vary with the requested signals, so every extra key is a feature value
+    rows: array(object<FeatureMatrixResponse['rows'][number]>({
+        Subject: number,
+        Emotion: string,
+        _color: string,
+    }, featureValue)),
+});
+
+export const frequencyPCASchema = object<FrequencyPCAResponse>({
+    study_number: number,
+    features_used: array(string),
+    n_subjects: number,
+    n_emotions: number,
+    n_points: number,
+    variance_explained: tuple(number, number),
+    data_points: array(object({
+        subject_id: number,
+        emotion: string,
+        color: string,
+        pc1: number,
+        pc2: number,
+    })),
+});
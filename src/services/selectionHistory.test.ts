@@ -0,0 +1,91 @@
+import { SelectionHistory } from './selectionHistory';
+import { UrlState } from './urlState';
+
+function state(study: number, secondsPerEmotion?: number): UrlState {
+    return { study, subjects: [], view: 'emotion', secondsPerEmotion };
+}
+
+describe('SelectionHistory', () => {
+    let now: number;
+
+    beforeEach(() => {
+        now = 1000;
+        jest.spyOn(Date, 'now').mockImplementation(() => now);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('undoes and redoes recorded changes in order', () => {
+        const history = new SelectionHistory();
+        history.record(state(1));
+        history.record(state(2));
+
+        expect(history.undo(state(3))).toEqual(state(2));
+        expect(history.undo(state(2))).toEqual(state(1));
+        expect(history.undo(state(1))).toBeNull();
+        expect(history.redo(state(1))).toEqual(state(2));
+        expect(history.redo(state(2))).toEqual(state(3));
+        expect(history.getSnapshot()).toEqual({ canUndo: true, canRedo: false });
+    });
+
+    it('merges edits of one control within the merge window into one step', () => {
+        const history = new SelectionHistory();
+        history.record(state(1, 5), 'seconds');
+        now += 300;
+        history.record(state(1, 3), 'seconds');
+        now += 300;
+        history.record(state(1, 30), 'seconds');
+
+        // Back to the value before the first edit, in one step
+        expect(history.undo(state(1, 300))).toEqual(state(1, 5));
+        expect(history.getSnapshot().canUndo).toBe(false);
+    });
+
+    it('does not merge edits further apart than the window, or of different controls', () => {
+        const history = new SelectionHistory();
+        history.record(state(1, 5), 'seconds');
+        now += 2000;
+        history.record(state(1, 10), 'seconds');
+        now += 100;
+        history.record(state(1, 20), 'features');
+
+        expect(history.undo(state(1, 30))).toEqual(state(1, 20));
+        expect(history.undo(state(1, 20))).toEqual(state(1, 10));
+        expect(history.undo(state(1, 10))).toEqual(state(1, 5));
+    });
+
+    it('does not merge an edit into a step that was undone', () => {
+        const history = new SelectionHistory();
+        history.record(state(1, 5), 'seconds');
+        history.undo(state(1, 10));
+        history.record(state(1, 5), 'seconds');
+
+        expect(history.undo(state(1, 15))).toEqual(state(1, 5));
+    });
+
+    it('drops the redo stack when a new change is recorded', () => {
+        const history = new SelectionHistory();
+        history.record(state(1));
+        history.record(state(2));
+        history.undo(state(3));
+        expect(history.getSnapshot().canRedo).toBe(true);
+
+        history.record(state(2));
+        expect(history.getSnapshot()).toEqual({ canUndo: true, canRedo: false });
+        expect(history.redo(state(4))).toBeNull();
+    });
+
+    it('notifies subscribers of every change', () => {
+        const history = new SelectionHistory();
+        const listener = jest.fn();
+        const unsubscribe = history.subscribe(listener);
+        history.record(state(1));
+        history.undo(state(2));
+        unsubscribe();
+        history.redo(state(1));
+
+        expect(listener).toHaveBeenCalledTimes(2);
+    });
+});
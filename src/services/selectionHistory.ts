@@ -0,0 +1,85 @@
+import { UrlState } from './urlState';
+
+// Undo/redo stacks for exploration state (study, subjects, view, chart settings).
+// Kept apart from browser history: undo steps through every change, including
+// chart settings that only replace the current history entry.
+
+export interface HistorySnapshot {
+    canUndo: boolean;
+    canRedo: boolean;
+}
+
+type HistoryListener = () => void;
+
+const MAX_ENTRIES = 100;
+
+// Rapid edits to the same control (typing "30" into a number input) undo as one step
+const MERGE_WINDOW_MS = 800;
+
+/**
+ * SelectionHistory - Past and future selection states around the current URL
+ * Callers record the state they are leaving; undo/redo return the state to restore.
+ */
+export class SelectionHistory {
+    private past: UrlState[] = [];
+    private future: UrlState[] = [];
+    private lastMergeKey: string | null = null;
+    private lastRecordedAt = 0;
+    private snapshot: HistorySnapshot = { canUndo: false, canRedo: false };
+    private listeners = new Set<HistoryListener>();
+
+    getSnapshot = (): HistorySnapshot => this.snapshot;
+
+    subscribe = (listener: HistoryListener): (() => void) => {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    };
+
+    record(previous: UrlState, mergeKey?: string): void {
+        const now = Date.now();
+        const merge = mergeKey !== undefined
+            && mergeKey === this.lastMergeKey
+            && now - this.lastRecordedAt < MERGE_WINDOW_MS;
+
+        if (!merge) {
+            this.past.push(previous);
+            if (this.past.length > MAX_ENTRIES) this.past.shift();
+        }
+        this.future = [];
+        this.lastMergeKey = mergeKey ?? null;
+        this.lastRecordedAt = now;
+        this.notify();
+    }
+
+    undo(current: UrlState): UrlState | null {
+        const previous = this.past.pop();
+        if (!previous) return null;
+        this.future.push(current);
+        this.lastMergeKey = null;
+        this.notify();
+        return previous;
+    }
+
+    redo(current: UrlState): UrlState | null {
+        const next = this.future.pop();
+        if (!next) return null;
+        this.past.push(current);
+        this.lastMergeKey = null;
+        this.notify();
+        return next;
+    }
+
+    private notify(): void {
+        const canUndo = this.past.length > 0;
+        const canRedo = this.future.length > 0;
+        if (canUndo !== this.snapshot.canUndo || canRedo !== this.snapshot.canRedo) {
+            this.snapshot = { canUndo, canRedo };
+        }
+        this.listeners.forEach(listener => listener());
+    }
+}
+
+export const selectionHistory = new SelectionHistory();
+export default selectionHistory;
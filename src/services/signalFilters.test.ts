@@ -0,0 +1,195 @@
+import { Biquad, applyFilters, butterworthSections, filtfilt, firTaps, notchSection } from './signalFilters';
+
+// Reference coefficients from scipy.signal (b, a with a[0] = 1); cutoffs there are relative to Nyquist
+const SCIPY = {
+    butter2Low: { b: [0.0200834, 0.0401667, 0.0200834], a: [1, -1.5610181, 0.6413515] },      // butter(2, 0.1)
+    butter2High: { b: [0.8005924, -1.6011848, 0.8005924], a: [1, -1.5610181, 0.6413515] },    // butter(2, 0.1, 'high')
+    butter4Low: {                                                                               // butter(4, 0.1)
+        b: [0.0004166, 0.0016664, 0.0024996, 0.0016664, 0.0004166],
+        a: [1, -3.1806386, 3.8611944, -2.1121554, 0.4382651],
+    },
+    notch50: { b: [0.9794828, -0.6053536, 0.9794828], a: [1, -0.6053536, 0.9589655] },        // iirnotch(50, 30, fs=250)
+};
+
+function coefficients({ b0, b1, b2, a1, a2 }: Biquad): { b: number[]; a: number[] } {
+    return { b: [b0, b1, b2], a: [1, a1, a2] };
+}
+
+function multiply(p: number[], q: number[]): number[] {
+    const product = new Array(p.length + q.length - 1).fill(0);
+    p.forEach((x, i) => q.forEach((y, j) => {
+        product[i + j] += x * y;
+    }));
+    return product;
+}
+
+// Transfer function of sections in cascade, as b and a polynomials
+function cascade(sections: Biquad[]): { b: number[]; a: number[] } {
+    return sections.map(coefficients).reduce((total, section) => ({
+        b: multiply(total.b, section.b),
+        a: multiply(total.a, section.a),
+    }));
+}
+
+function expectClose(actual: number[], expected: number[]): void {
+    expect(actual).toHaveLength(expected.length);
+    actual.forEach((value, i) => expect(value).toBeCloseTo(expected[i], 6));
+}
+
+// |H| at `frequency` of the polynomial ratio b / a
+function magnitude(b: ArrayLike<number>, a: ArrayLike<number>, frequency: number, sampleRate: number): number {
+    const w = 2 * Math.PI * frequency / sampleRate;
+    const evaluate = (p: ArrayLike<number>) => {
+        let re = 0;
+        let im = 0;
+        for (let n = 0; n < p.length; n++) {
+            re += p[n] * Math.cos(w * n);
+            im -= p[n] * Math.sin(w * n);
+        }
+        return Math.hypot(re, im);
+    };
+    return evaluate(b) / evaluate(a);
+}
+
+function sine(frequency: number, sampleRate: number, seconds: number): Float64Array {
+    return Float64Array.from({ length: seconds * sampleRate }, (_, i) => Math.sin(2 * Math.PI * frequency * i / sampleRate));
+}
+
+// Amplitude and phase of the `frequency` component over [from, to)
+function component(x: Float64Array, frequency: number, sampleRate: number, from: number, to: number): { amplitude: number; phase: number } {
+    let re = 0;
+    let im = 0;
+    for (let i = from; i < to; i++) {
+        re += x[i] * Math.sin(2 * Math.PI * frequency * i / sampleRate);
+        im += x[i] * Math.cos(2 * Math.PI * frequency * i / sampleRate);
+    }
+    return { amplitude: 2 * Math.hypot(re, im) / (to - from), phase: Math.atan2(im, re) };
+}
+
+describe('butterworthSections', () => {
+    it('matches scipy for a second-order low-pass', () => {
+        const sections = butterworthSections('lowpass', 5, 100, 2);
+
+        expect(sections).toHaveLength(1);
+        expectClose(coefficients(sections[0]).b, SCIPY.butter2Low.b);
+        expectClose(coefficients(sections[0]).a, SCIPY.butter2Low.a);
+    });
+
+    it('matches scipy for a second-order high-pass', () => {
+        const [section] = butterworthSections('highpass', 5, 100, 2);
+
+        expectClose(coefficients(section).b, SCIPY.butter2High.b);
+        expectClose(coefficients(section).a, SCIPY.butter2High.a);
+    });
+
+    it('matches scipy for the fourth-order default once the sections are multiplied out', () => {
+        const { b, a } = cascade(butterworthSections('lowpass', 5, 100));
+
+        expectClose(b, SCIPY.butter4Low.b);
+        expectClose(a, SCIPY.butter4Low.a);
+    });
+
+    it('is 3 dB down at the cutoff', () => {
+        const { b, a } = cascade(butterworthSections('highpass', 0.5, 250));
+        expect(magnitude(b, a, 0.5, 250)).toBeCloseTo(Math.SQRT1_2, 6);
+    });
+
+    it('rejects a cutoff at or above Nyquist', () => {
+        expect(() => butterworthSections('lowpass', 50, 100)).toThrow(RangeError);
+    });
+});
+
+describe('notchSection', () => {
+    it('matches scipy iirnotch', () => {
+        const { b, a } = coefficients(notchSection(50, 250));
+
+        expectClose(b, SCIPY.notch50.b);
+        expectClose(a, SCIPY.notch50.a);
+    });
+
+    it('removes the mains frequency and passes the rest', () => {
+        const { b, a } = coefficients(notchSection(60, 500));
+
+        expect(magnitude(b, a, 60, 500)).toBeLessThan(1e-9);
+        expect(magnitude(b, a, 10, 500)).toBeCloseTo(1, 3);
+        expect(magnitude(b, a, 120, 500)).toBeCloseTo(1, 2);
+    });
+});
+
+describe('firTaps', () => {
+    const FS = 250;
+    const response = (taps: Float64Array, frequency: number) => magnitude(taps, [1], frequency, FS);
+
+    it('designs symmetric, linear-phase kernels of odd length', () => {
+        [
+            firTaps({ kind: 'lowpass', cutoff: 10, design: 'fir' }, FS),
+            firTaps({ kind: 'highpass', cutoff: 5, design: 'fir' }, FS),
+            firTaps({ kind: 'bandpass', low: 5, high: 15, design: 'fir' }, FS),
+        ].forEach(taps => {
+            expect(taps.length % 2).toBe(1);
+            expectClose(Array.from(taps), Array.from(taps).reverse());
+        });
+    });
+
+    it('puts the cutoff at half amplitude, like scipy firwin', () => {
+        const low = firTaps({ kind: 'lowpass', cutoff: 10, design: 'fir' }, FS);
+        const high = firTaps({ kind: 'highpass', cutoff: 5, design: 'fir' }, FS);
+        const band = firTaps({ kind: 'bandpass', low: 5, high: 15, design: 'fir' }, FS);
+
+        expect(response(low, 0)).toBeCloseTo(1, 9);
+        expect(response(low, 10)).toBeCloseTo(0.5, 2);
+        expect(response(low, 20)).toBeLessThan(0.01);
+
+        expect(response(high, 0)).toBeCloseTo(0, 9);
+        expect(response(high, 5)).toBeCloseTo(0.5, 2);
+        expect(response(high, 50)).toBeCloseTo(1, 2);
+
+        expect(response(band, 0)).toBeCloseTo(0, 9);
+        expect(response(band, 5)).toBeCloseTo(0.5, 2);
+        expect(response(band, 10)).toBeCloseTo(1, 2);
+        expect(response(band, 15)).toBeCloseTo(0.5, 2);
+        expect(response(band, 40)).toBeLessThan(0.01);
+    });
+});
+
+describe('filtfilt', () => {
+    const FS = 250;
+
+    it('leaves a passband sinusoid in phase', () => {
+        const x = sine(2, FS, 10);
+        const y = filtfilt(x, butterworthSections('lowpass', 10, FS));
+        const mid: [number, number] = [FS * 2, FS * 8];
+
+        const input = component(x, 2, FS, ...mid);
+        const output = component(y, 2, FS, ...mid);
+        expect(output.amplitude).toBeCloseTo(input.amplitude, 3);
+        expect(output.phase - input.phase).toBeCloseTo(0, 4);
+    });
+
+    it('removes an offset through a high-pass and keeps the wave on top in place', () => {
+        const wave = sine(5, FS, 10);
+        const y = filtfilt(wave.map(value => value + 3), butterworthSections('highpass', 0.5, FS), Math.ceil(3 * FS / 0.5));
+        const error = (from: number, to: number) => y.slice(from, to).reduce((max, value, i) => Math.max(max, Math.abs(value - wave[from + i])), 0);
+
+        expect(error(FS, wave.length - FS)).toBeLessThan(0.01);
+        // The ends settle from the mirrored padding within a second
+        expect(error(0, wave.length)).toBeLessThan(0.1);
+    });
+});
+
+describe('applyFilters', () => {
+    it('filters each run between NaN gaps and leaves the gaps', () => {
+        const x = sine(50, 250, 4);
+        x.fill(NaN, 400, 500);
+        const y = applyFilters(x, 250, [{ kind: 'notch', frequency: 50 }]);
+
+        expect(y.slice(400, 500).every(Number.isNaN)).toBe(true);
+        expect(component(y, 50, 250, 100, 300).amplitude).toBeLessThan(0.05);
+        expect(component(y, 50, 250, 700, 900).amplitude).toBeLessThan(0.05);
+    });
+
+    it('skips filters the sample rate cannot support', () => {
+        const x = sine(1, 100, 2);
+        expect(applyFilters(x, 100, [{ kind: 'lowpass', cutoff: 80, design: 'iir' }])).toEqual(x);
+    });
+});
@@ -0,0 +1,344 @@
+// Zero-phase filters for display: IIR designs run forward and backward (filtfilt), FIR designs
+// are symmetric and applied centred, so neither shifts a waveform in time. Filters work on runs
+// of consecutive samples; NaN gaps split a signal into runs that are filtered separately.
+
+export type FilterKind = 'highpass' | 'lowpass' | 'bandpass' | 'notch' | 'median';
+export type FilterDesign = 'iir' | 'fir';
+
+export type FilterSpec =
+    | { kind: 'highpass'; cutoff: number; design: FilterDesign }
+    | { kind: 'lowpass'; cutoff: number; design: FilterDesign }
+    | { kind: 'bandpass'; low: number; high: number; design: FilterDesign }
+    | { kind: 'notch'; frequency: 50 | 60 }
+    | { kind: 'median'; seconds: number };  // subtracts a moving median (baseline wander)
+
+// Filters per channel name, applied in order
+export type ChannelFilters = Record<string, FilterSpec[]>;
+
+export const FILTER_KINDS: FilterKind[] = ['highpass', 'lowpass', 'bandpass', 'notch', 'median'];
+
+export const FILTER_LABELS: Record<FilterKind, string> = {
+    highpass: 'High-pass',
+    lowpass: 'Low-pass',
+    bandpass: 'Band-pass',
+    notch: 'Notch',
+    median: 'Median detrend',
+};
+
+export const DEFAULT_FILTERS: Record<FilterKind, FilterSpec> = {
+    highpass: { kind: 'highpass', cutoff: 0.5, design: 'iir' },
+    lowpass: { kind: 'lowpass', cutoff: 40, design: 'iir' },
+    bandpass: { kind: 'bandpass', low: 0.5, high: 40, design: 'iir' },
+    notch: { kind: 'notch', frequency: 50 },
+    median: { kind: 'median', seconds: 1 },
+};
+
+// Order of the Butterworth IIR designs; filtfilt doubles the effective order
+export const IIR_ORDER = 4;
+const NOTCH_Q = 30;
+// FIR length limit; low cutoffs at high sample rates get a wider transition band
+export const MAX_FIR_TAPS = 1001;
+
+/**
+ * Biquad - One second-order section, a0 normalized to 1:
+ * y[n] = b0 x[n] + b1 x[n-1] + b2 x[n-2] - a1 y[n-1] - a2 y[n-2]
+ */
+export interface Biquad {
+    b0: number;
+    b1: number;
+    b2: number;
+    a1: number;
+    a2: number;
+}
+
+function biquad(b0: number, b1: number, b2: number, a0: number, a1: number, a2: number): Biquad {
+    return { b0: b0 / a0, b1: b1 / a0, b2: b2 / a0, a1: a1 / a0, a2: a2 / a0 };
+}
+
+// Q of each section of an even-order Butterworth filter
+function butterworthQs(order: number): number[] {
+    return Array.from({ length: order / 2 }, (_, k) => 1 / (2 * Math.cos(Math.PI * (2 * k + 1) / (2 * order))));
+}
+
+/**
+ * butterworthSections - Biquads of a low- or high-pass Butterworth filter (bilinear transform)
+ * The cutoff must lie strictly between 0 and the Nyquist frequency.
+ */
+export function butterworthSections(
+    kind: 'lowpass' | 'highpass',
+    cutoff: number,
+    sampleRate: number,
+    order: number = IIR_ORDER
+): Biquad[] {
+    if (!(cutoff > 0 && cutoff < sampleRate / 2)) {
+        throw new RangeError(`Cutoff ${cutoff} Hz is outside (0, ${sampleRate / 2}) Hz`);
+    }
+    const w0 = 2 * Math.PI * cutoff / sampleRate;
+    const cos = Math.cos(w0);
+    const sin = Math.sin(w0);
+    return butterworthQs(order).map(q => {
+        const alpha = sin / (2 * q);
+        return kind === 'lowpass'
+            ? biquad((1 - cos) / 2, 1 - cos, (1 - cos) / 2, 1 + alpha, -2 * cos, 1 - alpha)
+            : biquad((1 + cos) / 2, -(1 + cos), (1 + cos) / 2, 1 + alpha, -2 * cos, 1 - alpha);
+    });
+}
+
+/**
+ * notchSection - Second-order notch whose -3 dB band is `frequency / q` wide (as scipy's iirnotch)
+ */
+export function notchSection(frequency: number, sampleRate: number, q: number = NOTCH_Q): Biquad {
+    if (!(frequency > 0 && frequency < sampleRate / 2)) {
+        throw new RangeError(`Notch at ${frequency} Hz is outside (0, ${sampleRate / 2}) Hz`);
+    }
+    const w0 = 2 * Math.PI * frequency / sampleRate;
+    const cos = Math.cos(w0);
+    const alpha = Math.tan(w0 / (2 * q));
+    return biquad(1, -2 * cos, 1, 1 + alpha, -2 * cos, 1 - alpha);
+}
+
+function sinc(x: number): number {
+    return x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x);
+}
+
+// Hamming-windowed sinc low-pass with unity gain at DC
+function firLowpassTaps(cutoff: number, sampleRate: number, taps: number): Float64Array {
+    const fc = cutoff / sampleRate;
+    const middle = (taps - 1) / 2;
+    const h = Float64Array.from({ length: taps }, (_, n) =>
+        2 * fc * sinc(2 * fc * (n - middle)) * (0.54 - 0.46 * Math.cos(2 * Math.PI * n / (taps - 1)))
+    );
+    const sum = h.reduce((total, value) => total + value, 0);
+    return h.map(value => value / sum);
+}
+
+// Odd length giving a transition band of about a quarter of the lowest edge (Hamming: 3.3 / taps)
+export function firLength(lowestEdge: number, sampleRate: number): number {
+    const taps = Math.ceil(3.3 * sampleRate / Math.max(lowestEdge / 4, 1e-6));
+    return Math.min(MAX_FIR_TAPS, Math.max(3, taps + (taps % 2 === 0 ? 1 : 0)));
+}
+
+/**
+ * firTaps - Symmetric windowed-sinc coefficients of an FIR design
+ * High-pass is spectral inversion of the low-pass; band-pass is the difference of two low-passes.
+ */
+export function firTaps(spec: Extract<FilterSpec, { design: FilterDesign }>, sampleRate: number): Float64Array {
+    const nyquist = sampleRate / 2;
+    const edges = spec.kind === 'bandpass' ? [spec.low, spec.high] : [spec.cutoff];
+    if (!edges.every(edge => edge > 0 && edge < nyquist) || (spec.kind === 'bandpass' && spec.low >= spec.high)) {
+        throw new RangeError(`Band edges ${edges.join('–')} Hz are outside (0, ${nyquist}) Hz`);
+    }
+    const taps = firLength(Math.min(...edges), sampleRate);
+    const middle = (taps - 1) / 2;
+
+    if (spec.kind === 'lowpass') return firLowpassTaps(spec.cutoff, sampleRate, taps);
+    if (spec.kind === 'highpass') {
+        const h = firLowpassTaps(spec.cutoff, sampleRate, taps).map(value => -value);
+        h[middle] += 1;
+        return h;
+    }
+    const high = firLowpassTaps(spec.high, sampleRate, taps);
+    const low = firLowpassTaps(spec.low, sampleRate, taps);
+    return high.map((value, i) => value - low[i]);
+}
+
+// Runs one section over `x` in place (direct form II transposed), starting at steady state for x[0]
+function runSection(x: Float64Array, { b0, b1, b2, a1, a2 }: Biquad): void {
+    const x0 = x[0];
+    const y0 = x0 * (b0 + b1 + b2) / (1 + a1 + a2);
+    let z2 = b2 * x0 - a2 * y0;
+    let z1 = b1 * x0 - a1 * y0 + z2;
+    for (let i = 0; i < x.length; i++) {
+        const input = x[i];
+        const output = b0 * input + z1;
+        z1 = b1 * input - a1 * output + z2;
+        z2 = b2 * input - a2 * output;
+        x[i] = output;
+    }
+}
+
+// Mirror extension at both ends (scipy's padtype='even'). Odd extension would shift the level of
+// the padding by twice the end value, which a low high-pass cutoff carries back into the signal.
+function evenExtend(x: Float64Array, pad: number): Float64Array {
+    const extended = new Float64Array(x.length + 2 * pad);
+    extended.set(x, pad);
+    for (let i = 1; i <= pad; i++) {
+        extended[pad - i] = x[i];
+        extended[pad + x.length - 1 + i] = x[x.length - 1 - i];
+    }
+    return extended;
+}
+
+/**
+ * filtfilt - Applies the sections forward then backward: zero phase, squared magnitude response
+ * The default padding length is scipy's; low cutoffs settle slowly and need about three periods.
+ */
+export function filtfilt(x: Float64Array, sections: Biquad[], padLength: number = 3 * (2 * sections.length + 1)): Float64Array {
+    const pad = Math.min(x.length - 1, padLength);
+    const y = evenExtend(x, pad);
+    sections.forEach(section => runSection(y, section));
+    y.reverse();
+    sections.forEach(section => runSection(y, section));
+    y.reverse();
+    return y.slice(pad, pad + x.length);
+}
+
+// Centred convolution with a symmetric kernel; the ends are mirrored
+export function convolveCentered(x: Float64Array, h: Float64Array): Float64Array {
+    const half = (h.length - 1) / 2;
+    const n = x.length;
+    const at = (i: number) => {
+        if (n === 1) return x[0];
+        const period = 2 * (n - 1);
+        const folded = ((i % period) + period) % period;
+        return x[folded < n ? folded : period - folded];
+    };
+    const y = new Float64Array(n);
+    for (let i = 0; i < n; i++) {
+        let sum = 0;
+        for (let k = 0; k < h.length; k++) sum += h[k] * at(i + half - k);
+        y[i] = sum;
+    }
+    return y;
+}
+
+// Running median over an odd window, truncated at the ends
+export function movingMedian(x: Float64Array, window: number): Float64Array {
+    const half = Math.floor(Math.max(window, 1) / 2);
+    const sorted: number[] = [];
+    const insert = (value: number) => {
+        let lo = 0;
+        let hi = sorted.length;
+        while (lo < hi) {
+            const mid = (lo + hi) >> 1;
+            if (sorted[mid] < value) lo = mid + 1;
+            else hi = mid;
+        }
+        sorted.splice(lo, 0, value);
+    };
+    const remove = (value: number) => {
+        let lo = 0;
+        let hi = sorted.length;
+        while (lo < hi) {
+            const mid = (lo + hi) >> 1;
+            if (sorted[mid] < value) lo = mid + 1;
+            else hi = mid;
+        }
+        sorted.splice(lo, 1);
+    };
+
+    const medians = new Float64Array(x.length);
+    for (let i = 0; i < Math.min(half, x.length); i++) insert(x[i]);
+    for (let i = 0; i < x.length; i++) {
+        if (i + half < x.length) insert(x[i + half]);
+        if (i - half - 1 >= 0) remove(x[i - half - 1]);
+        const mid = sorted.length >> 1;
+        medians[i] = sorted.length % 2 === 1 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+    }
+    return medians;
+}
+
+// Three periods of the lowest frequency a filter acts on, in samples
+function settlingPad(frequency: number, sampleRate: number): number {
+    return Math.ceil(3 * sampleRate / frequency);
+}
+
+function applyOne(x: Float64Array, spec: FilterSpec, sampleRate: number): Float64Array {
+    switch (spec.kind) {
+        case 'notch':
+            return filtfilt(x, [notchSection(spec.frequency, sampleRate)], settlingPad(spec.frequency / NOTCH_Q, sampleRate));
+        case 'median': {
+            const medians = movingMedian(x, Math.round(spec.seconds * sampleRate) | 1);
+            return x.map((value, i) => value - medians[i]);
+        }
+        default:
+            if (spec.design === 'fir') return convolveCentered(x, firTaps(spec, sampleRate));
+            if (spec.kind === 'bandpass') {
+                return filtfilt(x, [
+                    ...butterworthSections('highpass', spec.low, sampleRate),
+                    ...butterworthSections('lowpass', spec.high, sampleRate),
+                ], settlingPad(spec.low, sampleRate));
+            }
+            return filtfilt(x, butterworthSections(spec.kind, spec.cutoff, sampleRate), settlingPad(spec.cutoff, sampleRate));
+    }
+}
+
+/**
+ * filterProblem - Why a filter cannot run at a sample rate, or null when it can
+ */
+export function filterProblem(spec: FilterSpec, sampleRate: number): string | null {
+    const nyquist = sampleRate / 2;
+    const edges = spec.kind === 'bandpass' ? [spec.low, spec.high]
+        : spec.kind === 'notch' ? [spec.frequency]
+        : spec.kind === 'median' ? []
+        : [spec.cutoff];
+    if (edges.some(edge => !(edge > 0 && edge < nyquist))) {
+        return `must be between 0 and ${nyquist.toFixed(1)} Hz (half the ${sampleRate.toFixed(0)} Hz sample rate)`;
+    }
+    if (spec.kind === 'bandpass' && spec.low >= spec.high) return 'low edge must be below high edge';
+    if (spec.kind === 'median' && !(spec.seconds > 0)) return 'window must be longer than 0 s';
+    return null;
+}
+
+/**
+ * applyFilters - A filtered copy of a signal sampled at `sampleRate`
+ * Each run of non-NaN samples is filtered on its own; filters that cannot run at this sample
+ * rate (see filterProblem) are skipped.
+ */
+export function applyFilters(values: Float64Array, sampleRate: number, filters: FilterSpec[]): Float64Array {
+    const result = Float64Array.from(values);
+    const runnable = filters.filter(spec => filterProblem(spec, sampleRate) === null);
+    if (runnable.length === 0) return result;
+
+    let start = 0;
+    while (start < result.length) {
+        while (start < result.length && Number.isNaN(result[start])) start++;
+        let end = start;
+        while (end < result.length && !Number.isNaN(result[end])) end++;
+        if (end - start >= 3) {
+            const filtered = runnable.reduce(
+                (run, spec) => applyOne(run, spec, sampleRate),
+                result.slice(start, end)
+            );
+            result.set(filtered, start);
+        }
+        start = end;
+    }
+    return result;
+}
+
+// Median spacing of ascending sample times in seconds, as a rate; null when it cannot be told
+export function estimateSampleRate(time: ArrayLike<number>): number | null {
+    const steps: number[] = [];
+    for (let i = 1; i < time.length && steps.length < 1000; i++) {
+        const step = time[i] - time[i - 1];
+        if (step > 0 && Number.isFinite(step)) steps.push(step);
+    }
+    if (steps.length === 0) return null;
+    steps.sort((a, b) => a - b);
+    return 1 / steps[steps.length >> 1];
+}
+
+export function describeFilter(spec: FilterSpec): string {
+    switch (spec.kind) {
+        case 'highpass':
+            return `HP ${spec.cutoff} Hz${spec.design === 'fir' ? ' (FIR)' : ''}`;
+        case 'lowpass':
+            return `LP ${spec.cutoff} Hz${spec.design === 'fir' ? ' (FIR)' : ''}`;
+        case 'bandpass':
+            return `BP ${spec.low}–${spec.high} Hz${spec.design === 'fir' ? ' (FIR)' : ''}`;
+        case 'notch':
+            return `Notch ${spec.frequency} Hz`;
+        default:
+            return `Median detrend ${spec.seconds} s`;
+    }
+}
+
+// Name of the unfiltered copy of a column plotted for before/after comparison
+export function unfilteredName(column: string): string {
+    return `${column} (unfiltered)`;
+}
+
+export function isUnfilteredName(column: string): boolean {
+    return column.endsWith(' (unfiltered)');
+}
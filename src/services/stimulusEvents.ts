@@ -0,0 +1,94 @@
+import { MARKER_TO_EMOTION, EMOTION_COLORS, SignalOverviewResponse } from '../types/popane';
+import { StudyFrame } from './studyFrame';
+
+// When each stimulus (marker) was presented during a recording, in seconds
+
+export interface StimulusEvent {
+    marker: number;
+    name: string;
+    color: string;
+    onset: number;
+    offset: number;
+}
+
+// A vertical line where a stimulus starts, in a plot's x units
+export interface StimulusOnset {
+    x: number;
+    marker: number;
+    color: string;
+}
+
+export function stimulusName(marker: number): string {
+    return MARKER_TO_EMOTION[marker] || `Marker ${marker}`;
+}
+
+function stimulusEvent(marker: number, onset: number, offset: number): StimulusEvent {
+    const name = stimulusName(marker);
+    return { marker, name, color: EMOTION_COLORS[name] || '#666666', onset, offset };
+}
+
+// Stimulus segments of a recording overview, in presentation order
+export function eventsFromOverview(segments: SignalOverviewResponse['segments']): StimulusEvent[] {
+    return segments
+        .map(segment => stimulusEvent(segment.marker, segment.start, segment.end))
+        .sort((a, b) => a.onset - b.onset);
+}
+
+/**
+ * eventsFromFrame - Runs of one marker in a subject's loaded rows
+ * A stimulus ends where the next begins, or at the last loaded sample, so
+ * partially loaded recordings yield the stimuli loaded so far.
+ */
+export function eventsFromFrame(frame: StudyFrame, subjectId: number, timeColumn: string): StimulusEvent[] {
+    const range = frame.subjectRange(subjectId);
+    const time = frame.column(timeColumn);
+    if (!range || !time) return [];
+
+    const events: StimulusEvent[] = [];
+    let runStart = range.start;
+    for (let i = range.start + 1; i <= range.end; i++) {
+        if (i < range.end && frame.markers[i] === frame.markers[runStart]) continue;
+        const offset = i < range.end ? time[i] : time[i - 1];
+        if (!Number.isNaN(time[runStart]) && !Number.isNaN(offset)) {
+            events.push(stimulusEvent(frame.markers[runStart], time[runStart], offset));
+        }
+        runStart = i;
+    }
+    return events;
+}
+
+export function formatSeconds(seconds: number): string {
+    return `${seconds.toFixed(1)} s`;
+}
+
+// Onset lines for a panel, labelled with the marker ID where `labelled`
+export function onsetLayout(
+    onsets: StimulusOnset[],
+    labelled: boolean,
+    isDark: boolean
+): Pick<Plotly.Layout, 'shapes' | 'annotations'> {
+    return {
+        shapes: onsets.map(({ x, color }) => ({
+            type: 'line',
+            xref: 'x',
+            yref: 'paper',
+            x0: x,
+            x1: x,
+            y0: 0,
+            y1: 1,
+            layer: 'below',
+            line: { color, width: 1, dash: 'dash' },
+        })),
+        annotations: labelled ? onsets.map(({ x, marker, color }) => ({
+            x,
+            xref: 'x',
+            y: 1,
+            yref: 'paper',
+            xanchor: 'left',
+            yanchor: 'bottom',
+            showarrow: false,
+            text: String(marker),
+            font: { size: 9, color: isDark ? '#e5e7eb' : color },
+        })) : [],
+    };
+}
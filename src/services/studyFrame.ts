@@ -0,0 +1,232 @@
+import { StudyData } from '../types/popane';
+import { ColumnarTable } from './columnarFormat';
+import { SchemaError } from './responseSchemas';
+
+// Raw study data as columns: one Float64Array per channel (NaN where a sample is
+// missing) and Int32Arrays for the subject and marker keys. Rows are stored with
+// each subject's samples contiguous, so a subject is a row range and so is every
+// run of a marker.
+
+export interface RowRange {
+    start: number;
+    end: number;  // exclusive
+}
+
+export type FrameColumn = Float64Array | Int32Array;
+
+const KEY_COLUMNS = ['Subject_ID', 'marker'];
+
+function runsOf(keys: Int32Array, start: number, end: number): Map<number, RowRange[]> {
+    const runs = new Map<number, RowRange[]>();
+    if (start >= end) return runs;
+
+    let runStart = start;
+    for (let i = start + 1; i <= end; i++) {
+        if (i < end && keys[i] === keys[runStart]) continue;
+        const key = keys[runStart];
+        const range = { start: runStart, end: i };
+        const existing = runs.get(key);
+        if (existing) existing.push(range);
+        else runs.set(key, [range]);
+        runStart = i;
+    }
+    return runs;
+}
+
+/**
+ * StudyFrame - Columnar, read-only view of study data rows
+ * Build it once per response (`fromRows` for JSON, `fromTable` for the columnar
+ * transport) and slice it instead of filtering row objects; slices share the
+ * underlying buffers.
+ */
+export class StudyFrame {
+    readonly length: number;
+    readonly subjectIds: Int32Array;
+    readonly markers: Int32Array;
+    // Every column, key columns first, in the order they appear in the data
+    readonly columnNames: string[];
+    // Distinct subjects and markers, ascending
+    readonly subjects: number[];
+    readonly markerKeys: number[];
+
+    private readonly channels: Map<string, Float64Array>;
+    private readonly subjectIndex: Map<number, RowRange>;
+    private readonly markerIndex: Map<number, RowRange[]>;
+
+    // Rows must already be grouped by subject; fromRows and fromColumns group them
+    constructor(subjectIds: Int32Array, markers: Int32Array, channels: Map<string, Float64Array>) {
+        this.length = subjectIds.length;
+        this.subjectIds = subjectIds;
+        this.markers = markers;
+        this.channels = channels;
+        this.columnNames = [...KEY_COLUMNS, ...Array.from(channels.keys())];
+
+        this.subjectIndex = new Map();
+        runsOf(subjectIds, 0, this.length).forEach((ranges, subject) => {
+            this.subjectIndex.set(subject, { start: ranges[0].start, end: ranges[ranges.length - 1].end });
+        });
+        // Marker runs end at subject boundaries, so each run belongs to one subject
+        this.markerIndex = new Map();
+        this.subjectIndex.forEach(({ start, end }) => {
+            runsOf(markers, start, end).forEach((ranges, marker) => {
+                const existing = this.markerIndex.get(marker);
+                if (existing) existing.push(...ranges);
+                else this.markerIndex.set(marker, ranges);
+            });
+        });
+
+        const ascending = (a: number, b: number) => a - b;
+        this.subjects = Array.from(this.subjectIndex.keys()).sort(ascending);
+        this.markerKeys = Array.from(this.markerIndex.keys()).sort(ascending);
+    }
+
+    static empty(): StudyFrame {
+        return new StudyFrame(new Int32Array(0), new Int32Array(0), new Map());
+    }
+
+    static fromRows(rows: StudyData[]): StudyFrame {
+        const records = rows as unknown as Record<string, unknown>[];
+
+        const names: string[] = [];
+        const seen = new Set<string>(KEY_COLUMNS);
+        records.forEach(record => {
+            Object.keys(record).forEach(name => {
+                if (!seen.has(name) && typeof record[name] === 'number') {
+                    seen.add(name);
+                    names.push(name);
+                }
+            });
+        });
+
+        const channels = new Map<string, Float64Array>();
+        names.forEach(name => {
+            channels.set(name, Float64Array.from(records, record => {
+                const value = record[name];
+                return typeof value === 'number' ? value : NaN;
+            }));
+        });
+
+        return StudyFrame.fromColumns(
+            Int32Array.from(rows, row => row.Subject_ID),
+            Int32Array.from(rows, row => row.marker),
+            channels
+        );
+    }
+
+    // Keeps each subject's rows together, otherwise in the given order
+    static fromColumns(subjectIds: Int32Array, markers: Int32Array, channels: Map<string, Float64Array>): StudyFrame {
+        const grouped = subjectIds.every((id, i) => i === 0 || id >= subjectIds[i - 1]);
+        if (grouped) return new StudyFrame(subjectIds, markers, channels);
+
+        const order = Array.from({ length: subjectIds.length }, (_, i) => i)
+            .sort((a, b) => subjectIds[a] - subjectIds[b] || a - b);
+        const reordered = new Map<string, Float64Array>();
+        channels.forEach((values, name) => reordered.set(name, Float64Array.from(order, i => values[i])));
+        return new StudyFrame(
+            Int32Array.from(order, i => subjectIds[i]),
+            Int32Array.from(order, i => markers[i]),
+            reordered
+        );
+    }
+
+    // Appends frames, e.g. pages of a paged download; channels missing from a frame are NaN there
+    static concat(frames: StudyFrame[]): StudyFrame {
+        const nonEmpty = frames.filter(frame => frame.length > 0);
+        if (nonEmpty.length === 0) return StudyFrame.empty();
+        if (nonEmpty.length === 1) return nonEmpty[0];
+
+        const length = nonEmpty.reduce((sum, frame) => sum + frame.length, 0);
+        const subjectIds = new Int32Array(length);
+        const markers = new Int32Array(length);
+        const channels = new Map<string, Float64Array>();
+        nonEmpty.forEach(frame => frame.channels.forEach((_, name) => {
+            if (!channels.has(name)) channels.set(name, new Float64Array(length).fill(NaN));
+        }));
+
+        let offset = 0;
+        nonEmpty.forEach(frame => {
+            subjectIds.set(frame.subjectIds, offset);
+            markers.set(frame.markers, offset);
+            frame.channels.forEach((values, name) => channels.get(name)!.set(values, offset));
+            offset += frame.length;
+        });
+
+        return StudyFrame.fromColumns(subjectIds, markers, channels);
+    }
+
+    // Numeric columns of a decoded columnar response; text columns are not study data
+    static fromTable(table: ColumnarTable): StudyFrame {
+        const key = (name: string): Int32Array => {
+            const column = table.columns.get(name);
+            if (column instanceof Int32Array) return column;
+            if (column instanceof Float64Array) return Int32Array.from(column);
+            throw new SchemaError(name, 'an integer column', column ? 'text' : 'nothing');
+        };
+
+        const channels = new Map<string, Float64Array>();
+        table.columns.forEach((column, name) => {
+            if (KEY_COLUMNS.includes(name)) return;
+            if (column instanceof Float64Array) channels.set(name, column);
+            else if (column instanceof Int32Array) channels.set(name, Float64Array.from(column));
+        });
+
+        return StudyFrame.fromColumns(key('Subject_ID'), key('marker'), channels);
+    }
+
+    has(name: string): boolean {
+        return this.column(name) !== undefined;
+    }
+
+    column(name: string): FrameColumn | undefined {
+        if (name === 'Subject_ID') return this.subjectIds;
+        if (name === 'marker') return this.markers;
+        return this.channels.get(name);
+    }
+
+    // A measured channel (not a key column)
+    channel(name: string): Float64Array | undefined {
+        return this.channels.get(name);
+    }
+
+    value(row: number, name: string): number | null {
+        const column = this.column(name);
+        if (!column || row < 0 || row >= this.length) return null;
+        const value = column[row];
+        return Number.isNaN(value) ? null : value;
+    }
+
+    // Materializes one row as a plain object, e.g. for display
+    row(index: number): StudyData {
+        const record: Record<string, number> = {
+            Subject_ID: this.subjectIds[index],
+            marker: this.markers[index],
+        };
+        this.channels.forEach((values, name) => {
+            if (!Number.isNaN(values[index])) record[name] = values[index];
+        });
+        return record as unknown as StudyData;
+    }
+
+    subjectRange(subjectId: number): RowRange | undefined {
+        return this.subjectIndex.get(subjectId);
+    }
+
+    markerRanges(marker: number): RowRange[] {
+        return this.markerIndex.get(marker) ?? [];
+    }
+
+    slice(start: number, end: number = this.length): StudyFrame {
+        const from = Math.max(0, Math.min(start, this.length));
+        const to = Math.max(from, Math.min(end, this.length));
+        const channels = new Map<string, Float64Array>();
+        this.channels.forEach((values, name) => channels.set(name, values.subarray(from, to)));
+        return new StudyFrame(this.subjectIds.subarray(from, to), this.markers.subarray(from, to), channels);
+    }
+
+    forSubject(subjectId: number): StudyFrame {
+        const range = this.subjectRange(subjectId);
+        return range ? this.slice(range.start, range.end) : StudyFrame.empty();
+    }
+}
+
+export default StudyFrame;
@@ -0,0 +1,447 @@
+import { MARKER_TO_EMOTION } from '../types/popane';
+
+// Seeded generator of plausible multi-channel physiology for the mock backend.
+// A recording is built beat by beat and breath by breath, so ECG, blood pressure,
+// impedance and HRV stay mutually consistent, and every stimulus shifts the
+// underlying physiology the way the emotion-elicitation literature describes.
+
+export interface StimulusSegment {
+    marker: number;
+    start: number;  // seconds
+    end: number;    // seconds
+}
+
+/**
+ * PhysiologyProfile - Parameters of the autonomic state driving all channels
+ */
+export interface PhysiologyProfile {
+    heartRate: number;      // bpm
+    rsa: number;            // s, respiratory sinus arrhythmia amplitude of the RR interval
+    mayer: number;          // s, amplitude of the 0.1 Hz (Mayer wave) RR oscillation
+    rrJitter: number;       // s, beat-to-beat RR noise SD
+    respRate: number;       // breaths per minute
+    tidal: number;          // respiration depth, a.u.
+    scl: number;            // µS, tonic skin conductance level
+    scrRate: number;        // spontaneous SCRs per minute
+    scrAmplitude: number;   // µS
+    sbp: number;            // mmHg
+    dbp: number;            // mmHg
+    strokeVolume: number;   // ml
+    temp: number;           // °C, peripheral skin temperature
+    valence: number;        // affect rating on a 1-9 scale
+}
+
+// Shifts from the subject's resting profile, keyed by emotion family (MARKER_TO_EMOTION without the trailing number)
+const EMOTION_RESPONSES: Record<string, Partial<PhysiologyProfile>> = {
+    Baseline: {},
+    Neutral: { scrRate: 0.3, valence: 0 },
+    Fear: { heartRate: 9, rsa: -0.015, respRate: 3, scl: 1.2, scrRate: 4, scrAmplitude: 0.25, sbp: 8, dbp: 5, strokeVolume: -4, temp: -0.15, valence: -2.5 },
+    Threat: { heartRate: 10, rsa: -0.018, respRate: 3.5, scl: 1.4, scrRate: 4.5, scrAmplitude: 0.3, sbp: 9, dbp: 6, strokeVolume: -5, temp: -0.2, valence: -3 },
+    Anger: { heartRate: 7, rsa: -0.01, respRate: 2, scl: 0.8, scrRate: 2, scrAmplitude: 0.15, sbp: 12, dbp: 8, strokeVolume: 4, temp: -0.05, valence: -2.5 },
+    Disgust: { heartRate: -3, rsa: 0.005, respRate: -1, scl: 0.6, scrRate: 2, scrAmplitude: 0.15, sbp: 3, dbp: 2, valence: -3 },
+    Sadness: { heartRate: -2, rsa: 0.005, respRate: -1.5, tidal: 0.2, scl: 0.3, scrRate: 0.5, sbp: 4, dbp: 3, temp: -0.05, valence: -2.5 },
+    Amusement: { heartRate: 4, respRate: 3, tidal: 0.3, scl: 0.7, scrRate: 2, scrAmplitude: 0.1, sbp: 5, dbp: 2, valence: 2.5 },
+    Tenderness: { heartRate: -3, rsa: 0.015, respRate: -2, tidal: 0.1, scl: 0.2, scrRate: 0.5, temp: 0.05, valence: 2 },
+    Excitement: { heartRate: 8, rsa: -0.01, respRate: 3, scl: 1, scrRate: 3, scrAmplitude: 0.2, sbp: 7, dbp: 3, strokeVolume: 3, valence: 3 },
+    Positive_Low: { heartRate: -1, rsa: 0.01, respRate: -1, scl: 0.1, valence: 1.5 },
+    Positive_High: { heartRate: 6, respRate: 2, scl: 0.8, scrRate: 2.5, scrAmplitude: 0.15, sbp: 5, dbp: 2, valence: 2.5 },
+};
+
+// How long each system takes to settle after a stimulus change (seconds)
+const LAG = {
+    cardiac: 5,
+    electrodermal: 10,
+    thermal: 40,
+    affect: 3,
+};
+
+const SCR_RISE = 0.75;      // s, bi-exponential SCR rise time constant
+const SCR_DECAY = 2.5;      // s, recovery time constant
+const SCR_WINDOW = 20;      // s, SCRs older than this no longer contribute
+
+// --- Seeded randomness ---
+
+export function hashSeed(...parts: (number | string)[]): number {
+    const value = parts.join('|');
+    let hash = 2166136261;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 16777619);
+    }
+    return hash >>> 0;
+}
+
+// mulberry32: small, fast and good enough for synthetic data
+export function createRng(seed: number): () => number {
+    let state = seed;
+    return () => {
+        state = (state + 0x6D2B79F5) | 0;
+        let t = Math.imul(state ^ (state >>> 15), 1 | state);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+function gaussian(rng: () => number): number {
+    const u = Math.max(rng(), 1e-12);
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * rng());
+}
+
+// Uniform noise in [-1, 1) that depends only on the seed and the sample index
+function noiseAt(seed: number, index: number): number {
+    let t = Math.imul(seed ^ index, 0x9E3779B1);
+    t = Math.imul(t ^ (t >>> 15), 1 | t);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return (((t ^ (t >>> 14)) >>> 0) / 4294967296) * 2 - 1;
+}
+
+const columnSeeds = new Map<string, number>();
+
+function columnSeed(column: string): number {
+    let seed = columnSeeds.get(column);
+    if (seed === undefined) {
+        seed = hashSeed('column', column);
+        columnSeeds.set(column, seed);
+    }
+    return seed;
+}
+
+function uniform(rng: () => number, min: number, max: number): number {
+    return min + (max - min) * rng();
+}
+
+function bell(t: number, center: number, width: number): number {
+    const x = (t - center) / width;
+    return Math.exp(-0.5 * x * x);
+}
+
+// Index of the last element with time <= t (-1 when t precedes everything)
+function lastAtOrBefore<T extends { time: number }>(items: T[], t: number): number {
+    let lo = 0;
+    let hi = items.length - 1;
+    let found = -1;
+    while (lo <= hi) {
+        const mid = (lo + hi) >> 1;
+        if (items[mid].time <= t) {
+            found = mid;
+            lo = mid + 1;
+        } else {
+            hi = mid - 1;
+        }
+    }
+    return found;
+}
+
+export function emotionFamily(marker: number): string {
+    const emotion = MARKER_TO_EMOTION[marker] || 'Baseline';
+    return emotion.replace(/\d+$/, '');
+}
+
+// --- Recording ---
+
+interface Beat {
+    time: number;           // R-peak time, s
+    rr: number;             // interval to the next beat, s
+    sbp: number;
+    dbp: number;
+    strokeVolume: number;
+}
+
+interface Breath {
+    time: number;           // inspiration onset, s
+    duration: number;
+    depth: number;
+}
+
+interface SkinResponse {
+    time: number;           // response onset, s
+    amplitude: number;      // µS
+}
+
+const PROFILE_KEYS: (keyof PhysiologyProfile)[] = [
+    'heartRate', 'rsa', 'mayer', 'rrJitter', 'respRate', 'tidal', 'scl', 'scrRate',
+    'scrAmplitude', 'sbp', 'dbp', 'strokeVolume', 'temp', 'valence',
+];
+
+/**
+ * SyntheticRecording - One subject's multi-channel recording over a stimulus protocol
+ * Beats, breaths and skin conductance responses are laid out once from the seed;
+ * `sample` then evaluates any channel at any time, so overlapping requests agree.
+ */
+export class SyntheticRecording {
+    readonly duration: number;
+    private readonly seed: number;
+    private readonly segments: StimulusSegment[];
+    private readonly resting: PhysiologyProfile;
+    private readonly reactivity: number;
+    private readonly z0: number;
+    private readonly mayerPhase: number;
+    private readonly beats: Beat[] = [];
+    private readonly breaths: Breath[] = [];
+    private readonly skinResponses: SkinResponse[] = [];
+
+    constructor(seed: number, segments: StimulusSegment[]) {
+        const rng = createRng(seed);
+        this.seed = seed;
+        this.segments = segments;
+        this.duration = segments.length ? segments[segments.length - 1].end : 0;
+
+        // Individual differences: resting levels and how strongly the subject reacts
+        this.resting = {
+            heartRate: uniform(rng, 60, 82),
+            rsa: uniform(rng, 0.03, 0.06),
+            mayer: uniform(rng, 0.015, 0.035),
+            rrJitter: uniform(rng, 0.008, 0.015),
+            respRate: uniform(rng, 12, 17),
+            tidal: uniform(rng, 0.8, 1.2),
+            scl: uniform(rng, 2, 8),
+            scrRate: uniform(rng, 1, 3),
+            scrAmplitude: uniform(rng, 0.1, 0.3),
+            sbp: uniform(rng, 108, 128),
+            dbp: uniform(rng, 66, 80),
+            strokeVolume: uniform(rng, 60, 80),
+            temp: uniform(rng, 33.5, 35.5),
+            valence: 5,
+        };
+        this.reactivity = uniform(rng, 0.6, 1.4);
+        this.z0 = uniform(rng, 24, 30);
+        this.mayerPhase = uniform(rng, 0, 2 * Math.PI);
+
+        this.layOutBreaths(rng);
+        this.layOutBeats(rng);
+        this.layOutSkinResponses(rng);
+    }
+
+    // Autonomic state at time t, easing from the previous stimulus over `lag` seconds
+    profileAt(t: number, lag: number = LAG.cardiac): PhysiologyProfile {
+        const index = this.segmentIndex(t);
+        const current = this.stimulusProfile(index);
+        if (index === 0) return current;
+
+        const elapsed = t - this.segments[index].start;
+        if (elapsed >= lag) return current;
+
+        const previous = this.stimulusProfile(index - 1);
+        const w = 0.5 - 0.5 * Math.cos((Math.PI * elapsed) / lag);
+        const blended = { ...current };
+        PROFILE_KEYS.forEach(key => {
+            blended[key] = previous[key] + (current[key] - previous[key]) * w;
+        });
+        return blended;
+    }
+
+    // R-peak times (s), useful as ground truth for beat detection
+    beatTimes(): number[] {
+        return this.beats.map(beat => beat.time);
+    }
+
+    sample(column: string, t: number, index: number): number {
+        const noiseSeed = this.seed ^ columnSeed(column);
+        const noise = (scale: number) => noiseAt(noiseSeed, index) * scale;
+
+        switch (column) {
+            case 'ECG':
+                return this.ecg(t) + 0.04 * (this.breathing(t) - 0.5) + noise(0.02);
+            case 'EDA':
+                return this.eda(t) + noise(0.005);
+            case 'temp': {
+                const profile = this.profileAt(t, LAG.thermal);
+                return profile.temp + 0.05 * Math.sin(2 * Math.PI * t / 300 + this.mayerPhase) + noise(0.005);
+            }
+            case 'respiration':
+                return this.profileAt(t).tidal * this.breathing(t) + noise(0.02);
+            case 'SBP':
+                return this.beatValue(t, beat => beat.sbp);
+            case 'DBP':
+                return this.beatValue(t, beat => beat.dbp);
+            case 'CO':
+                return this.beatValue(t, beat => (60 / beat.rr) * beat.strokeVolume / 1000);
+            case 'TPR':
+                return this.beatValue(t, beat => {
+                    const map = beat.dbp + (beat.sbp - beat.dbp) / 3;
+                    const co = (60 / beat.rr) * beat.strokeVolume / 1000;
+                    return (map / co) * 80;
+                });
+            case 'dzdt':
+                return this.impedanceDerivative(t) + noise(0.05);
+            case 'dz':
+                return -0.3 * this.profileAt(t).tidal * this.breathing(t) - this.cardiacImpedance(t) + noise(0.005);
+            case 'z0':
+                return this.z0 - 0.4 * this.breathing(t) + noise(0.02);
+            case 'affect': {
+                const valence = this.profileAt(t, LAG.affect).valence;
+                return Math.max(1, Math.min(9, valence + noise(0.15)));
+            }
+            default:
+                return noise(1);
+        }
+    }
+
+    // Samples of one channel over [start, end) seconds at the given rate
+    channel(column: string, start: number, end: number, sampleRate: number): number[] {
+        const values: number[] = [];
+        for (let i = Math.ceil(start * sampleRate); i < end * sampleRate; i++) {
+            values.push(this.sample(column, i / sampleRate, i));
+        }
+        return values;
+    }
+
+    private segmentIndex(t: number): number {
+        for (let i = this.segments.length - 1; i > 0; i--) {
+            if (t >= this.segments[i].start) return i;
+        }
+        return 0;
+    }
+
+    private stimulusProfile(index: number): PhysiologyProfile {
+        const segment = this.segments[index];
+        const response = EMOTION_RESPONSES[segment ? emotionFamily(segment.marker) : 'Baseline'] || {};
+        const profile = { ...this.resting };
+        PROFILE_KEYS.forEach(key => {
+            const delta = response[key];
+            if (delta !== undefined) {
+                // Valence is reported, not physiological, so it is not scaled by reactivity
+                profile[key] += key === 'valence' ? delta : delta * this.reactivity;
+            }
+        });
+        return profile;
+    }
+
+    private layOutBreaths(rng: () => number): void {
+        let t = -uniform(rng, 0, 4);
+        while (t < this.duration + 5) {
+            const profile = this.profileAt(Math.max(0, t));
+            const duration = (60 / profile.respRate) * (1 + 0.12 * gaussian(rng));
+            this.breaths.push({ time: t, duration: Math.max(1.5, duration), depth: 1 + 0.1 * gaussian(rng) });
+            t += Math.max(1.5, duration);
+        }
+    }
+
+    // RR intervals combine mean heart rate, Mayer waves, RSA locked to breathing and jitter
+    private layOutBeats(rng: () => number): void {
+        let t = uniform(rng, 0, 0.8) - 1;
+        while (t < this.duration + 2) {
+            const profile = this.profileAt(Math.max(0, t));
+            const inspiration = this.breathing(t) - 0.5;
+            const mayerWave = Math.sin(2 * Math.PI * 0.1 * t + this.mayerPhase);
+
+            const rr = Math.max(0.35,
+                60 / profile.heartRate
+                - 2 * profile.rsa * inspiration
+                + profile.mayer * mayerWave
+                + profile.rrJitter * gaussian(rng)
+            );
+
+            // Pressure follows the Mayer wave and dips with inspiration; pulse pressure rises with stroke volume
+            const strokeVolume = profile.strokeVolume + 2 * gaussian(rng);
+            const sbp = profile.sbp + 3 * mayerWave - 2 * inspiration + 0.1 * (strokeVolume - profile.strokeVolume) + 1.2 * gaussian(rng);
+            const dbp = profile.dbp + 2 * mayerWave - 1 * inspiration + 0.8 * gaussian(rng);
+
+            this.beats.push({ time: t, rr, sbp, dbp, strokeVolume });
+            t += rr;
+        }
+    }
+
+    // Spontaneous SCRs as a Poisson process, plus a specific response shortly after each stimulus onset
+    private layOutSkinResponses(rng: () => number): void {
+        let t = 0;
+        while (t < this.duration) {
+            const profile = this.profileAt(t, LAG.electrodermal);
+            t += -Math.log(Math.max(rng(), 1e-12)) * (60 / Math.max(profile.scrRate, 0.1));
+            if (t < this.duration) {
+                this.skinResponses.push({ time: t, amplitude: profile.scrAmplitude * uniform(rng, 0.4, 1.2) });
+            }
+        }
+
+        this.segments.forEach((segment, i) => {
+            if (i === 0 || segment.marker < 0) return;
+            const response = EMOTION_RESPONSES[emotionFamily(segment.marker)] || {};
+            const arousal = Math.max(0, response.scrRate ?? 0) / 4;
+            this.skinResponses.push({
+                time: segment.start + uniform(rng, 1.5, 3),
+                amplitude: this.resting.scrAmplitude * (1 + 2 * arousal * this.reactivity),
+            });
+        });
+
+        this.skinResponses.sort((a, b) => a.time - b.time);
+    }
+
+    // Respiratory phase as a 0 (end of expiration) .. 1 (end of inspiration) waveform
+    private breathing(t: number): number {
+        const index = lastAtOrBefore(this.breaths, t);
+        if (index < 0) return 0;
+        const breath = this.breaths[index];
+        const u = Math.min(1, (t - breath.time) / breath.duration);
+        const inspiration = 0.4;
+        const shape = u < inspiration
+            ? 0.5 - 0.5 * Math.cos((Math.PI * u) / inspiration)
+            : 0.5 + 0.5 * Math.cos((Math.PI * (u - inspiration)) / (1 - inspiration));
+        return shape * breath.depth;
+    }
+
+    // P-QRS-T complex as a sum of Gaussians around each R peak; the T wave moves with the QT interval
+    private ecg(t: number): number {
+        const index = lastAtOrBefore(this.beats, t);
+        let value = 0;
+        for (let k = Math.max(0, index - 1); k <= Math.min(this.beats.length - 1, index + 1); k++) {
+            const beat = this.beats[k];
+            const dt = t - beat.time;
+            const qt = 0.28 * Math.sqrt(beat.rr);
+            value += 0.15 * bell(dt, -0.16, 0.025)
+                - 0.12 * bell(dt, -0.03, 0.01)
+                + 1.2 * bell(dt, 0, 0.012)
+                - 0.25 * bell(dt, 0.03, 0.012)
+                + 0.3 * bell(dt, qt, 0.05);
+        }
+        return value;
+    }
+
+    // Tonic level with slow drift plus bi-exponential phasic responses
+    private eda(t: number): number {
+        const profile = this.profileAt(t, LAG.electrodermal);
+        const drift = 0.3 * Math.sin(2 * Math.PI * t / 240 + this.mayerPhase);
+
+        let phasic = 0;
+        const last = lastAtOrBefore(this.skinResponses, t);
+        for (let k = last; k >= 0 && t - this.skinResponses[k].time < SCR_WINDOW; k--) {
+            const dt = t - this.skinResponses[k].time;
+            phasic += this.skinResponses[k].amplitude * 1.6 * (Math.exp(-dt / SCR_DECAY) - Math.exp(-dt / SCR_RISE));
+        }
+        return Math.max(0.1, profile.scl + drift + phasic);
+    }
+
+    // Beat-to-beat values held as a continuous series by linear interpolation between R peaks
+    private beatValue(t: number, value: (beat: Beat) => number): number {
+        const index = lastAtOrBefore(this.beats, t);
+        if (index < 0) return value(this.beats[0]);
+        if (index >= this.beats.length - 1) return value(this.beats[this.beats.length - 1]);
+
+        const a = this.beats[index];
+        const b = this.beats[index + 1];
+        const w = (t - a.time) / (b.time - a.time);
+        return value(a) + (value(b) - value(a)) * w;
+    }
+
+    // Ejection-related impedance drop (Ω), proportional to stroke volume
+    private cardiacImpedance(t: number): number {
+        const index = lastAtOrBefore(this.beats, t);
+        if (index < 0) return 0;
+        const beat = this.beats[index];
+        const dt = t - beat.time;
+        return 0.08 * (beat.strokeVolume / 70) * bell(dt, 0.2, 0.08);
+    }
+
+    // -dZ/dt with the B point, C wave (peak ejection) and X notch (aortic valve closure)
+    private impedanceDerivative(t: number): number {
+        const index = lastAtOrBefore(this.beats, t);
+        let value = 0;
+        for (let k = Math.max(0, index - 1); k <= index; k++) {
+            const beat = this.beats[k];
+            const dt = t - beat.time;
+            value += -0.15 * bell(dt, 0.06, 0.015)
+                + 1.5 * (beat.strokeVolume / 70) * bell(dt, 0.12, 0.035)
+                - 0.6 * bell(dt, 0.32, 0.03);
+        }
+        return value;
+    }
+}
@@ -0,0 +1,79 @@
+import { QueryParams } from '../../types/popane';
+import { mockEmotionColoredSignalsResponse, mockStudyDataResponse } from '../mockBackend';
+
+// Local stand-in for the POPANE backend in tests. It answers fetch() for the raw signal
+// endpoints from the mock backend's synthetic recordings, either negotiating the columnar
+// transport like a current backend or answering JSON like one that predates it.
+
+export interface StandInBackend {
+    // Accept header of every request received, and the Content-Type answered, in order
+    accepts: string[];
+    contentTypes: string[];
+    restore: () => void;
+}
+
+function numberParam(search: URLSearchParams, name: string): number | undefined {
+    const value = search.get(name);
+    return value === null ? undefined : Number(value);
+}
+
+function answer(url: URL, accept: string, signal?: AbortSignal): Promise<Response> {
+    const search = url.searchParams;
+
+    const data = url.pathname.match(/\/study\/(\d+)\/data$/);
+    if (data) {
+        const params: QueryParams = {
+            studyNumber: Number(data[1]),
+            subjectId: numberParam(search, 'subject_id'),
+            subjectIds: search.getAll('subject_ids').map(Number),
+            startTime: numberParam(search, 'start_time'),
+            endTime: numberParam(search, 'end_time'),
+            limit: numberParam(search, 'limit'),
+            offset: numberParam(search, 'offset'),
+        };
+        return mockStudyDataResponse(params, accept, signal);
+    }
+
+    const signals = url.pathname.match(/\/signals\/(\d+)\/(\d+)$/);
+    if (signals) {
+        const features = search.get('features');
+        return mockEmotionColoredSignalsResponse(
+            Number(signals[1]),
+            Number(signals[2]),
+            features ? features.split(',') : undefined,
+            numberParam(search, 'start_time') ?? 0,
+            numberParam(search, 'end_time') ?? 10,
+            numberParam(search, 'seconds_per_emotion'),
+            accept,
+            signal
+        );
+    }
+
+    return Promise.resolve(new Response('Not Found', { status: 404 }));
+}
+
+/**
+ * installStandInBackend - Routes fetch() to the stand-in until restore() is called
+ * With `columnar: false` it answers JSON whatever the request accepts.
+ */
+export function installStandInBackend({ columnar }: { columnar: boolean }): StandInBackend {
+    const original = global.fetch;
+    const accepts: string[] = [];
+    const contentTypes: string[] = [];
+
+    global.fetch = (async (input: RequestInfo | URL, init?: RequestInit) => {
+        const accept = new Headers(init?.headers).get('Accept') ?? '';
+        accepts.push(accept);
+        const response = await answer(new URL(String(input)), columnar ? accept : 'application/json', init?.signal ?? undefined);
+        contentTypes.push(response.headers.get('Content-Type') ?? '');
+        return response;
+    }) as typeof fetch;
+
+    return {
+        accepts,
+        contentTypes,
+        restore: () => {
+            global.fetch = original;
+        },
+    };
+}
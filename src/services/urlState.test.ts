@@ -0,0 +1,63 @@
+import { parseUrl, buildUrl, UrlState, DEFAULT_VIEW_MODE } from './urlState';
+
+function parse(url: string): UrlState {
+    const [pathname, search = ''] = url.split('?');
+    return parseUrl(pathname, search ? `?${search}` : '');
+}
+
+describe('parseUrl / buildUrl', () => {
+    it('round-trips a state with every setting', () => {
+        const state: UrlState = {
+            study: 3,
+            subjects: [12, 14],
+            view: 'signals',
+            secondsPerEmotion: 10,
+            signalFeatures: ['ECG', 'EDA'],
+            pcaSampleSize: 500,
+            fftFeature: 'ECG',
+            chartColumns: ['SBP'],
+            timeWindow: [120, 150],
+            emotionGrouping: 'valence',
+            baselineSeconds: 30,
+        };
+        const url = buildUrl(state);
+
+        expect(url).toBe('/study/3/signals?subjects=12,14&seconds=10&features=ECG,EDA&samples=500&fft=ECG'
+            + '&columns=SBP&window=120,150&group=valence&baseline=30');
+        expect(parse(url)).toEqual(state);
+    });
+
+    it('round-trips the study list and a study without settings', () => {
+        expect(buildUrl({ study: null, subjects: [], view: DEFAULT_VIEW_MODE })).toBe('/');
+        expect(parse('/')).toMatchObject({ study: null, subjects: [], view: DEFAULT_VIEW_MODE });
+
+        const bare: UrlState = { study: 2, subjects: [], view: 'table' };
+        expect(parse(buildUrl(bare))).toMatchObject(bare);
+    });
+
+    it('keeps an empty feature list distinct from the default', () => {
+        const state: UrlState = { study: 1, subjects: [], view: 'emotion', signalFeatures: [] };
+        expect(parse(buildUrl(state)).signalFeatures).toEqual([]);
+        expect(parse('/study/1/emotion').signalFeatures).toBeUndefined();
+    });
+
+    it('falls back to defaults for invalid params', () => {
+        const state = parse('/study/4/bogus?subjects=1,x,3&seconds=abc&samples=&window=50,10&group=mood&baseline=NaN');
+
+        expect(state.study).toBe(4);
+        expect(state.view).toBe(DEFAULT_VIEW_MODE);
+        expect(state.subjects).toEqual([1, 3]);
+        expect(state.secondsPerEmotion).toBeUndefined();
+        expect(state.pcaSampleSize).toBeUndefined();
+        expect(state.timeWindow).toBeUndefined();
+        expect(state.emotionGrouping).toBeUndefined();
+        expect(state.baselineSeconds).toBeUndefined();
+    });
+
+    it('rejects malformed windows and paths', () => {
+        expect(parse('/study/1/signals?window=10').timeWindow).toBeUndefined();
+        expect(parse('/study/1/signals?window=1,2,3').timeWindow).toBeUndefined();
+        expect(parse('/study/abc/signals').study).toBeNull();
+        expect(parse('/somewhere/else').study).toBeNull();
+    });
+});
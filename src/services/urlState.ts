@@ -0,0 +1,140 @@
+import { EmotionGrouping, EMOTION_GROUPINGS } from './emotionTaxonomy';
+
+// Navigation state serialized into the address bar, e.g.
+// /study/3/signals?subjects=12&seconds=10&features=ECG,EDA&window=120,150
+
+export type ViewMode = 'table' | 'chart' | 'emotion' | 'pca' | 'signals' | 'features' | 'all';
+
+export const VIEW_MODES: ViewMode[] = ['emotion', 'signals', 'pca', 'features', 'chart', 'table', 'all'];
+export const DEFAULT_VIEW_MODE: ViewMode = 'emotion';
+
+export interface UrlState {
+    study: number | null;
+    subjects: number[];
+    view: ViewMode;
+    // Per-chart settings; undefined means the chart's own default
+    secondsPerEmotion?: number;
+    signalFeatures?: string[];
+    pcaSampleSize?: number;
+    fftFeature?: string;
+    chartColumns?: string[];
+    timeWindow?: [number, number];  // seconds into the recording; set when browsing the full recording
+    emotionGrouping?: EmotionGrouping;  // how emotion charts and tables bucket stimuli
+    baselineSeconds?: number;  // last seconds of the pre-stimulus baseline that reactivity is measured against; 0 = all of it
+}
+
+interface NavigateOptions {
+    // Replace the current history entry instead of adding one (for settings tweaked continuously)
+    replace?: boolean;
+}
+
+type UrlListener = () => void;
+
+function parseNumber(value: string | null): number | undefined {
+    if (value === null || value === '') return undefined;
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+function parseList(value: string | null): string[] | undefined {
+    if (value === null) return undefined;
+    return value.split(',').filter(Boolean);
+}
+
+function parseWindow(value: string | null): [number, number] | undefined {
+    const bounds = parseList(value)?.map(Number);
+    if (!bounds || bounds.length !== 2 || !bounds.every(Number.isFinite) || bounds[1] <= bounds[0]) return undefined;
+    return [bounds[0], bounds[1]];
+}
+
+function parseGrouping(value: string | null): EmotionGrouping | undefined {
+    return EMOTION_GROUPINGS.includes(value as EmotionGrouping) ? value as EmotionGrouping : undefined;
+}
+
+export function parseUrl(pathname: string, search: string): UrlState {
+    const params = new URLSearchParams(search);
+    const match = pathname.match(/^\/study\/(\d+)(?:\/([a-z]+))?\/?$/);
+    const view = match && VIEW_MODES.includes(match[2] as ViewMode) ? match[2] as ViewMode : DEFAULT_VIEW_MODE;
+
+    return {
+        study: match ? Number(match[1]) : null,
+        subjects: (parseList(params.get('subjects')) ?? []).map(Number).filter(Number.isFinite),
+        view,
+        secondsPerEmotion: parseNumber(params.get('seconds')),
+        signalFeatures: parseList(params.get('features')),
+        pcaSampleSize: parseNumber(params.get('samples')),
+        fftFeature: params.get('fft') || undefined,
+        chartColumns: parseList(params.get('columns')),
+        timeWindow: parseWindow(params.get('window')),
+        emotionGrouping: parseGrouping(params.get('group')),
+        baselineSeconds: parseNumber(params.get('baseline')),
+    };
+}
+
+export function buildUrl(state: UrlState): string {
+    if (state.study === null) return '/';
+
+    const params = new URLSearchParams();
+    if (state.subjects.length > 0) params.set('subjects', state.subjects.join(','));
+    if (state.secondsPerEmotion !== undefined) params.set('seconds', String(state.secondsPerEmotion));
+    if (state.signalFeatures !== undefined) params.set('features', state.signalFeatures.join(','));
+    if (state.pcaSampleSize !== undefined) params.set('samples', String(state.pcaSampleSize));
+    if (state.fftFeature !== undefined) params.set('fft', state.fftFeature);
+    if (state.chartColumns !== undefined) params.set('columns', state.chartColumns.join(','));
+    if (state.timeWindow !== undefined) params.set('window', state.timeWindow.join(','));
+    if (state.emotionGrouping !== undefined) params.set('group', state.emotionGrouping);
+    if (state.baselineSeconds !== undefined) params.set('baseline', String(state.baselineSeconds));
+
+    // Keep commas readable in shared links
+    const query = params.toString().replace(/%2C/g, ',');
+    return `/study/${state.study}/${state.view}${query ? `?${query}` : ''}`;
+}
+
+/**
+ * UrlStore - The current UrlState, kept in sync with window.history
+ * Parsed snapshots are cached per URL so useSyncExternalStore sees stable values.
+ */
+class UrlStore {
+    private listeners = new Set<UrlListener>();
+    private cachedUrl = '';
+    private cachedState: UrlState = parseUrl('/', '');
+
+    constructor() {
+        window.addEventListener('popstate', () => this.notify());
+    }
+
+    getSnapshot = (): UrlState => {
+        const url = window.location.pathname + window.location.search;
+        if (url !== this.cachedUrl) {
+            this.cachedUrl = url;
+            this.cachedState = parseUrl(window.location.pathname, window.location.search);
+        }
+        return this.cachedState;
+    };
+
+    subscribe = (listener: UrlListener): (() => void) => {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    };
+
+    navigate(state: UrlState, { replace = false }: NavigateOptions = {}): void {
+        const url = buildUrl(state);
+        if (url === window.location.pathname + window.location.search) return;
+
+        if (replace) {
+            window.history.replaceState(null, '', url);
+        } else {
+            window.history.pushState(null, '', url);
+        }
+        this.notify();
+    }
+
+    private notify(): void {
+        this.listeners.forEach(listener => listener());
+    }
+}
+
+export const urlStore = new UrlStore();
+export default urlStore;
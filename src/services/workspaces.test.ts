@@ -0,0 +1,138 @@
+import { WorkspaceStore, WorkspaceImportError, WorkspaceState, WORKSPACE_FILE_FORMAT } from './workspaces';
+
+const STATE: WorkspaceState = {
+    study: 3,
+    subjects: [12],
+    view: 'signals',
+    signalFeatures: ['ECG'],
+    timeWindow: [10, 40],
+    showFeatureTable: false,
+    featurePCA: null,
+};
+
+function file(workspaces: unknown, extra: Record<string, unknown> = {}): string {
+    return JSON.stringify({ format: WORKSPACE_FILE_FORMAT, version: 1, workspaces, ...extra });
+}
+
+describe('WorkspaceStore', () => {
+    beforeEach(() => {
+        localStorage.clear();
+    });
+
+    it('imports what it exports', () => {
+        const source = new WorkspaceStore();
+        const saved = source.save('Anger study', STATE);
+
+        const target = new WorkspaceStore();
+        expect(target.importFile(source.toFile([saved]))).toBe(1);
+        expect(target.getSnapshot()).toEqual([saved]);
+    });
+
+    it('persists saved workspaces for the next session', () => {
+        new WorkspaceStore().save('Persisted', STATE);
+        expect(new WorkspaceStore().getSnapshot().map(w => w.name)).toEqual(['Persisted']);
+    });
+
+    it('rejects text that is not JSON', () => {
+        const store = new WorkspaceStore();
+        expect(() => store.importFile('{ not json')).toThrow(new WorkspaceImportError('The file is not valid JSON.'));
+    });
+
+    it('rejects files of another format', () => {
+        const store = new WorkspaceStore();
+        expect(() => store.importFile(JSON.stringify({ format: 'other', version: 1, workspaces: [] })))
+            .toThrow(WorkspaceImportError);
+    });
+
+    it('rejects files from a newer version', () => {
+        const store = new WorkspaceStore();
+        expect(() => store.importFile(file([], { version: 99 }))).toThrow(/newer version/);
+    });
+
+    it('names the malformed field and imports nothing from a bad file', () => {
+        const store = new WorkspaceStore();
+        const valid = { name: 'Valid', savedAt: '2026-01-01T00:00:00.000Z', state: STATE };
+        const invalid = { ...valid, name: 'Invalid', state: { ...STATE, view: 'dashboard' } };
+
+        expect(() => store.importFile(file([valid, invalid]))).toThrow(/workspaces\[1\]\.state\.view/);
+        expect(store.getSnapshot()).toEqual([]);
+    });
+
+    it('rejects a malformed time window and a missing flag', () => {
+        const store = new WorkspaceStore();
+        const workspace = (state: unknown) => [{ name: 'W', savedAt: '2026-01-01T00:00:00.000Z', state }];
+
+        expect(() => store.importFile(file(workspace({ ...STATE, timeWindow: [10] })))).toThrow(WorkspaceImportError);
+        const withoutFlag: Record<string, unknown> = { ...STATE };
+        delete withoutFlag.showFeatureTable;
+        expect(() => store.importFile(file(workspace(withoutFlag)))).toThrow(/showFeatureTable/);
+    });
+
+    it('replaces workspaces of the same name on import', () => {
+        const store = new WorkspaceStore();
+        store.save('Shared', STATE);
+        const incoming = { name: 'Shared', savedAt: '2026-02-01T00:00:00.000Z', state: { ...STATE, study: 5 } };
+
+        store.importFile(file([incoming]));
+        expect(store.getSnapshot()).toEqual([incoming]);
+    });
+});
+
+describe('WorkspaceStore storage', () => {
+    const STORAGE_KEY = 'popane-workspaces';
+    const saved = (name: string, state: unknown = STATE) => ({ name, savedAt: '2026-01-01T00:00:00.000Z', state });
+    const backups = () => Object.keys(localStorage).filter(key => key.startsWith(`${STORAGE_KEY}-backup-`));
+
+    beforeEach(() => {
+        localStorage.clear();
+    });
+
+    it('stores the versioned file envelope', () => {
+        new WorkspaceStore().save('Enveloped', STATE);
+        const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+
+        expect(stored).toMatchObject({ format: WORKSPACE_FILE_FORMAT, version: 1 });
+        expect(stored.workspaces.map((w: { name: string }) => w.name)).toEqual(['Enveloped']);
+    });
+
+    it('keeps the readable workspaces when one stored entry is invalid', () => {
+        const raw = file([saved('First'), saved('Broken', { ...STATE, view: 'hologram' }), saved('Second')]);
+        localStorage.setItem(STORAGE_KEY, raw);
+
+        const store = new WorkspaceStore();
+        expect(store.getSnapshot().map(w => w.name)).toEqual(['First', 'Second']);
+        store.save('Third', STATE);
+
+        expect(new WorkspaceStore().getSnapshot().map(w => w.name)).toEqual(['First', 'Second', 'Third']);
+        expect(backups().map(key => localStorage.getItem(key))).toEqual([raw]);
+    });
+
+    it('backs up storage it cannot parse before saving over it', () => {
+        localStorage.setItem(STORAGE_KEY, '{ truncated');
+
+        const store = new WorkspaceStore();
+        expect(store.getSnapshot()).toEqual([]);
+        store.save('Fresh', STATE);
+
+        expect(backups().map(key => localStorage.getItem(key))).toEqual(['{ truncated']);
+        // Reloading the backed-up value again does not pile up copies
+        localStorage.setItem(STORAGE_KEY, '{ truncated');
+        void new WorkspaceStore();
+        expect(backups()).toHaveLength(1);
+    });
+
+    it('reads the bare list stored before the envelope', () => {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify([saved('Legacy')]));
+
+        expect(new WorkspaceStore().getSnapshot().map(w => w.name)).toEqual(['Legacy']);
+        expect(backups()).toEqual([]);
+    });
+
+    it('backs up workspaces stored by a newer version', () => {
+        const raw = file([saved('Future')], { version: 2 });
+        localStorage.setItem(STORAGE_KEY, raw);
+
+        expect(new WorkspaceStore().getSnapshot().map(w => w.name)).toEqual(['Future']);
+        expect(backups().map(key => localStorage.getItem(key))).toEqual([raw]);
+    });
+});
@@ -0,0 +1,276 @@
+import { FeaturePCAResult } from '../types/popane';
+import { UrlState, ViewMode, VIEW_MODES } from './urlState';
+import { EmotionGrouping, EMOTION_GROUPINGS } from './emotionTaxonomy';
+import {
+    Schema,
+    SchemaError,
+    array,
+    nullable,
+    number,
+    object,
+    optional,
+    string,
+    tuple,
+    validate,
+} from './responseSchemas';
+
+// Named dashboard setups saved in this browser and shared as JSON files
+
+export const WORKSPACE_FILE_FORMAT = 'popane-workspaces';
+export const WORKSPACE_FILE_VERSION = 1;
+
+const STORAGE_KEY = 'popane-workspaces';
+// Stored values this version cannot fully read are copied here, suffixed with the time
+const BACKUP_KEY_PREFIX = 'popane-workspaces-backup-';
+
+export interface WorkspaceState extends UrlState {
+    showFeatureTable: boolean;
+    featurePCA: FeaturePCAResult | null;
+}
+
+export interface Workspace {
+    name: string;
+    savedAt: string;  // ISO timestamp
+    state: WorkspaceState;
+}
+
+export interface WorkspaceFile {
+    format: typeof WORKSPACE_FILE_FORMAT;
+    version: number;
+    workspaces: Workspace[];
+}
+
+type WorkspaceListener = () => void;
+
+/**
+ * WorkspaceImportError - A workspace file that cannot be read
+ */
+export class WorkspaceImportError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'WorkspaceImportError';
+        Object.setPrototypeOf(this, WorkspaceImportError.prototype);
+    }
+}
+
+const viewMode: Schema<ViewMode> = (value, path, ctx) => {
+    const view = string(value, path, ctx);
+    if (!VIEW_MODES.includes(view as ViewMode)) {
+        throw new SchemaError(path, `one of ${VIEW_MODES.join(', ')}`, `"${view}"`);
+    }
+    return view as ViewMode;
+};
+
+const emotionGrouping: Schema<EmotionGrouping> = (value, path, ctx) => {
+    const grouping = string(value, path, ctx);
+    if (!EMOTION_GROUPINGS.includes(grouping as EmotionGrouping)) {
+        throw new SchemaError(path, `one of ${EMOTION_GROUPINGS.join(', ')}`, `"${grouping}"`);
+    }
+    return grouping as EmotionGrouping;
+};
+
+const workspaceSchema = object<Workspace>({
+    name: string,
+    savedAt: string,
+    state: object<WorkspaceState>({
+        study: nullable(number),
+        subjects: array(number),
+        view: viewMode,
+        secondsPerEmotion: optional(number),
+        signalFeatures: optional(array(string)),
+        pcaSampleSize: optional(number),
+        fftFeature: optional(string),
+        chartColumns: optional(array(string)),
+        timeWindow: optional(tuple(number, number)),
+        emotionGrouping: optional(emotionGrouping),
+        baselineSeconds: optional(number),
+        showFeatureTable: (value, path) => {
+            if (typeof value !== 'boolean') throw new SchemaError(path, 'true or false', typeof value);
+            return value;
+        },
+        featurePCA: nullable(object<FeaturePCAResult>({
+            features: array(string),
+            points: array(object({
+                subjectId: number,
+                emotion: string,
+                color: string,
+                pc1: number,
+                pc2: number,
+            })),
+            variance: tuple(number, number),
+        })),
+    }),
+});
+
+const workspacesSchema = array(workspaceSchema);
+
+const fileFormat: Schema<typeof WORKSPACE_FILE_FORMAT> = (value, path) => {
+    if (value !== WORKSPACE_FILE_FORMAT) {
+        throw new SchemaError(path, `"${WORKSPACE_FILE_FORMAT}"`, JSON.stringify(value) ?? 'nothing');
+    }
+    return WORKSPACE_FILE_FORMAT;
+};
+
+// Both envelopes hold the format and version; entries are validated separately where they are read
+const workspaceFileHeaderSchema = object<Omit<WorkspaceFile, 'workspaces'> & { workspaces: unknown[] }>({
+    format: fileFormat,
+    version: number,
+    workspaces: array(value => value),
+});
+
+const workspaceFileSchema = object<WorkspaceFile>({
+    format: fileFormat,
+    version: number,
+    workspaces: workspacesSchema,
+});
+
+function byName(a: Workspace, b: Workspace): number {
+    return a.name.localeCompare(b.name);
+}
+
+// Copies a stored value before the next save replaces it; false when it could not be kept
+function backUp(raw: string): boolean {
+    try {
+        for (let i = 0; i < localStorage.length; i++) {
+            const key = localStorage.key(i);
+            if (key?.startsWith(BACKUP_KEY_PREFIX) && localStorage.getItem(key) === raw) return true;
+        }
+        localStorage.setItem(`${BACKUP_KEY_PREFIX}${new Date().toISOString()}`, raw);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * WorkspaceStore - Saved workspaces, persisted in localStorage in the export file's envelope
+ * Names are unique; saving or importing an existing name replaces it.
+ */
+export class WorkspaceStore {
+    // Off when stored workspaces could not be read or backed up; saving would delete them
+    private persistent = true;
+    private workspaces: Workspace[] = this.load();
+    private listeners = new Set<WorkspaceListener>();
+
+    getSnapshot = (): Workspace[] => this.workspaces;
+
+    subscribe = (listener: WorkspaceListener): (() => void) => {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    };
+
+    save(name: string, state: WorkspaceState): Workspace {
+        const workspace: Workspace = { name, savedAt: new Date().toISOString(), state };
+        this.upsert([workspace]);
+        return workspace;
+    }
+
+    remove(name: string): void {
+        this.update(this.workspaces.filter(w => w.name !== name));
+    }
+
+    toFile(workspaces: Workspace[]): string {
+        const file: WorkspaceFile = {
+            format: WORKSPACE_FILE_FORMAT,
+            version: WORKSPACE_FILE_VERSION,
+            workspaces,
+        };
+        return JSON.stringify(file, null, 2);
+    }
+
+    // Adds the workspaces in an exported file; returns how many were imported
+    importFile(text: string): number {
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(text);
+        } catch {
+            throw new WorkspaceImportError('The file is not valid JSON.');
+        }
+
+        let file: WorkspaceFile;
+        try {
+            file = validate(workspaceFileSchema, parsed).data;
+        } catch (err) {
+            if (err instanceof SchemaError) {
+                throw new WorkspaceImportError(`Not a workspace file: ${err.message}.`);
+            }
+            throw err;
+        }
+        if (file.version > WORKSPACE_FILE_VERSION) {
+            throw new WorkspaceImportError(
+                `The file was written by a newer version (format ${file.version}); this app reads up to ${WORKSPACE_FILE_VERSION}.`
+            );
+        }
+
+        this.upsert(file.workspaces);
+        return file.workspaces.length;
+    }
+
+    private upsert(incoming: Workspace[]): void {
+        const names = new Set(incoming.map(w => w.name));
+        this.update([...this.workspaces.filter(w => !names.has(w.name)), ...incoming]);
+    }
+
+    private update(workspaces: Workspace[]): void {
+        this.workspaces = workspaces.sort(byName);
+        if (this.persistent) {
+            const file: WorkspaceFile = {
+                format: WORKSPACE_FILE_FORMAT,
+                version: WORKSPACE_FILE_VERSION,
+                workspaces: this.workspaces,
+            };
+            try {
+                localStorage.setItem(STORAGE_KEY, JSON.stringify(file));
+            } catch {
+                // Storage full or disabled; keep the workspaces for this session
+            }
+        }
+        this.listeners.forEach(listener => listener());
+    }
+
+    // Each stored workspace is read on its own, so one this version cannot read does not take
+    // the others with it. Whatever is skipped stays in a backup key.
+    private load(): Workspace[] {
+        let saved: string | null;
+        try {
+            saved = localStorage.getItem(STORAGE_KEY);
+        } catch {
+            return [];
+        }
+        if (!saved) return [];
+
+        let entries: unknown[] | null = null;
+        let complete = false;
+        try {
+            const parsed: unknown = JSON.parse(saved);
+            if (Array.isArray(parsed)) {
+                // Bare list stored before the envelope
+                entries = parsed;
+                complete = true;
+            } else {
+                const file = validate(workspaceFileHeaderSchema, parsed).data;
+                entries = file.workspaces;
+                complete = file.version <= WORKSPACE_FILE_VERSION;
+            }
+        } catch {
+            // Unparseable, or not a workspace list at all
+        }
+
+        const workspaces: Workspace[] = [];
+        (entries ?? []).forEach(entry => {
+            try {
+                workspaces.push(validate(workspaceSchema, entry).data);
+            } catch {
+                complete = false;
+            }
+        });
+
+        if (!complete && !backUp(saved)) this.persistent = false;
+        return workspaces.sort(byName);
+    }
+}
+
+export const workspaceStore = new WorkspaceStore();
+export default workspaceStore;
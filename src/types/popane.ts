@@ -1,19 +1,20 @@
+// Channels a study does not record, or a sample it lacks, come back missing or null
 export interface StudyData {
     Subject_ID: number;
     timestamp: number;
-    time_offset?: number;
-    affect?: number;
-    ECG: number;
-    EDA: number;
-    temp?: number;
-    respiration?: number;
-    SBP?: number;
-    DBP?: number;
-    CO?: number;
-    TPR?: number;
-    dzdt?: number;
-    dz?: number;
-    z0?: number;
+    time_offset?: number | null;
+    affect?: number | null;
+    ECG?: number | null;
+    EDA?: number | null;
+    temp?: number | null;
+    respiration?: number | null;
+    SBP?: number | null;
+    DBP?: number | null;
+    CO?: number | null;
+    TPR?: number | null;
+    dzdt?: number | null;
+    dz?: number | null;
+    z0?: number | null;
     marker: number;
 }
 
@@ -23,6 +24,8 @@ export interface StudyMetadata {
     description: string;
     columns: string[];
     subjectCount: number;
+    samplingRate?: number;  // Hz
+    stimuli?: number[];     // markers presented in the study, see MARKER_TO_EMOTION
 }
 
 export interface SubjectInfo {
@@ -121,6 +124,7 @@ export const STUDY_COLUMNS: Record<number, string[]> = {
     7: ['Subject_ID', 'timestamp', 'affect', 'ECG', 'dzdt', 'dz', 'z0', 'marker'],
 };
 
+// Offline fallback for the catalog served by popaneApi.getStudies()
 export const STUDY_INFO: StudyMetadata[] = [
     {
         studyNumber: 1,
@@ -254,3 +258,163 @@ export interface EmotionSummaryResponse {
     totalSubjects: number;
     studyNumber: number;
 }
+
+export interface TimeDomainMetrics {
+    mean: number;
+    std: number;
+    min_val: number;
+    max_val: number;
+    range_val: number;
+    rmssd: number | null;
+    sdnn: number | null;
+    sdsd: number | null;
+    pnn50: number | null;
+    pnn20: number | null;
+    n_samples: number;
+    duration_sec: number;
+}
+
+export interface FrequencyDomainMetrics {
+    vlf_power: number;
+    lf_power: number;
+    hf_power: number;
+    total_power: number;
+    lf_nu: number;
+    hf_nu: number;
+    lf_hf_ratio: number;
+    vlf_peak: number;
+    lf_peak: number;
+    hf_peak: number;
+    n_samples: number;
+    sampling_rate: number;
+}
+
+export interface EmotionFeatures {
+    emotion: string;
+    color: string;
+    time_domain: TimeDomainMetrics;
+    frequency_domain: FrequencyDomainMetrics;
+}
+
+// Response from /viz/analysis endpoint
+export interface FeatureAnalysisResponse {
+    study_number: number;
+    subject_id: number;
+    feature: string;
+    feature_title: string;
+    feature_unit: string;
+    emotions: EmotionFeatures[];
+    summary: {
+        n_emotions: number;
+        total_samples: number;
+        sampling_rate: number;
+    };
+}
+
+export interface PowerSpectrumData {
+    emotion: string;
+    color: string;
+    data: Array<{ frequency: number; power: number }>;
+}
+
+// Response from /viz/spectrum endpoint
+export interface PowerSpectrumResponse {
+    study_number: number;
+    subject_id: number;
+    feature: string;
+    spectra: PowerSpectrumData[];
+    frequency_bands: {
+        vlf: { min: number; max: number; label: string };
+        lf: { min: number; max: number; label: string };
+        hf: { min: number; max: number; label: string };
+    };
+}
+
+export interface FFTEmotionData {
+    emotion: string;
+    color: string;
+    spectrum: Array<{ frequency: number; magnitude: number }>;
+    dominant_frequency: number;
+    signal_energy: number;
+    n_samples: number;
+}
+
+// Response from /viz/fft endpoint
+export interface FFTResponse {
+    study_number: number;
+    subject_id: number;
+    feature: string;
+    feature_title: string;
+    sampling_interval: number;
+    max_frequency: number;
+    emotions: FFTEmotionData[];
+}
+
+// Response from /viz/features/matrix endpoint - raw feature values for table display
+export interface FeatureMatrixResponse {
+    study_number: number;
+    columns: string[];  // List of feature column names (includes 'Subject', 'Emotion')
+    signals_used: string[];
+    n_subjects: number;
+    n_emotions: number;
+    n_features: number;
+    rows: Array<{
+        Subject: number;
+        Emotion: string;
+        _color: string;
+        [key: string]: number | string;
+    }>;
+}
+
+// Response from /viz/signals/{study}/{subject}/overview endpoint - min/max envelope of one
+// signal across the whole recording, with the stimulus segments it spans
+export interface SignalOverviewResponse {
+    study_number: number;
+    subject_id: number;
+    feature: string;
+    unit: string;
+    duration: number;  // seconds
+    segments: Array<{
+        marker: number;
+        emotion: string;
+        color: string;
+        start: number;
+        end: number;
+    }>;
+    points: Array<{
+        time: number;  // bucket start, seconds
+        min: number | null;
+        max: number | null;
+    }>;
+}
+
+// Response from /viz/pca/frequency endpoint
+export interface FrequencyPCAResponse {
+    study_number: number;
+    features_used: string[];
+    n_subjects: number;
+    n_emotions: number;
+    n_points: number;
+    variance_explained: [number, number];
+    // Backend returns data_points with PCA coordinates
+    data_points: Array<{
+        subject_id: number;
+        emotion: string;
+        color: string;
+        pc1: number;
+        pc2: number;
+    }>;
+}
+
+// PCA over the comprehensive feature table, computed in the browser
+export interface FeaturePCAResult {
+    features: string[];
+    points: Array<{
+        subjectId: number;
+        emotion: string;
+        color: string;
+        pc1: number;
+        pc2: number;
+    }>;
+    variance: [number, number];
+}